@@ -0,0 +1,95 @@
+/**
+ * Score Backfill
+ * Rescores stored recordings and conversations with the current scoring engine
+ * and prints how much scores moved.
+ *
+ * Usage:
+ *   npm run backfill-scores -- --user <username> [--force] [--dry-run]
+ *     Rescore a user's recordings and talk sessions in Supabase (reads .env.local)
+ *   npm run backfill-scores -- --file <sage-users.json> [--out <path>] [--force] [--dry-run]
+ *     Rescore a local store export (the value of the `sage-users` localStorage key)
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import type { SpeechAnalysis, TalkSession } from '@/types';
+import { backfillScores, formatBackfillReport } from '@/lib/scoreBackfill';
+
+interface Options {
+  user?: string;
+  file?: string;
+  out?: string;
+  force: boolean;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { force: false, dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--user') options.user = argv[++i];
+    else if (arg === '--file') options.file = argv[++i];
+    else if (arg === '--out') options.out = argv[++i];
+    else if (arg === '--force') options.force = true;
+    else if (arg === '--dry-run') options.dryRun = true;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  if (!options.user === !options.file) {
+    throw new Error('Pass exactly one of --user <username> or --file <sage-users.json>');
+  }
+  return options;
+}
+
+async function backfillSupabase(username: string, options: Options) {
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+  // Imported late: the Supabase client reads its credentials when the module loads
+  const { userService, speechAnalysisService, talkSessionService } = await import('@/lib/supabaseService');
+
+  const user = await userService.findByUsername(username);
+  if (!user) throw new Error(`No Supabase user named "${username}"`);
+
+  const analyses: SpeechAnalysis[] = await speechAnalysisService.findByUserId(user.id);
+  const sessions: TalkSession[] = await talkSessionService.findByUserId(user.id);
+  const { speechAnalyses, talkSessions, report } = backfillScores(analyses, sessions, { force: options.force });
+  console.log(formatBackfillReport(report));
+
+  if (options.dryRun) return;
+  const rescoredIds = new Set(report.changes.map(c => c.id));
+  for (const analysis of speechAnalyses.filter(a => rescoredIds.has(a.id))) {
+    await speechAnalysisService.updateScores(analysis.id, analysis);
+  }
+  for (const session of talkSessions.filter(s => rescoredIds.has(s.id))) {
+    await talkSessionService.updateScores(session.id, session);
+  }
+  console.log(`✅ Saved ${report.speech.rescored} rescored recordings and ${report.talk.rescored} rescored talk sessions to Supabase`);
+}
+
+function backfillFile(path: string, options: Options) {
+  const storedUsers: Record<string, { speechAnalyses?: SpeechAnalysis[]; talkSessions?: TalkSession[] }> =
+    JSON.parse(readFileSync(path, 'utf8'));
+
+  Object.entries(storedUsers).forEach(([userId, userData]) => {
+    const { speechAnalyses, talkSessions, report } = backfillScores(
+      userData.speechAnalyses ?? [],
+      userData.talkSessions ?? [],
+      { force: options.force }
+    );
+    console.log(`\n${userId}\n${formatBackfillReport(report)}`);
+    storedUsers[userId] = { ...userData, speechAnalyses, talkSessions };
+  });
+
+  if (options.dryRun) return;
+  const outPath = options.out ?? path.replace(/\.json$/, '') + '.rescored.json';
+  writeFileSync(outPath, JSON.stringify(storedUsers));
+  console.log(`\n✅ Wrote rescored data to ${outPath}`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.user) await backfillSupabase(options.user, options);
+  else if (options.file) backfillFile(options.file, options);
+}
+
+main().catch(error => {
+  console.error('❌ Backfill failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+/**
+ * POST /api/biography
+ * Extracts biographical facts from a memory session transcript as structured
+ * JSON. Body: { transcript, chapter, provider?: "openai" | "local", model? }.
+ * Responds { facts: { names, locations, dates, lifeLessons } }.
+ */
+
+import { NextResponse } from 'next/server';
+import type { LifeChapter } from '@/types';
+import { extractBiographyFacts, LIFE_CHAPTERS } from '@/lib/biographyExtraction';
+import {
+  checkRateLimit,
+  DEFAULT_MODELS,
+  getUpstreamClient,
+  isBoundedString,
+  isModelName,
+  isUpstreamConfigured,
+  jsonError,
+  readJsonObject,
+  upstreamError,
+  type UpstreamTarget
+} from '@/lib/apiServer';
+
+const MAX_TRANSCRIPT_LENGTH = 20000;
+
+export async function POST(request: Request) {
+  const limited = checkRateLimit(request, 'biography');
+  if (limited) return limited;
+
+  const body = await readJsonObject(request);
+  if (!body) return jsonError('Expected a JSON object', 400);
+
+  if (body.provider !== undefined && body.provider !== 'openai' && body.provider !== 'local') {
+    return jsonError('provider must be "openai" or "local"', 400);
+  }
+  const target: UpstreamTarget = body.provider === 'local' ? 'local' : 'openai';
+  if (!isBoundedString(body.transcript, MAX_TRANSCRIPT_LENGTH)) {
+    return jsonError(`transcript must be a non-empty string of at most ${MAX_TRANSCRIPT_LENGTH} characters`, 400);
+  }
+  if (!(LIFE_CHAPTERS as unknown[]).includes(body.chapter)) {
+    return jsonError(`chapter must be one of ${LIFE_CHAPTERS.join(', ')}`, 400);
+  }
+  if (body.model !== undefined && !isModelName(body.model)) {
+    return jsonError('model is not a valid model name', 400);
+  }
+
+  if (!isUpstreamConfigured(target)) {
+    return jsonError('OpenAI is not configured on the server', 503);
+  }
+
+  try {
+    const facts = await extractBiographyFacts(
+      getUpstreamClient(target),
+      (body.model as string | undefined) ?? DEFAULT_MODELS[target],
+      body.transcript,
+      body.chapter as LifeChapter,
+      request.signal
+    );
+    return NextResponse.json({ facts });
+  } catch (error) {
+    return upstreamError(error, target);
+  }
+}
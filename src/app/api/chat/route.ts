@@ -0,0 +1,272 @@
+/**
+ * POST /api/chat
+ * Sage's next conversation reply from OpenAI, Gemini or a local
+ * OpenAI-compatible server. The system prompt is composed here from the prompt context, so
+ * clients can't replace Sage's instructions. With `stream: true` the reply is
+ * sent as plain text, token by token.
+ */
+
+import { NextResponse } from 'next/server';
+import type OpenAI from 'openai';
+import type { ConversationSettings, FamilyMember, LifeChapter, MemoryFact } from '@/types';
+import type { GroundingFact } from '@/lib/biographyGrounding';
+import { LIFE_CHAPTERS } from '@/lib/biographyExtraction';
+import { composeSystemPrompt, type PromptContext } from '@/lib/promptComposer';
+import {
+  checkRateLimit,
+  DEFAULT_MODELS,
+  getGeminiModel,
+  getUpstreamClient,
+  isBoundedString,
+  isGeminiConfigured,
+  isModelName,
+  isUpstreamConfigured,
+  jsonError,
+  readJsonObject,
+  upstreamError,
+  type ChatTarget,
+  type UpstreamTarget
+} from '@/lib/apiServer';
+
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_HISTORY = 10;
+const MAX_FAMILY_MEMBERS = 30;
+const MAX_MEMORIES = 12;
+const MAX_LIFE_STORY = 8;
+
+const SPEECH_RATES: unknown[] = ['slow', 'normal', 'fast'] satisfies ConversationSettings['speechRate'][];
+const COMPLEXITIES: unknown[] = ['simple', 'moderate', 'complex'] satisfies ConversationSettings['sentenceComplexity'][];
+const MEMORY_CATEGORIES: unknown[] = ['person', 'pet', 'event', 'preference'] satisfies MemoryFact['category'][];
+const GROUNDING_KINDS: unknown[] = ['name', 'location', 'date', 'lesson', 'family'] satisfies GroundingFact['kind'][];
+
+type ChatMessage = { role: 'user' | 'sage'; content: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isChatMessage(value: unknown): value is ChatMessage {
+  return isRecord(value)
+    && (value.role === 'user' || value.role === 'sage')
+    && typeof value.content === 'string'
+    && value.content.length <= MAX_MESSAGE_LENGTH;
+}
+
+/**
+ * Keep only the prompt context fields the composer uses, with valid values
+ */
+function readPromptContext(raw: unknown): PromptContext {
+  if (!isRecord(raw)) return {};
+  const context: PromptContext = {};
+
+  const settings = raw.settings;
+  if (isRecord(settings)
+      && SPEECH_RATES.includes(settings.speechRate)
+      && COMPLEXITIES.includes(settings.sentenceComplexity)) {
+    context.settings = {
+      speechRate: settings.speechRate as ConversationSettings['speechRate'],
+      sentenceComplexity: settings.sentenceComplexity as ConversationSettings['sentenceComplexity'],
+      usesFamiliarNames: settings.usesFamiliarNames === true,
+      repetitionEnabled: settings.repetitionEnabled === true,
+      calmingModeActive: settings.calmingModeActive === true
+    } satisfies ConversationSettings;
+  }
+
+  if (isBoundedString(raw.preferredName, 80)) {
+    context.preferredName = raw.preferredName;
+  }
+
+  if (Array.isArray(raw.familyMembers)) {
+    context.familyMembers = raw.familyMembers
+      .slice(0, MAX_FAMILY_MEMBERS)
+      .filter((m): m is Record<string, unknown> & { name: string } => isRecord(m) && isBoundedString(m.name, 80))
+      .map(m => ({
+        id: '',
+        name: m.name,
+        relationship: isBoundedString(m.relationship, 40) ? m.relationship : '',
+        status: m.status === 'connected' ? 'connected' : 'pending',
+        messages: []
+      } satisfies FamilyMember));
+  }
+
+  if (Array.isArray(raw.memories)) {
+    context.memories = raw.memories
+      .slice(0, MAX_MEMORIES)
+      .filter((m): m is Record<string, unknown> & { statement: string } =>
+        isRecord(m) && MEMORY_CATEGORIES.includes(m.category) && isBoundedString(m.statement, 300))
+      .map(m => {
+        const eventDate = typeof m.eventDate === 'string' ? new Date(m.eventDate) : null;
+        return {
+          id: '',
+          category: m.category as MemoryFact['category'],
+          subject: '',
+          statement: m.statement,
+          keywords: [],
+          ...(eventDate && !isNaN(eventDate.getTime()) && { eventDate }),
+          sourceSessionId: '',
+          firstMentioned: new Date(0),
+          lastMentioned: new Date(0),
+          mentionCount: 0
+        } satisfies MemoryFact;
+      });
+  }
+
+  if (Array.isArray(raw.lifeStory)) {
+    context.lifeStory = raw.lifeStory
+      .slice(0, MAX_LIFE_STORY)
+      .filter((f): f is Record<string, unknown> & { detail: string } =>
+        isRecord(f) && GROUNDING_KINDS.includes(f.kind) && isBoundedString(f.detail, 200))
+      .map(f => ({
+        source: 'biography',
+        sourceId: '',
+        kind: f.kind as GroundingFact['kind'],
+        detail: f.detail,
+        ...((LIFE_CHAPTERS as unknown[]).includes(f.chapter) && { chapter: f.chapter as LifeChapter })
+      } satisfies GroundingFact));
+  }
+
+  return context;
+}
+
+export async function POST(request: Request) {
+  const limited = checkRateLimit(request, 'chat');
+  if (limited) return limited;
+
+  const body = await readJsonObject(request);
+  if (!body) return jsonError('Expected a JSON object', 400);
+
+  if (body.provider !== undefined && body.provider !== 'openai' && body.provider !== 'local' && body.provider !== 'gemini') {
+    return jsonError('provider must be "openai", "gemini" or "local"', 400);
+  }
+  const target: ChatTarget = body.provider === 'local' || body.provider === 'gemini' ? body.provider : 'openai';
+  if (!isBoundedString(body.userMessage, MAX_MESSAGE_LENGTH)) {
+    return jsonError(`userMessage must be a non-empty string of at most ${MAX_MESSAGE_LENGTH} characters`, 400);
+  }
+  if (body.model !== undefined && !isModelName(body.model)) {
+    return jsonError('model is not a valid model name', 400);
+  }
+
+  const history: unknown[] = Array.isArray(body.history) ? body.history.slice(-MAX_HISTORY) : [];
+  if (!history.every(isChatMessage)) {
+    return jsonError('history must be a list of { role: "user" | "sage", content } messages', 400);
+  }
+
+  const systemPrompt = composeSystemPrompt(readPromptContext(body.context));
+  const model = (body.model as string | undefined) ?? DEFAULT_MODELS[target];
+  const stream = body.stream === true;
+
+  if (target === 'gemini') {
+    if (!isGeminiConfigured()) {
+      return jsonError('Gemini is not configured on the server', 503);
+    }
+    return geminiReply(buildGeminiPrompt(systemPrompt, history, body.userMessage), model, stream, request.signal);
+  }
+
+  if (!isUpstreamConfigured(target)) {
+    return jsonError('OpenAI is not configured on the server', 503);
+  }
+  return completionReply(target, {
+    model,
+    messages: [
+      { role: 'system', content: systemPrompt },
+      ...history.map(m => ({
+        role: m.role === 'sage' ? 'assistant' as const : 'user' as const,
+        content: m.content
+      })),
+      { role: 'user', content: body.userMessage }
+    ],
+    temperature: 0.7, // Makes responses more natural and varied
+    max_tokens: 150 // Keep responses concise
+  }, stream, request.signal);
+}
+
+/**
+ * Reply from an OpenAI-compatible chat completions API
+ */
+async function completionReply(
+  target: UpstreamTarget,
+  params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+  stream: boolean,
+  signal: AbortSignal
+): Promise<Response> {
+  try {
+    if (stream) {
+      // Abort the upstream call when the client disconnects (e.g. the user barges in)
+      const completion = await getUpstreamClient(target).chat.completions.create({ ...params, stream: true }, { signal });
+      return textStreamResponse(completionDeltas(completion));
+    }
+
+    const completion = await getUpstreamClient(target).chat.completions.create(params, { signal });
+    return NextResponse.json({ text: completion.choices[0]?.message?.content?.trim() ?? '' });
+  } catch (error) {
+    return upstreamError(error, target);
+  }
+}
+
+/**
+ * Gemini takes one prompt: instructions, earlier turns, then the new message
+ */
+function buildGeminiPrompt(systemPrompt: string, history: ChatMessage[], userMessage: string): string {
+  const historyText = history
+    .map(m => `${m.role === 'sage' ? 'Sage' : 'User'}: ${m.content}`)
+    .join('\n');
+
+  return `${systemPrompt}
+
+${historyText ? `Previous conversation:\n${historyText}\n\n` : ''}User: ${userMessage}\nSage:`;
+}
+
+/**
+ * Reply from Gemini
+ */
+async function geminiReply(prompt: string, model: string, stream: boolean, signal: AbortSignal): Promise<Response> {
+  try {
+    if (stream) {
+      const result = await getGeminiModel(model).generateContentStream(prompt, { signal });
+      return textStreamResponse(geminiDeltas(result.stream));
+    }
+
+    const result = await getGeminiModel(model).generateContent(prompt, { signal });
+    return NextResponse.json({ text: result.response.text().trim() });
+  } catch (error) {
+    return upstreamError(error, 'gemini');
+  }
+}
+
+async function* completionDeltas(stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>): AsyncIterable<string> {
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) yield delta;
+  }
+}
+
+async function* geminiDeltas(stream: AsyncIterable<{ text: () => string }>): AsyncIterable<string> {
+  for await (const chunk of stream) {
+    const delta = chunk.text();
+    if (delta) yield delta;
+  }
+}
+
+/**
+ * Plain text response that forwards each streamed token as it arrives
+ */
+function textStreamResponse(deltas: AsyncIterable<string>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const delta of deltas) {
+          controller.enqueue(encoder.encode(delta));
+        }
+        controller.close();
+      } catch (error) {
+        // Headers are already sent, so the client sees a cut-off body
+        console.error('Error streaming upstream model:', error);
+        controller.error(error);
+      }
+    }
+  });
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' }
+  });
+}
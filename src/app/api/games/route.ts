@@ -0,0 +1,50 @@
+/**
+ * POST /api/games
+ * Generates brain game content with OpenAI. Body: { type } where type is
+ * memory, attention, language or category_sorting.
+ */
+
+import { NextResponse } from 'next/server';
+import type OpenAI from 'openai';
+import {
+  generateMemoryGame,
+  generateAttentionGame,
+  generateLanguageGame,
+  generateCategorySortingGame
+} from '@/lib/gameGeneration';
+import {
+  checkRateLimit,
+  getUpstreamClient,
+  isUpstreamConfigured,
+  jsonError,
+  readJsonObject,
+  upstreamError
+} from '@/lib/apiServer';
+
+const GENERATORS = new Map<string, (client: OpenAI) => Promise<object>>(Object.entries({
+  memory: generateMemoryGame,
+  attention: generateAttentionGame,
+  language: generateLanguageGame,
+  category_sorting: generateCategorySortingGame
+}));
+
+export async function POST(request: Request) {
+  const limited = checkRateLimit(request, 'games');
+  if (limited) return limited;
+
+  const body = await readJsonObject(request);
+  const generate = typeof body?.type === 'string' ? GENERATORS.get(body.type) : undefined;
+  if (!generate) {
+    return jsonError(`type must be one of ${[...GENERATORS.keys()].join(', ')}`, 400);
+  }
+
+  if (!isUpstreamConfigured('openai')) {
+    return jsonError('OpenAI is not configured on the server', 503);
+  }
+
+  try {
+    return NextResponse.json(await generate(getUpstreamClient('openai')));
+  } catch (error) {
+    return upstreamError(error, 'openai');
+  }
+}
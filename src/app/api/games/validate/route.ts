@@ -0,0 +1,51 @@
+/**
+ * POST /api/games/validate
+ * Lenient AI check of a brain game answer. Body: { userAnswer, correctAnswer,
+ * question? }. Responds { isCorrect: boolean | null }; null means the model's
+ * reply couldn't be read and the client should match locally.
+ */
+
+import { NextResponse } from 'next/server';
+import { checkAnswer } from '@/lib/gameGeneration';
+import {
+  checkRateLimit,
+  getUpstreamClient,
+  isBoundedString,
+  isUpstreamConfigured,
+  jsonError,
+  readJsonObject,
+  upstreamError
+} from '@/lib/apiServer';
+
+const MAX_ANSWER_LENGTH = 200;
+const MAX_QUESTION_LENGTH = 500;
+
+export async function POST(request: Request) {
+  const limited = checkRateLimit(request, 'validate');
+  if (limited) return limited;
+
+  const body = await readJsonObject(request);
+  if (!body) return jsonError('Expected a JSON object', 400);
+  if (!isBoundedString(body.userAnswer, MAX_ANSWER_LENGTH) || !isBoundedString(body.correctAnswer, MAX_ANSWER_LENGTH)) {
+    return jsonError(`userAnswer and correctAnswer must be non-empty strings of at most ${MAX_ANSWER_LENGTH} characters`, 400);
+  }
+  if (body.question !== undefined && !isBoundedString(body.question, MAX_QUESTION_LENGTH)) {
+    return jsonError(`question must be a string of at most ${MAX_QUESTION_LENGTH} characters`, 400);
+  }
+
+  if (!isUpstreamConfigured('openai')) {
+    return jsonError('OpenAI is not configured on the server', 503);
+  }
+
+  try {
+    const isCorrect = await checkAnswer(
+      getUpstreamClient('openai'),
+      body.userAnswer,
+      body.correctAnswer,
+      body.question as string | undefined
+    );
+    return NextResponse.json({ isCorrect });
+  } catch (error) {
+    return upstreamError(error, 'openai');
+  }
+}
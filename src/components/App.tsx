@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { useStore } from '@/store/useStore';
 import { isSupabaseConfigured } from '@/lib/supabaseHelper';
+import { setApiUserId } from '@/lib/apiClient';
 import { 
   talkSessionService, 
   healthCardService, 
@@ -28,7 +29,15 @@ import { Talk } from '@/components/features/Talk';
 import { motion, AnimatePresence } from 'framer-motion';
 
 function MainContent() {
-  const { activeTab } = useStore();
+  const { activeTab, setActiveTab, user } = useStore();
+  const calmingModeActive = user?.conversationSettings.calmingModeActive ?? false;
+  
+  // Games are set aside while calming mode is active
+  useEffect(() => {
+    if (calmingModeActive && activeTab === 'games') {
+      setActiveTab('home');
+    }
+  }, [calmingModeActive, activeTab, setActiveTab]);
   
   const pageVariants = {
     initial: { opacity: 0, y: 20 },
@@ -48,7 +57,7 @@ function MainContent() {
         className="px-4 pb-32"
       >
         {activeTab === 'home' && <HomePage />}
-        {activeTab === 'games' && <BrainGames />}
+        {activeTab === 'games' && !calmingModeActive && <BrainGames />}
         {activeTab === 'family' && <FamilyHub />}
         {activeTab === 'insights' && <InsightsDashboard />}
         {activeTab === 'talk' && <Talk />}
@@ -81,6 +90,11 @@ export function App() {
     }
   }, [isAuthenticated, user?.hasCompletedOnboarding, setActiveTab]);
 
+  // Identify the user to the API routes for rate limiting
+  useEffect(() => {
+    setApiUserId(isAuthenticated ? currentUserId : null);
+  }, [isAuthenticated, currentUserId]);
+
   // Apply dark mode class to document
   useEffect(() => {
     if (isDarkMode) {
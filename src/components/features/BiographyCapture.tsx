@@ -335,7 +335,9 @@ export function BiographyCapture() {
     
     const biographyEntry = await processBiographyFromTranscript(
       fullTranscript,
-      currentSession.chapter
+      currentSession,
+      biography?.entries,
+      user?.conversationSettings
     );
     
     addBiographyEntry(biographyEntry);
@@ -348,10 +350,7 @@ export function BiographyCapture() {
     setSelectedChapter(null);
     setCurrentTranscript('');
     setFollowUpQuestions([]);
-    setPendingDatePrompt(null);
-  }, [currentSession, addBiographyEntry, updateMemorySession]);
-    setFollowUpQuestions([]);
-  }, [currentSession, updateMemorySession]);
+  }, [currentSession, biography, user, addBiographyEntry, updateMemorySession]);
 
   const getChapterIcon = (chapter: LifeChapter) => {
     return lifeChapters.find(c => c.value === chapter)?.icon || '📖';
@@ -723,7 +723,7 @@ function GameResults({
 
 // Main Brain Games Component
 export function BrainGames() {
-  const { addGameResult, addInsight } = useStore();
+  const { addGameResult } = useStore();
   const [selectedGame, setSelectedGame] = useState<GameType | null>(null);
   const [currentGame, setCurrentGame] = useState<MemoryGame | AttentionGame | LanguageGame | ProcessingSpeedGame | CategorySortingGame | PatternCompletionGame | null>(null);
   const [gameResult, setGameResult] = useState<Partial<CognitiveGameResult> | null>(null);
@@ -771,20 +771,7 @@ export function BrainGames() {
     };
     
     addGameResult(fullResult);
-    
-    // Generate insight for notable performance
-    if (result.accuracy && result.accuracy >= 90) {
-      addInsight({
-        id: crypto.randomUUID(),
-        timestamp: new Date(),
-        type: selectedGame === 'memory_recall' ? 'memory' : 'attention',
-        severity: 'info',
-        title: 'Excellent Performance!',
-        description: `Achieved ${result.accuracy}% accuracy in ${selectedGame?.replace('_', ' ')} activity.`,
-        recommendation: 'Great work! Consider trying more challenging activities.'
-      });
-    }
-  }, [selectedGame, addGameResult, addInsight]);
+  }, [selectedGame, addGameResult]);
 
   const resetGame = () => {
     setSelectedGame(null);
@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useStore } from '@/store/useStore';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { LifeTimeline } from '@/components/features/LifeTimeline';
 import { familyRequestService, familyMessageService } from '@/lib/supabaseService';
 import { supabase } from '@/lib/supabase';
 import { 
@@ -451,6 +452,7 @@ export function FamilyHub() {
   const [selectedMember, setSelectedMember] = useState<FamilyMember | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
   const [showRequests, setShowRequests] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
   const [pendingRequests, setPendingRequests] = useState<FamilyRequest[]>([]);
   const [sentRequests, setSentRequests] = useState<FamilyRequest[]>([]);
   
@@ -594,6 +596,10 @@ export function FamilyHub() {
     );
   }
 
+  if (showTimeline) {
+    return <LifeTimeline onBack={() => setShowTimeline(false)} />;
+  }
+
   if (selectedMember) {
     const latestMember = user?.familyMembers?.find(m => m.id === selectedMember.id) || selectedMember;
     return (
@@ -617,6 +623,13 @@ export function FamilyHub() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button 
+            variant="secondary" 
+            size="sm" 
+            onClick={() => setShowTimeline(true)}
+          >
+            Life Timeline
+          </Button>
           {pendingRequests.length > 0 && (
             <Button 
               variant="secondary" 
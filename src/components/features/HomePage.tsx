@@ -227,18 +227,21 @@ export function HomePage() {
           Quick Actions
         </h3>
         
-        <Card hover onClick={() => setActiveTab('games')} delay={0.3}>
-          <div className="flex items-center gap-4">
-            <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-[var(--color-terracotta)] to-[var(--color-terracotta-dark)] flex items-center justify-center">
-              <Brain size={24} className="text-white" />
-            </div>
-            <div className="flex-1">
-              <h4 className="font-medium text-base text-[var(--color-charcoal)]">Play Brain Games</h4>
-              <p className="text-sm text-[var(--color-stone)]">Gentle activities for your mind</p>
+        {/* Games are set aside while calming mode is active */}
+        {!user?.conversationSettings.calmingModeActive && (
+          <Card hover onClick={() => setActiveTab('games')} delay={0.3}>
+            <div className="flex items-center gap-4">
+              <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-[var(--color-terracotta)] to-[var(--color-terracotta-dark)] flex items-center justify-center">
+                <Brain size={24} className="text-white" />
+              </div>
+              <div className="flex-1">
+                <h4 className="font-medium text-base text-[var(--color-charcoal)]">Play Brain Games</h4>
+                <p className="text-sm text-[var(--color-stone)]">Gentle activities for your mind</p>
+              </div>
+              <ChevronRight className="text-[var(--color-stone)]" />
             </div>
-            <ChevronRight className="text-[var(--color-stone)]" />
-          </div>
-        </Card>
+          </Card>
+        )}
         
         <Card hover onClick={() => setActiveTab('family')} delay={0.4}>
           <div className="flex items-center gap-4">
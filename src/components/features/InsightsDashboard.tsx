@@ -12,11 +12,14 @@ import {
 } from '@/components/icons';
 import { 
   generateMonthlyCognitiveTrends,
-  generateTimeOfDayPerformance,
   generateEmotionalDistribution,
   generateWeeklyTrends
 } from '@/lib/mockData';
-import type { Insight, TalkSession } from '@/types';
+import { calculateDomainTrends, type TrendWindowDays } from '@/lib/trendAnalysis';
+import { analyzeTimeOfDayPerformance } from '@/lib/timeOfDayAnalysis';
+import { detectRepeatedQuestions } from '@/lib/repeatedQuestions';
+import { summarizeConsistency } from '@/lib/memoryConsistency';
+import type { GroundingReference, Insight, LifeFactTopic, TalkSession, TrendEstimate } from '@/types';
 import {
   LineChart, Line, AreaChart, Area, BarChart, Bar, 
   PieChart, Pie, Cell, RadarChart, Radar, PolarGrid, 
@@ -624,10 +627,37 @@ function LanguageTab({ dateFilter }: { dateFilter: DateFilter }) {
   );
 }
 
+// Trend window follows the date filter; 'all' and custom ranges use 30 days
+function getTrendWindow(filter: DateFilter): TrendWindowDays {
+  if (filter.range === '7d') return 7;
+  if (filter.range === '90d') return 90;
+  return 30;
+}
+
+function formatTrendSubtitle(estimate: TrendEstimate | null): string {
+  if (!estimate) return 'Not enough data for a trend';
+  if (estimate.direction === 'stable') return `Stable over ${estimate.windowDays} days`;
+  return `${estimate.slopePerWeek > 0 ? '+' : ''}${estimate.slopePerWeek} pts/week`;
+}
+
+const lifeFactLabels: Record<LifeFactTopic, string> = {
+  wedding_year: 'Wedding year',
+  birth_year: 'Year born',
+  birthplace: 'Birthplace',
+  hometown: 'Where they grew up',
+  occupation: 'Work',
+  child_name: 'Child\'s name'
+};
+
 function CognitiveTab({ dateFilter }: { dateFilter: DateFilter }) {
-  const { gameResults, user } = useStore();
+  const { gameResults, speechAnalyses, talkSessions, user } = useStore();
   const profile = user?.cognitiveProfile;
   const filteredGames = filterByDateRange(gameResults, dateFilter);
+  const trendWindow = getTrendWindow(dateFilter);
+  const domainTrends = useMemo(
+    () => calculateDomainTrends(speechAnalyses, gameResults, trendWindow),
+    [speechAnalyses, gameResults, trendWindow]
+  );
   
   // Create weekly data from actual game results
   const weeklyData = useMemo(() => {
@@ -670,7 +700,33 @@ function CognitiveTab({ dateFilter }: { dateFilter: DateFilter }) {
     }));
   }, [filteredGames]);
   
-  const timeOfDayData = generateTimeOfDayPerformance();
+  const timeOfDay = useMemo(
+    () => analyzeTimeOfDayPerformance(speechAnalyses, gameResults, talkSessions, trendWindow),
+    [speechAnalyses, gameResults, talkSessions, trendWindow]
+  );
+  const timeOfDayData = timeOfDay.buckets
+    .filter(b => b.sampleCount > 0)
+    .map(b => ({
+      time: b.bucket.label,
+      language: b.language,
+      games: b.games,
+      conversation: b.conversation
+    }));
+  
+  // Restated life-story facts against the biography and earlier conversations
+  const filteredTalkSessions = filterByDateRange(talkSessions, dateFilter);
+  const consistencyData = summarizeConsistency(filteredTalkSessions).map(point => ({
+    date: point.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    consistency: point.consistency,
+    matches: point.matches,
+    contradictions: point.contradictions,
+    vague: point.vague
+  }));
+  const recentProbes = filteredTalkSessions
+    .flatMap(s => (s.memoryProbes ?? []).map(probe => ({ probe, timestamp: s.timestamp })))
+    .filter(({ probe }) => probe.outcome !== 'match')
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .slice(0, 5);
   
   // Use actual profile data for radar chart
   const radarData = [
@@ -747,19 +803,130 @@ function CognitiveTab({ dateFilter }: { dateFilter: DateFilter }) {
         </div>
       </Card>
       
+      {/* Performance by Time of Day */}
+      <Card>
+        <h3 className="font-display font-semibold text-[var(--color-charcoal)] mb-4">
+          Performance by Time of Day
+        </h3>
+        {timeOfDayData.length > 0 ? (
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={timeOfDayData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--color-sand)" />
+                <XAxis 
+                  dataKey="time" 
+                  tick={{ fontSize: 10, fill: 'var(--color-stone)' }}
+                />
+                <YAxis 
+                  domain={[0, 100]}
+                  tick={{ fontSize: 10, fill: 'var(--color-stone)' }}
+                />
+                <Tooltip 
+                  contentStyle={{ 
+                    background: 'var(--color-warm-white)', 
+                    border: '1px solid var(--color-sand)',
+                    borderRadius: '12px'
+                  }}
+                />
+                <Legend />
+                <Bar dataKey="language" fill="var(--color-sage)" radius={[4, 4, 0, 0]} name="Language" />
+                <Bar dataKey="games" fill="var(--color-terracotta)" radius={[4, 4, 0, 0]} name="Games" />
+                <Bar dataKey="conversation" fill="var(--color-calm)" radius={[4, 4, 0, 0]} name="Conversation" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm text-[var(--color-stone)] text-center py-6">
+            No activity in this period yet
+          </p>
+        )}
+        {timeOfDay.bestWindow && timeOfDay.worstWindow ? (
+          <p className="text-sm text-[var(--color-stone)] mt-3 text-center">
+            Best around {timeOfDay.bestWindow.bucket.label}, lowest around {timeOfDay.worstWindow.bucket.label} ({timeOfDay.spread} point difference)
+          </p>
+        ) : timeOfDayData.length > 0 && (
+          <p className="text-sm text-[var(--color-stone)] mt-3 text-center">
+            More activity at different times of day is needed to compare them
+          </p>
+        )}
+        {timeOfDay.sundowning.detected && (
+          <div className="mt-3 p-3 bg-[var(--color-sand)] rounded-xl flex items-start gap-2">
+            <AlertCircle size={18} className="text-[var(--color-terracotta)] mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-[var(--color-charcoal)]">
+              Scores decline steadily from midday into the evening (about {timeOfDay.sundowning.drop} points). 
+              This pattern, sometimes called sundowning, is worth mentioning to their doctor.
+            </p>
+          </div>
+        )}
+      </Card>
+      
+      {/* Autobiographical memory consistency */}
+      <Card>
+        <h3 className="font-display font-semibold text-[var(--color-charcoal)] mb-1">
+          Life Story Consistency
+        </h3>
+        <p className="text-xs text-[var(--color-stone)] mb-4">
+          How often details of their life told in conversation match the biography and what they said before
+        </p>
+        {consistencyData.length > 0 ? (
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={consistencyData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--color-sand)" />
+                <XAxis 
+                  dataKey="date" 
+                  tick={{ fontSize: 10, fill: 'var(--color-stone)' }}
+                />
+                <YAxis 
+                  domain={[0, 100]}
+                  tick={{ fontSize: 10, fill: 'var(--color-stone)' }}
+                />
+                <Tooltip 
+                  contentStyle={{ 
+                    background: 'var(--color-warm-white)', 
+                    border: '1px solid var(--color-sand)',
+                    borderRadius: '12px'
+                  }}
+                />
+                <Line type="monotone" dataKey="consistency" stroke="var(--color-sage)" strokeWidth={2} name="Matched (%)" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm text-[var(--color-stone)] text-center py-6">
+            No life-story details have come up in conversation in this period
+          </p>
+        )}
+        {recentProbes.length > 0 && (
+          <div className="mt-3 space-y-2">
+            {recentProbes.map(({ probe, timestamp }) => (
+              <div key={probe.id} className="p-3 bg-[var(--color-sand)] rounded-xl">
+                <p className="text-sm text-[var(--color-charcoal)]">
+                  &ldquo;{probe.statement}&rdquo;
+                </p>
+                <p className="text-xs text-[var(--color-stone)] mt-1">
+                  {lifeFactLabels[probe.topic]} • {probe.outcome === 'contradict' ? 'Differs from' : 'Unclear; recorded as'} {probe.expected}
+                  {probe.source === 'conversation' && ' (said in an earlier conversation)'} • {new Date(timestamp).toLocaleDateString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+      
       {/* Game Performance Summary */}
       <div className="grid grid-cols-2 gap-3">
         <ProgressCard
           title="Memory Recall"
           value={profile?.memoryRecall?.current ?? 0}
           color="var(--color-terracotta)"
-          subtitle={profile?.memoryRecall?.trend ? `${profile.memoryRecall.trend > 0 ? '+' : ''}${profile.memoryRecall.trend}% this week` : 'No data yet'}
+          subtitle={formatTrendSubtitle(domainTrends.memoryRecall)}
         />
         <ProgressCard
           title="Attention Focus"
           value={profile?.attention?.current ?? 0}
           color="var(--color-calm)"
-          subtitle={profile?.attention?.trend ? `${profile.attention.trend > 0 ? '+' : ''}${profile.attention.trend}% this week` : 'No data yet'}
+          subtitle={formatTrendSubtitle(domainTrends.attention)}
         />
       </div>
       
@@ -768,7 +935,8 @@ function CognitiveTab({ dateFilter }: { dateFilter: DateFilter }) {
 }
 
 function EmotionalTab({ dateFilter }: { dateFilter: DateFilter }) {
-  const { speechAnalyses } = useStore();
+  const { speechAnalyses, user } = useStore();
+  const calmingModeActive = user?.conversationSettings.calmingModeActive ?? false;
   const filteredAnalyses = filterByDateRange(speechAnalyses, dateFilter);
   
   // Calculate emotional distribution from actual data
@@ -868,11 +1036,11 @@ function EmotionalTab({ dateFilter }: { dateFilter: DateFilter }) {
       <Card className="bg-gradient-to-br from-[var(--color-calm)] to-[var(--color-sage)] text-white">
         <h3 className="font-display font-semibold mb-2">Calming Mode</h3>
         <p className="text-sm opacity-90 mb-4">
-          When anxiety or agitation is detected, Sage can automatically 
-          initiate calming dialogue, play familiar music, or suggest taking a break.
+          When anxiety or agitation persists across several replies or recordings, Sage 
+          automatically slows its voice, switches to soothing dialogue and sets games aside until things settle.
         </p>
         <div className="flex gap-2">
-          <span className="px-3 py-1 bg-white/20 rounded-full text-sm">Auto-enabled</span>
+          <span className="px-3 py-1 bg-white/20 rounded-full text-sm">{calmingModeActive ? 'Active now' : 'Standing by'}</span>
           <span className="px-3 py-1 bg-white/20 rounded-full text-sm">Voice-triggered</span>
         </div>
       </Card>
@@ -881,12 +1049,122 @@ function EmotionalTab({ dateFilter }: { dateFilter: DateFilter }) {
   );
 }
 
+const recallOptions: { value: NonNullable<GroundingReference['recall']>; label: string }[] = [
+  { value: 'correct', label: 'Correct' },
+  { value: 'incorrect', label: 'Incorrect' },
+  { value: 'unsure', label: 'Unsure' }
+];
+
 function ConversationsTab({ dateFilter }: { dateFilter: DateFilter }) {
-  const { talkSessions } = useStore();
+  const { talkSessions, speechAnalyses, judgeGroundingReference } = useStore();
   const filteredTalkSessions = filterByDateRange(talkSessions, dateFilter);
+  // Life-story details Sage brought up, newest first
+  const groundingReferences = useMemo(
+    () => filterByDateRange(talkSessions, dateFilter)
+      .flatMap(session => session.messages.flatMap(message =>
+        (message.groundingReferences ?? []).map(reference => ({ sessionId: session.id, timestamp: message.timestamp, reference }))
+      ))
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
+    [talkSessions, dateFilter]
+  );
+  const repeatedQuestions = useMemo(
+    () => detectRepeatedQuestions(
+      filterByDateRange(talkSessions, dateFilter),
+      filterByDateRange(speechAnalyses, dateFilter),
+      { windowDays: null } // Already filtered by the date range
+    ),
+    [talkSessions, speechAnalyses, dateFilter]
+  );
 
   return (
     <div className="space-y-4">
+      {/* Questions asked again on different days */}
+      <Card>
+        <h3 className="font-display font-semibold text-[var(--color-charcoal)] mb-1">
+          Repeated Questions
+        </h3>
+        <p className="text-xs text-[var(--color-stone)] mb-4">
+          The same question, or one worded differently, asked on more than one day
+        </p>
+        {repeatedQuestions.length > 0 ? (
+          <div className="space-y-3">
+            {repeatedQuestions.slice(0, 5).map(question => (
+              <div key={question.key} className="p-3 bg-[var(--color-sand)] rounded-xl">
+                <p className="font-medium text-[var(--color-charcoal)]">
+                  &ldquo;{question.representative}&rdquo;
+                </p>
+                <p className="text-xs text-[var(--color-stone)] mt-1">
+                  Asked {question.count} times on {question.dayCount} days • Last asked {question.lastAsked.toLocaleDateString()}
+                </p>
+                {question.examples.length > 1 && (
+                  <ul className="mt-2 space-y-1">
+                    {question.examples
+                      .filter(example => example !== question.representative)
+                      .map(example => (
+                        <li key={example} className="text-xs text-[var(--color-charcoal)] opacity-80">
+                          Also asked as: &ldquo;{example}&rdquo;
+                        </li>
+                      ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-[var(--color-stone)] text-center py-4">
+            No questions repeated across days in this period
+          </p>
+        )}
+      </Card>
+
+      {/* Life-story details Sage used, for caregivers to judge recall */}
+      <Card>
+        <h3 className="font-display font-semibold text-[var(--color-charcoal)] mb-1">
+          Memories Sage Used
+        </h3>
+        <p className="text-xs text-[var(--color-stone)] mb-4">
+          Details from the life story and family that Sage brought up, and how they answered
+        </p>
+        {groundingReferences.length > 0 ? (
+          <div className="space-y-3">
+            {groundingReferences.map(({ sessionId, timestamp, reference }) => (
+              <div key={reference.id} className="p-3 bg-[var(--color-sand)] rounded-xl">
+                <p className="font-medium text-[var(--color-charcoal)]">
+                  {reference.detail}
+                </p>
+                <p className="text-xs text-[var(--color-stone)] mt-1">
+                  {reference.source === 'family' ? 'Family' : `Life story${reference.chapter ? ` • ${reference.chapter}` : ''}`} • {new Date(timestamp).toLocaleDateString()}
+                </p>
+                <p className="text-sm text-[var(--color-charcoal)] mt-2">
+                  {reference.userResponse
+                    ? <>They answered: &ldquo;{reference.userResponse}&rdquo;</>
+                    : <span className="text-[var(--color-stone)]">No answer recorded</span>}
+                </p>
+                <div className="flex gap-2 mt-2">
+                  {recallOptions.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => judgeGroundingReference(sessionId, reference.id, option.value)}
+                      className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                        reference.recall === option.value
+                          ? 'bg-[var(--color-sage)] text-white'
+                          : 'bg-white text-[var(--color-charcoal)] hover:bg-[var(--color-sage-light)]'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-[var(--color-stone)] text-center py-4">
+            Sage hasn&apos;t brought up any life-story details in this period
+          </p>
+        )}
+      </Card>
+
       <Card>
         <div className="flex items-center justify-between mb-4">
           <h3 className="font-display font-semibold text-[var(--color-charcoal)]">
@@ -945,6 +1223,15 @@ function ConversationsTab({ dateFilter }: { dateFilter: DateFilter }) {
                             <div className="whitespace-pre-wrap break-words">
                               {message.content}
                             </div>
+                            {message.groundingReferences && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {message.groundingReferences.map(reference => (
+                                  <span key={reference.id} className="px-2 py-0.5 rounded-full text-xs bg-[var(--color-sage-light)] text-[var(--color-sage-dark)]">
+                                    {reference.detail}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                             <div className="text-xs opacity-50 mt-1">
                               {new Date(message.timestamp).toLocaleTimeString()}
                             </div>
@@ -983,6 +1270,13 @@ function ConversationsTab({ dateFilter }: { dateFilter: DateFilter }) {
                         <span className="font-medium">{session.cliBreakdown.attention}</span>
                       </div>
                     </div>
+                    {session.coherence && session.coherence.onTopicRate !== null && (
+                      <p className="text-xs text-[var(--color-stone)] mt-2">
+                        On topic: {Math.round(session.coherence.onTopicRate * 100)}% of answers
+                        {session.coherence.driftRate !== null && ` • Topic drift: ${Math.round(session.coherence.driftRate * 100)}%`}
+                        {` (${session.coherence.judgedTurns} turn${session.coherence.judgedTurns === 1 ? '' : 's'} judged)`}
+                      </p>
+                    )}
                   </div>
                 )}
               </Card>
@@ -0,0 +1,257 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useStore } from '@/store/useStore';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { AlertCircle, BookOpen, Calendar, ChevronRight, MessageCircle, X } from '@/components/icons';
+import { buildLifeTimeline } from '@/lib/lifeTimeline';
+import type { LifeChapter, TimelineEvent } from '@/types';
+
+const chapterLabels: Record<LifeChapter, string> = {
+  childhood: 'Childhood',
+  career: 'Career',
+  marriage: 'Marriage',
+  family: 'Family',
+  hobbies: 'Hobbies',
+  travel: 'Travel',
+  achievements: 'Achievements',
+  lessons: 'Life Lessons'
+};
+
+function formatEventDate(event: TimelineEvent): string {
+  if (!event.date) return event.dateText ? `Undated (${event.dateText})` : 'Undated';
+  if (event.precision === 'day') {
+    return event.date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+  }
+  if (event.precision === 'year') return String(event.date.getFullYear());
+  return event.earliestYear === event.latestYear
+    ? `About ${event.earliestYear}`
+    : `About ${event.earliestYear}–${event.latestYear}`;
+}
+
+interface TimelineEventCardProps {
+  event: TimelineEvent;
+  conflicts: string[];
+  isOpen: boolean;
+  onToggle: () => void;
+}
+
+function TimelineEventCard({ event, conflicts, isOpen, onToggle }: TimelineEventCardProps) {
+  const { user, biography, addTimelineAnnotation, deleteTimelineAnnotation } = useStore();
+  const [noteText, setNoteText] = useState('');
+  const [authorName, setAuthorName] = useState('');
+
+  const notes = (biography?.annotations || []).filter(a => a.eventId === event.id);
+  // Notes can be written by the person or by any connected family member
+  const authors = [
+    user?.preferredName || user?.name || 'Me',
+    ...(user?.familyMembers || []).filter(m => m.status === 'connected').map(m => m.name)
+  ];
+  const author = authorName || authors[0];
+
+  const handleAddNote = () => {
+    if (!noteText.trim()) return;
+    addTimelineAnnotation({
+      id: crypto.randomUUID(),
+      eventId: event.id,
+      authorName: author,
+      text: noteText.trim(),
+      timestamp: new Date()
+    });
+    setNoteText('');
+  };
+
+  return (
+    <div className="relative pl-8">
+      <div className={`absolute left-0 top-5 w-4 h-4 rounded-full border-2 ${
+        conflicts.length > 0
+          ? 'bg-[var(--color-terracotta)] border-[var(--color-terracotta)]'
+          : event.precision === 'approximate'
+            ? 'bg-white border-[var(--color-sage)]'
+            : 'bg-[var(--color-sage)] border-[var(--color-sage)]'
+      }`} />
+      <Card hover onClick={onToggle}>
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 flex-wrap mb-1">
+              <span className="font-display font-semibold text-[var(--color-charcoal)]">
+                {formatEventDate(event)}
+              </span>
+              {event.precision === 'approximate' && event.dateText && (
+                <span className="text-xs text-[var(--color-stone)]">“{event.dateText}”</span>
+              )}
+              <span className="text-xs px-2 py-0.5 rounded-full bg-[var(--color-sand)] text-[var(--color-stone)]">
+                {chapterLabels[event.chapter]}
+              </span>
+            </div>
+            <p className="text-[var(--color-charcoal)]">{event.description}</p>
+            {conflicts.map(reason => (
+              <p key={reason} className="flex items-center gap-1 text-sm text-[var(--color-terracotta)] mt-2">
+                <AlertCircle size={14} />
+                {reason}
+              </p>
+            ))}
+          </div>
+          {notes.length > 0 && (
+            <span className="flex items-center gap-1 text-xs text-[var(--color-stone)]">
+              <MessageCircle size={14} />
+              {notes.length}
+            </span>
+          )}
+        </div>
+      </Card>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-2 ml-4 space-y-2"
+          >
+            {notes.map(note => (
+              <div key={note.id} className="p-3 rounded-xl bg-[var(--color-sand)]/50 flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-sm text-[var(--color-charcoal)]">{note.text}</p>
+                  <p className="text-xs text-[var(--color-stone)] mt-1">
+                    {note.authorName} · {new Date(note.timestamp).toLocaleDateString()}
+                  </p>
+                </div>
+                <button onClick={() => deleteTimelineAnnotation(note.id)} aria-label="Delete note">
+                  <X size={16} className="text-[var(--color-stone)]" />
+                </button>
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <select
+                value={author}
+                onChange={(e) => setAuthorName(e.target.value)}
+                className="w-full p-2 rounded-xl border-2 border-[var(--color-sand)] focus:border-[var(--color-sage)] outline-none bg-white text-sm"
+              >
+                {authors.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+              <textarea
+                value={noteText}
+                onChange={(e) => setNoteText(e.target.value)}
+                placeholder="Add a note, a correction or the right date..."
+                rows={2}
+                className="w-full p-3 rounded-xl border-2 border-[var(--color-sand)] focus:border-[var(--color-sage)] outline-none text-sm resize-none"
+              />
+              <Button size="sm" onClick={handleAddNote} disabled={!noteText.trim()}>
+                Add Note
+              </Button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+interface LifeTimelineProps {
+  onBack: () => void;
+}
+
+export function LifeTimeline({ onBack }: LifeTimelineProps) {
+  const { user, biography } = useStore();
+  const [openEventId, setOpenEventId] = useState<string | null>(null);
+
+  const timeline = useMemo(
+    () => buildLifeTimeline(biography, user?.dateOfBirth),
+    [biography, user?.dateOfBirth]
+  );
+
+  // Conflict reasons by event, for the badges on each event
+  const conflictsByEvent = useMemo(() => {
+    const byEvent = new Map<string, string[]>();
+    timeline.conflicts.forEach(conflict => {
+      new Set(conflict.eventIds).forEach(id => byEvent.set(id, [...(byEvent.get(id) || []), conflict.reason]));
+    });
+    return byEvent;
+  }, [timeline.conflicts]);
+
+  const renderEvent = (event: TimelineEvent) => (
+    <TimelineEventCard
+      key={event.id}
+      event={event}
+      conflicts={conflictsByEvent.get(event.id) || []}
+      isOpen={openEventId === event.id}
+      onToggle={() => setOpenEventId(openEventId === event.id ? null : event.id)}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-2xl font-display font-bold text-[var(--color-charcoal)]">
+            Life Timeline
+          </h2>
+          <p className="text-[var(--color-stone)]">
+            {timeline.birthYear ? `Born ${timeline.birthYear} · ` : ''}
+            {timeline.events.length} dated event{timeline.events.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+        <button
+          onClick={onBack}
+          className="p-2 rounded-xl hover:bg-[var(--color-sand)] transition-colors"
+        >
+          <ChevronRight size={24} className="text-[var(--color-stone)] rotate-180" />
+        </button>
+      </div>
+
+      {timeline.events.length === 0 && timeline.undated.length === 0 ? (
+        <Card className="p-8 text-center">
+          <BookOpen size={48} className="text-[var(--color-sage)] mx-auto mb-4 opacity-50" />
+          <p className="text-[var(--color-stone)]">
+            No life events yet. They appear here as memories are shared with Sage.
+          </p>
+        </Card>
+      ) : (
+        <>
+          {timeline.conflicts.length > 0 && (
+            <Card className="bg-[var(--color-terracotta)]/10 border-[var(--color-terracotta)]">
+              <div className="flex items-start gap-3">
+                <AlertCircle size={20} className="text-[var(--color-terracotta)] flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-semibold text-[var(--color-charcoal)]">
+                    {timeline.conflicts.length} date{timeline.conflicts.length !== 1 ? 's' : ''} to check
+                  </p>
+                  <p className="text-sm text-[var(--color-stone)]">
+                    Some events can&apos;t both be right. Tap one to leave a note with the correct date.
+                  </p>
+                </div>
+              </div>
+            </Card>
+          )}
+
+          {!timeline.birthYear && (
+            <p className="text-sm text-[var(--color-stone)]">
+              Memories like &quot;when I was twenty&quot; are placed once Sage hears the year of birth.
+            </p>
+          )}
+
+          <div className="relative space-y-3">
+            <div className="absolute left-[7px] top-0 bottom-0 w-0.5 bg-[var(--color-sand)]" />
+            {timeline.events.map(renderEvent)}
+          </div>
+
+          {timeline.undated.length > 0 && (
+            <div className="space-y-3 pt-4">
+              <h3 className="flex items-center gap-2 font-display font-semibold text-[var(--color-charcoal)]">
+                <Calendar size={18} className="text-[var(--color-stone)]" />
+                Needs a date
+              </h3>
+              {timeline.undated.map(renderEvent)}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,8 +6,20 @@ import { useStore } from '@/store/useStore';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { 
-  Sun, Moon, User, Volume2, LogOut, ChevronRight, Info
+  Sun, Moon, User, Volume2, LogOut, ChevronRight, Info, RefreshCw, X
 } from '@/components/icons';
+import type { MemoryFactCategory } from '@/types';
+import type { BackfillReport } from '@/lib/scoreBackfill';
+import { getConversationProviders, resolveConversationProvider } from '@/lib/conversationProvider';
+
+const MEMORY_CATEGORY_ORDER: MemoryFactCategory[] = ['person', 'pet', 'event', 'preference'];
+
+const MEMORY_CATEGORY_ICONS: Record<MemoryFactCategory, string> = {
+  person: '👪',
+  pet: '🐾',
+  event: '📅',
+  preference: '💚'
+};
 
 export function Settings() {
   const { 
@@ -15,10 +27,21 @@ export function Settings() {
     isDarkMode, 
     toggleDarkMode, 
     updateConversationSettings,
+    recomputeScores,
+    memoryFacts,
+    deleteMemoryFact,
     logout
   } = useStore();
   
   const [showAbout, setShowAbout] = useState(false);
+  const [backfillReport, setBackfillReport] = useState<BackfillReport | null>(null);
+  
+  // The scripted mock provider is for tests and is only selectable by environment
+  const providers = getConversationProviders().filter(p => p.id !== 'mock');
+  const { provider: activeProvider, model: activeModel } = resolveConversationProvider(user?.conversationSettings);
+  const rememberedFacts = [...memoryFacts].sort((a, b) =>
+    MEMORY_CATEGORY_ORDER.indexOf(a.category) - MEMORY_CATEGORY_ORDER.indexOf(b.category)
+    || new Date(b.lastMentioned).getTime() - new Date(a.lastMentioned).getTime());
 
   return (
     <div className="space-y-6">
@@ -209,6 +232,143 @@ export function Settings() {
         </Card>
       </div>
 
+      {/* Conversation Model */}
+      <div className="space-y-3">
+        <h3 className="font-display font-semibold text-lg text-[var(--color-charcoal)]">
+          Conversation Model
+        </h3>
+
+        <Card>
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <span className="text-2xl">💬</span>
+              <div>
+                <p className="font-medium text-[var(--color-charcoal)]">Provider</p>
+                <p className="text-sm text-[var(--color-stone)]">
+                  {activeProvider.description}
+                  {!activeProvider.isConfigured() && ' (not configured, using offline replies)'}
+                </p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {providers.map((provider) => (
+                <button
+                  key={provider.id}
+                  onClick={() => updateConversationSettings({ provider: provider.id, model: undefined })}
+                  className={`py-2 px-4 rounded-xl text-sm font-medium transition-all ${
+                    activeProvider.id === provider.id
+                      ? 'bg-[var(--color-sage)] text-white'
+                      : 'bg-[var(--color-sand)] text-[var(--color-stone)] hover:bg-[var(--color-sage-light)]'
+                  }`}
+                >
+                  {provider.label}
+                </button>
+              ))}
+            </div>
+            {activeProvider.defaultModel && (
+              <div>
+                <label htmlFor="conversation-model" className="text-sm text-[var(--color-stone)]">
+                  Model
+                </label>
+                <input
+                  type="text"
+                  id="conversation-model"
+                  key={`${activeProvider.id}-${activeModel}`}
+                  defaultValue={activeModel}
+                  placeholder={activeProvider.defaultModel}
+                  onBlur={(e) => updateConversationSettings({ model: e.target.value.trim() || undefined })}
+                  className="mt-1 w-full p-3 rounded-xl border-2 border-[var(--color-sand)] focus:border-[var(--color-sage)] outline-none"
+                />
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      {/* What Sage Remembers */}
+      <div className="space-y-3">
+        <h3 className="font-display font-semibold text-lg text-[var(--color-charcoal)]">
+          What Sage Remembers
+        </h3>
+
+        <Card>
+          <p className="text-sm text-[var(--color-stone)] mb-4">
+            Sage remembers people, pets, plans and favorite things from past conversations.
+            Remove anything that is wrong or that you&apos;d rather Sage didn&apos;t bring up.
+          </p>
+          {rememberedFacts.length === 0 ? (
+            <p className="text-sm text-[var(--color-stone)] italic">Nothing remembered yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {rememberedFacts.map((fact) => (
+                <li key={fact.id} className="flex items-center gap-3 p-3 rounded-xl bg-[var(--color-sand)]">
+                  <span className="text-xl">{MEMORY_CATEGORY_ICONS[fact.category]}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[var(--color-charcoal)]">{fact.statement}</p>
+                    <p className="text-xs text-[var(--color-stone)]">
+                      {fact.eventDate && `On ${new Date(fact.eventDate).toLocaleDateString()} · `}
+                      Last mentioned {new Date(fact.lastMentioned).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => deleteMemoryFact(fact.id)}
+                    aria-label={`Forget: ${fact.statement}`}
+                    className="p-2 rounded-full text-[var(--color-stone)] hover:bg-white hover:text-[var(--color-agitated)] transition-all"
+                  >
+                    <X size={18} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+
+      {/* Data Maintenance (admin) */}
+      <div className="space-y-3">
+        <h3 className="font-display font-semibold text-lg text-[var(--color-charcoal)]">
+          Data Maintenance
+        </h3>
+        
+        <Card>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <RefreshCw size={24} className="text-[var(--color-sage)]" />
+              <div>
+                <p className="font-medium text-[var(--color-charcoal)]">Recompute scores</p>
+                <p className="text-sm text-[var(--color-stone)]">
+                  Rescore past recordings and conversations with the latest scoring
+                </p>
+              </div>
+            </div>
+            <Button size="sm" variant="secondary" onClick={() => setBackfillReport(recomputeScores())}>
+              Recompute
+            </Button>
+          </div>
+          
+          {backfillReport && (
+            <div className="mt-4 pt-4 border-t border-[var(--color-sand)] text-sm text-[var(--color-stone)] space-y-1">
+              {backfillReport.changes.length === 0 ? (
+                <p>Everything is already scored with version {backfillReport.version}.</p>
+              ) : (
+                <>
+                  <p>
+                    Rescored {backfillReport.speech.rescored} recording{backfillReport.speech.rescored === 1 ? '' : 's'} and{' '}
+                    {backfillReport.talk.rescored} conversation{backfillReport.talk.rescored === 1 ? '' : 's'} with version {backfillReport.version}.
+                  </p>
+                  {backfillReport.speech.meanAbsoluteDelta !== null && (
+                    <p>Recordings moved {backfillReport.speech.meanAbsoluteDelta} points on average (largest {backfillReport.speech.maxAbsoluteDelta}).</p>
+                  )}
+                  {backfillReport.talk.meanAbsoluteDelta !== null && (
+                    <p>Conversations moved {backfillReport.talk.meanAbsoluteDelta} points on average (largest {backfillReport.talk.maxAbsoluteDelta}).</p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </Card>
+      </div>
+
       {/* About */}
       <div className="space-y-3">
         <h3 className="font-display font-semibold text-lg text-[var(--color-charcoal)]">
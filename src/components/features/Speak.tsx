@@ -6,7 +6,7 @@ import { useStore } from '@/store/useStore';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { MessageCircle, Mic, MicOff } from '@/components/icons';
-import { analyzeSpeech } from '@/lib/speechAnalysis';
+import { scoreSpeechSample } from '@/lib/scoringEngine';
 import { processSpeechResult } from '@/lib/punctuationProcessor';
 import type { SpeechAnalysis, MemorySession } from '@/types';
 
@@ -109,7 +109,7 @@ export function Speak() {
 
     if (finalTranscript.length > 0 && duration > 0) {
       // Analyze the speech and save it (will show in Insights)
-      const analysisData = analyzeSpeech(finalTranscript, duration);
+      const analysisData = scoreSpeechSample(finalTranscript, duration);
       const newAnalysis: SpeechAnalysis = {
         id: crypto.randomUUID(),
         timestamp: new Date(),
@@ -8,10 +8,19 @@ import { Button } from '@/components/ui/Button';
 import { MessageCircle, Mic, MicOff, Send } from '@/components/icons';
 import { processSpeechResult } from '@/lib/punctuationProcessor';
 import { extractHealthInfo, createHealthCard } from '@/lib/healthExtraction';
-import { calculateCLIScore } from '@/lib/cliScoring';
-import { generateSageResponse } from '@/lib/openaiApi';
-import { speakText, waitForVoices } from '@/lib/textToSpeech';
-import type { TalkMessage, TalkSession, HealthCard } from '@/types';
+import { scoreConversation } from '@/lib/scoringEngine';
+import { startAudioAnalysis, mergeAudioFeatures, type AudioAnalysisSession } from '@/lib/audioAnalysis';
+import { createTranscriptTimeline, recordRecognitionResult, getFinalTokens, type TranscriptTimeline } from '@/lib/transcriptTimeline';
+import { detectDisfluencies } from '@/lib/disfluencyDetection';
+import { createTurnTiming, markVoiceDetected, markFinalResult, finalizeTurnTiming } from '@/lib/responseLatency';
+import { analyzeEmotion } from '@/lib/emotionAnalysis';
+import { streamSageResponse } from '@/lib/conversationProvider';
+import { selectRelevantFacts } from '@/lib/conversationMemory';
+import { collectGroundingFacts, selectGroundingFacts, findGroundingReferences, recordGroundingResponse } from '@/lib/biographyGrounding';
+import type { PromptContext } from '@/lib/promptComposer';
+import { createSentenceChunker, pushText, flushChunker } from '@/lib/sentenceChunker';
+import { speakText, waitForVoices, getSpeechRate, createSpeechQueue, isSpeechSynthesisSupported, type SpeechQueue } from '@/lib/textToSpeech';
+import type { TalkMessage, TalkSession, HealthCard, AudioFeatures, TurnTiming } from '@/types';
 
 const SAGE_INITIAL = "Hi! How are you doing today?";
 
@@ -20,8 +29,11 @@ export function Talk() {
     addTalkSession, 
     setActiveTab,
     addHealthCard,
-    confirmHealthCard
+    confirmHealthCard,
+    recordEmotion
   } = useStore();
+  const conversationSettings = useStore(state => state.user?.conversationSettings);
+  const speechRate = getSpeechRate(conversationSettings);
   
   const [isConversationStarted, setIsConversationStarted] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
@@ -29,12 +41,19 @@ export function Talk() {
   const [messages, setMessages] = useState<TalkMessage[]>([]);
   const [currentSession, setCurrentSession] = useState<TalkSession | null>(null);
   const [pendingHealthCard, setPendingHealthCard] = useState<{ id: string; category: string; description: string } | null>(null);
-  const [isGeneratingResponse, setIsGeneratingResponse] = useState(false);
+  const [isGeneratingResponse, setIsGeneratingResponse] = useState(false); // Waiting for the first words of a reply
+  const [isSageResponding, setIsSageResponding] = useState(false); // Reply streaming or being spoken
   
   const transcriptBuilderRef = useRef<string>('');
   const recognitionRef = useRef<any>(null);
   const sessionStartTimeRef = useRef<number | null>(null);
-  const lastSageMessageTimeRef = useRef<number | null>(null);
+  const lastSageMessageTimeRef = useRef<number | null>(null); // When Sage last finished speaking
+  const audioSessionRef = useRef<AudioAnalysisSession | null>(null);
+  const audioFeaturesRef = useRef<AudioFeatures | null>(null); // Accumulated across user turns
+  const timelineRef = useRef<TranscriptTimeline | null>(null); // Word timings for the current turn
+  const turnTimingRef = useRef<TurnTiming | null>(null); // Response timing for the current turn
+  const responseAbortRef = useRef<AbortController | null>(null); // Cancels the reply in progress
+  const speechQueueRef = useRef<SpeechQueue | null>(null); // Sentences of the reply in progress
 
   // Check if Web Speech API is supported
   const isSpeechRecognitionSupported = () => {
@@ -68,19 +87,23 @@ export function Talk() {
     
     setCurrentSession(newSession);
     setMessages([initialMessage]);
+    audioFeaturesRef.current = null;
     sessionStartTimeRef.current = Date.now();
-    lastSageMessageTimeRef.current = Date.now();
+    lastSageMessageTimeRef.current = null;
     
     // Speak initial message via TTS
     try {
       await waitForVoices();
-      await speakText(SAGE_INITIAL);
+      await speakText(SAGE_INITIAL, { rate: speechRate });
       // Mark as spoken
       initialMessage.spoken = true;
     } catch (error) {
       console.error('Error speaking initial message:', error);
+    } finally {
+      initialMessage.speechEndedAt = Date.now();
+      lastSageMessageTimeRef.current = initialMessage.speechEndedAt;
     }
-  }, []);
+  }, [speechRate]);
 
 
   const startRecording = useCallback(() => {
@@ -89,9 +112,18 @@ export function Talk() {
       return;
     }
 
+    // Barge-in: cut Sage off mid-reply; the user's turn starts now
+    if (responseAbortRef.current) {
+      responseAbortRef.current.abort();
+      speechQueueRef.current?.cancel();
+      lastSageMessageTimeRef.current = Date.now();
+    }
+
     setIsRecording(true);
     setCurrentTranscript('');
     transcriptBuilderRef.current = '';
+    timelineRef.current = createTranscriptTimeline();
+    turnTimingRef.current = createTurnTiming(lastSageMessageTimeRef.current);
 
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
     const recognition = new SpeechRecognition();
@@ -100,12 +132,23 @@ export function Talk() {
     recognition.interimResults = true;
     recognition.lang = 'en-US';
 
+    recognition.onspeechstart = () => {
+      if (turnTimingRef.current) markVoiceDetected(turnTimingRef.current);
+    };
+
     recognition.onresult = (event: any) => {
       let interimTranscript = '';
       let finalTranscript = '';
 
       for (let i = event.resultIndex; i < event.results.length; i++) {
         const transcript = event.results[i][0].transcript;
+        if (timelineRef.current) {
+          recordRecognitionResult(timelineRef.current, i, transcript, event.results[i].isFinal);
+        }
+        if (turnTimingRef.current) {
+          if (event.results[i].isFinal) markFinalResult(turnTimingRef.current);
+          else markVoiceDetected(turnTimingRef.current);
+        }
         if (event.results[i].isFinal) {
           finalTranscript += transcript + ' ';
         } else {
@@ -138,14 +181,33 @@ export function Talk() {
     try {
       recognition.start();
       recognitionRef.current = recognition;
+      
+      // Measure this turn's pauses from the microphone
+      startAudioAnalysis().then(session => {
+        if (recognitionRef.current === recognition) {
+          audioSessionRef.current = session;
+        } else {
+          session?.stop(); // Turn already ended
+        }
+      });
     } catch (error) {
       console.error('Failed to start recognition:', error);
       setIsRecording(false);
     }
   }, []);
 
+  // Returns the features of the turn that just ended
+  const stopAudioAnalysis = (): AudioFeatures | null => {
+    if (!audioSessionRef.current) return null;
+    const turnFeatures = audioSessionRef.current.stop();
+    audioFeaturesRef.current = mergeAudioFeatures(audioFeaturesRef.current, turnFeatures);
+    audioSessionRef.current = null;
+    return turnFeatures;
+  };
+
   const stopRecording = useCallback(async () => {
     setIsRecording(false);
+    const turnAudio = stopAudioAnalysis();
 
     if (recognitionRef.current) {
       try {
@@ -159,17 +221,42 @@ export function Talk() {
     const finalTranscript = transcriptBuilderRef.current.trim();
     
     if (finalTranscript.length > 0 && currentSession) {
-      // Add user message
+      // Add user message with word timings and disfluencies
+      const tokens = timelineRef.current ? getFinalTokens(timelineRef.current) : [];
       const userMessage: TalkMessage = {
         id: crypto.randomUUID(),
         role: 'user',
         content: finalTranscript,
-        timestamp: new Date()
+        timestamp: new Date(),
+        tokens,
+        disfluencies: detectDisfluencies(finalTranscript, tokens),
+        ...(turnTimingRef.current && { timing: finalizeTurnTiming(turnTimingRef.current) })
       };
       
-      const updatedMessages = [...messages, userMessage];
+      // This turn answers any life-story details Sage just brought up
+      const updatedMessages = [...recordGroundingResponse(messages, finalTranscript), userMessage];
       setMessages(updatedMessages);
       
+      // Clear transcript for next turn now, so a barge-in during the reply starts fresh
+      setCurrentTranscript('');
+      transcriptBuilderRef.current = '';
+      timelineRef.current = null;
+      turnTimingRef.current = null;
+      
+      // Feed the calming controller; it may switch calming mode for this reply
+      recordEmotion(analyzeEmotion(finalTranscript, turnAudio).distribution);
+      const { user, memoryFacts, biography } = useStore.getState();
+      const recentText = updatedMessages.slice(-4).map(m => m.content).join(' ');
+      const groundingFacts = collectGroundingFacts(biography, user?.familyMembers);
+      const lifeStory = selectGroundingFacts(groundingFacts, recentText);
+      const promptContext: PromptContext = {
+        settings: user?.conversationSettings,
+        preferredName: user?.preferredName,
+        familyMembers: user?.familyMembers,
+        memories: selectRelevantFacts(memoryFacts, recentText),
+        lifeStory
+      };
+      
       // Extract health information
       const healthInfo = extractHealthInfo(finalTranscript);
       
@@ -185,8 +272,15 @@ export function Talk() {
         // Health card will be confirmed/rejected by user
       }
       
-      // Generate Sage response using OpenAI API
+      // Stream Sage's response with the configured provider, speaking each
+      // sentence as soon as it is complete
+      const controller = new AbortController();
+      const speechQueue = createSpeechQueue({ rate: getSpeechRate(user?.conversationSettings) });
+      responseAbortRef.current = controller;
+      speechQueueRef.current = speechQueue;
+      lastSageMessageTimeRef.current = null;
       setIsGeneratingResponse(true);
+      setIsSageResponding(true);
       try {
         // Build conversation history for context
         const conversationHistory = updatedMessages.map(msg => ({
@@ -194,40 +288,61 @@ export function Talk() {
           content: msg.content
         }));
         
-        // Call OpenAI API
-        const sageResponse = await generateSageResponse(finalTranscript, conversationHistory);
-        
         const sageMessage: TalkMessage = {
           id: crypto.randomUUID(),
           role: 'sage',
-          content: sageResponse,
+          content: '',
           timestamp: new Date(),
           spoken: false
         };
+        setMessages([...updatedMessages, sageMessage]);
+        
+        await waitForVoices();
+        const chunker = createSentenceChunker();
+        const sageResponse = await streamSageResponse(finalTranscript, conversationHistory, promptContext, {
+          signal: controller.signal,
+          onDelta: (delta) => {
+            setIsGeneratingResponse(false);
+            const content = sageMessage.content + delta;
+            sageMessage.content = content;
+            setMessages(prev => prev.map(m => m.id === sageMessage.id ? { ...m, content } : m));
+            pushText(chunker, delta).forEach(speechQueue.enqueue);
+          }
+        });
+        const lastSentence = flushChunker(chunker);
+        if (lastSentence) speechQueue.enqueue(lastSentence);
+        await speechQueue.finish();
         
-        const finalMessages = [...updatedMessages, sageMessage];
+        const interrupted = controller.signal.aborted;
+        // Family members are always in the prompt, so any of them may come up
+        const groundingReferences = findGroundingReferences(sageResponse, [
+          ...lifeStory,
+          ...groundingFacts.filter(fact => fact.source === 'family')
+        ]);
+        const completedMessage: TalkMessage = {
+          ...sageMessage,
+          content: sageResponse,
+          ...(groundingReferences.length > 0 && { groundingReferences }),
+          spoken: !interrupted && isSpeechSynthesisSupported(),
+          // On barge-in, startRecording has already set when Sage stopped
+          speechEndedAt: interrupted ? lastSageMessageTimeRef.current ?? Date.now() : Date.now(),
+          ...(interrupted && { interrupted })
+        };
+        if (!interrupted) lastSageMessageTimeRef.current = completedMessage.speechEndedAt ?? null;
+        
+        // Cut off before saying anything: keep the user's turn only
+        const finalMessages = sageResponse.length > 0 ? [...updatedMessages, completedMessage] : updatedMessages;
         setMessages(finalMessages);
         
         // Update session
-        const updatedSession: TalkSession = {
+        setCurrentSession({
           ...currentSession,
           messages: finalMessages,
           transcript: finalMessages.map(m => `${m.role === 'sage' ? 'Sage' : 'User'}: ${m.content}`).join('\n')
-        };
-        setCurrentSession(updatedSession);
-        
-        // Speak Sage response via TTS
-        try {
-          await waitForVoices();
-          await speakText(sageResponse);
-          sageMessage.spoken = true;
-        } catch (error) {
-          console.error('Error speaking response:', error);
-        }
-        
-        lastSageMessageTimeRef.current = Date.now();
+        });
       } catch (error) {
         console.error('Error generating Sage response:', error);
+        speechQueue.cancel();
         // Fallback response if API fails
         const fallbackMessage: TalkMessage = {
           id: crypto.randomUUID(),
@@ -236,6 +351,7 @@ export function Talk() {
           timestamp: new Date(),
           spoken: false
         };
+        lastSageMessageTimeRef.current = Date.now(); // Shown, not spoken
         const finalMessages = [...updatedMessages, fallbackMessage];
         setMessages(finalMessages);
         setCurrentSession({
@@ -245,16 +361,21 @@ export function Talk() {
         });
       } finally {
         setIsGeneratingResponse(false);
+        // A barge-in may already have started the next reply
+        if (responseAbortRef.current === controller) {
+          responseAbortRef.current = null;
+          speechQueueRef.current = null;
+          setIsSageResponding(false);
+        }
       }
-      
-      // Clear transcript for next turn
-      setCurrentTranscript('');
-      transcriptBuilderRef.current = '';
     }
-  }, [currentSession, messages, pendingHealthCard]);
+  }, [currentSession, messages, pendingHealthCard, recordEmotion]);
 
   const handleEndConversation = useCallback(() => {
     setIsRecording(false);
+    stopAudioAnalysis();
+    responseAbortRef.current?.abort();
+    speechQueueRef.current?.cancel();
     
     if (recognitionRef.current) {
       try {
@@ -268,20 +389,15 @@ export function Talk() {
     if (currentSession && sessionStartTimeRef.current) {
       // Calculate final CLI score
       const duration = (Date.now() - sessionStartTimeRef.current) / 1000;
-      const cliResult = calculateCLIScore(
-        currentSession.messages,
-        duration,
-        0, // pauses - would need to track this
-        0  // filler words - would need to track this
-      );
+      const audioFeatures = audioFeaturesRef.current;
       
       // Complete session
       const completedSession: TalkSession = {
         ...currentSession,
         status: 'completed',
         duration,
-        cliScore: cliResult.overall,
-        cliBreakdown: cliResult.breakdown
+        ...(audioFeatures && { audioFeatures }),
+        ...scoreConversation(currentSession.messages, duration, audioFeatures)
       };
       
       addTalkSession(completedSession);
@@ -292,6 +408,9 @@ export function Talk() {
       setIsConversationStarted(false);
       setCurrentTranscript('');
       transcriptBuilderRef.current = '';
+      timelineRef.current = null;
+      turnTimingRef.current = null;
+      audioFeaturesRef.current = null;
       setPendingHealthCard(null);
       
       // Redirect to home
@@ -322,6 +441,7 @@ export function Talk() {
 
   useEffect(() => {
     return () => {
+      audioSessionRef.current?.stop();
       if (recognitionRef.current) {
         try {
           recognitionRef.current.stop();
@@ -403,7 +523,7 @@ export function Talk() {
                       {message.role === 'sage' ? 'Sage' : 'You'}
                     </p>
                     <p className="text-[var(--color-stone)] leading-relaxed whitespace-pre-wrap">
-                      {message.content}
+                      {message.content || '…'}
                     </p>
                   </div>
                 </div>
@@ -480,6 +600,12 @@ export function Talk() {
                 <span className="text-sm">Sage is thinking...</span>
               </div>
             )}
+            {isSageResponding && !isGeneratingResponse && !isRecording && (
+              <div className="flex items-center gap-2 text-[var(--color-terracotta)]">
+                <div className="w-2 h-2 rounded-full bg-[var(--color-terracotta)] animate-pulse" />
+                <span className="text-sm">Sage is speaking. Press Speak to interrupt.</span>
+              </div>
+            )}
           </div>
 
           {currentTranscript ? (
@@ -500,7 +626,6 @@ export function Talk() {
                 onClick={startRecording}
                 className="flex-1"
                 size="lg"
-                disabled={isGeneratingResponse}
               >
                 <Mic size={20} className="mr-2" />
                 Speak
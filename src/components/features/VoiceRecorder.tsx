@@ -6,9 +6,11 @@ import { useStore } from '@/store/useStore';
 import { Card } from '@/components/ui/Card';
 import { Button, FloatingButton } from '@/components/ui/Button';
 import { Mic, MicOff, VoiceWave, EmotionIcon, Play, Pause, RefreshCw, Info, Share2, X } from '@/components/icons';
-import { analyzeSpeech, calculateLanguageComplexityScore } from '@/lib/speechAnalysis';
+import { calculateLanguageComplexityScore } from '@/lib/speechAnalysis';
+import { scoreSpeechSample } from '@/lib/scoringEngine';
 import { detectHealthIntent } from '@/lib/healthIntentDetection';
 import { processSpeechResult } from '@/lib/punctuationProcessor';
+import { startAudioAnalysis, type AudioAnalysisSession } from '@/lib/audioAnalysis';
 import type { SpeechAnalysis, EmotionalState } from '@/types';
 
 // Removed hardcoded transcript - using real voice recognition only
@@ -21,6 +23,7 @@ export function VoiceRecorder() {
     setCurrentTranscript,
     currentEmotionalState,
     setCurrentEmotionalState,
+    recordEmotion,
     addSpeechAnalysis,
     addInsight,
     setIsHealthMode,
@@ -40,6 +43,7 @@ export function VoiceRecorder() {
   const transcriptIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const transcriptBuilderRef = useRef<string>('');
   const recognitionRef = useRef<any>(null);
+  const audioSessionRef = useRef<AudioAnalysisSession | null>(null);
   
   // Check if Web Speech API is supported
   const isSpeechRecognitionSupported = () => {
@@ -171,6 +175,8 @@ export function VoiceRecorder() {
       setErrorMessage(errorMsg);
       setIsRecording(false);
       if (timerRef.current) clearInterval(timerRef.current);
+      audioSessionRef.current?.stop();
+      audioSessionRef.current = null;
       
       // Auto-stop after error
       setTimeout(() => {
@@ -195,6 +201,10 @@ export function VoiceRecorder() {
     try {
       recognition.start();
       recognitionRef.current = recognition;
+      
+      // Measure pauses and phonation from the microphone alongside recognition
+      audioSessionRef.current?.stop();
+      audioSessionRef.current = await startAudioAnalysis();
     } catch (error) {
       console.error('Failed to start recognition:', error);
       setErrorMessage('Failed to start speech recognition. Please try again.');
@@ -221,6 +231,10 @@ export function VoiceRecorder() {
       clearInterval(timerRef.current);
     }
     
+    // Stop audio analysis
+    const audioFeatures = audioSessionRef.current?.stop() ?? null;
+    audioSessionRef.current = null;
+    
     // Stop fallback simulation
     if (transcriptIntervalRef.current) {
       clearInterval(transcriptIntervalRef.current);
@@ -241,7 +255,7 @@ export function VoiceRecorder() {
     
     // Use final transcript for analysis
     const transcriptToAnalyze = finalTranscript;
-    const analysisData = analyzeSpeech(transcriptToAnalyze, duration);
+    const analysisData = scoreSpeechSample(transcriptToAnalyze, duration, audioFeatures);
     const analysis: SpeechAnalysis = {
       id: crypto.randomUUID(),
       timestamp: new Date(),
@@ -250,6 +264,7 @@ export function VoiceRecorder() {
     
     setLastAnalysis(analysis);
     setCurrentEmotionalState(analysis.emotionalState);
+    if (analysis.emotion) recordEmotion(analysis.emotion.distribution);
     addSpeechAnalysis(analysis);
     
     // Detect health intent and suggest Health Scribe
@@ -269,29 +284,17 @@ export function VoiceRecorder() {
       // setActiveTab('health');
     }
     
-    // Generate insight if notable patterns detected
-    if (analysis.metrics.repetitionCount > 2) {
-      addInsight({
-        id: crypto.randomUUID(),
-        timestamp: new Date(),
-        type: 'language',
-        severity: 'notable',
-        title: 'Increased Repetition Detected',
-        description: `${analysis.metrics.repetitionCount} repeated phrases were detected in this conversation.`,
-        recommendation: 'This is common and may indicate topic emphasis or mild memory loop.'
-      });
-    }
-    
     setIsProcessing(false);
     setShowResults(true);
     setErrorMessage(null);
-  }, [currentTranscript, duration, setIsRecording, setCurrentEmotionalState, addSpeechAnalysis, addInsight, setIsHealthMode, setActiveTab]);
+  }, [currentTranscript, duration, setIsRecording, setCurrentEmotionalState, recordEmotion, addSpeechAnalysis, addInsight, setIsHealthMode, setActiveTab]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
       if (transcriptIntervalRef.current) clearInterval(transcriptIntervalRef.current);
+      audioSessionRef.current?.stop();
       if (recognitionRef.current) {
         try {
           recognitionRef.current.stop();
@@ -455,6 +458,11 @@ export function VoiceRecorder() {
                 <span className="flex items-center gap-2 text-sm text-[var(--color-stone)]">
                   <EmotionIcon emotion={lastAnalysis.emotionalState} size={20} />
                   <span className="capitalize">{lastAnalysis.emotionalState}</span>
+                  {lastAnalysis.emotion && (
+                    <span className="text-xs">
+                      {Math.round(lastAnalysis.emotion.distribution[lastAnalysis.emotionalState] * 100)}%
+                    </span>
+                  )}
                 </span>
               </div>
               
@@ -614,7 +622,8 @@ export function VoiceRecorder() {
                 <div>
                   <h4 className="font-semibold mb-2">Speech Rate (WPM)</h4>
                   <p className="text-sm text-[var(--color-stone)]">
-                    Calculated by dividing total words spoken by the duration of the recording in minutes.
+                    Calculated by dividing total words spoken by the time from your first to your last word. 
+                    When microphone analysis is available, silences are measured directly from the audio.
                   </p>
                 </div>
 
@@ -210,20 +210,20 @@ export function TimeOfDayIcon({ time, size = 24 }: { time: string; size?: number
   }
 }
 
-// Trend indicator
+// Trend indicator: value is a trend slope in score points per week
 export function TrendIndicator({ value, size = 16 }: { value: number; size?: number }) {
   if (value > 0) {
     return (
       <span className="inline-flex items-center text-green-600">
         <TrendingUp size={size} />
-        <span className="ml-1 text-sm">+{value}%</span>
+        <span className="ml-1 text-sm">+{value} pts/wk</span>
       </span>
     );
   } else if (value < 0) {
     return (
       <span className="inline-flex items-center text-red-500">
         <TrendingDown size={size} />
-        <span className="ml-1 text-sm">{value}%</span>
+        <span className="ml-1 text-sm">{value} pts/wk</span>
       </span>
     );
   }
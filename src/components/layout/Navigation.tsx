@@ -13,14 +13,18 @@ const navItems = [
 ];
 
 export function Navigation() {
-  const { activeTab, setActiveTab, unreadInsights } = useStore();
+  const { activeTab, setActiveTab, unreadInsights, user } = useStore();
+  const calmingModeActive = user?.conversationSettings.calmingModeActive ?? false;
+  
+  // Games are hidden while calming mode is active
+  const visibleItems = calmingModeActive ? navItems.filter(item => item.id !== 'games') : navItems;
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 z-50">
       <div className="mx-auto max-w-4xl px-4 pb-4">
         <div className="glass rounded-3xl soft-shadow p-2">
           <div className="flex justify-around">
-            {navItems.map((item) => {
+            {visibleItems.map((item) => {
               const isActive = activeTab === item.id;
               const Icon = item.icon;
               
@@ -0,0 +1,88 @@
+/**
+ * API Client
+ * Calls Sage's own route handlers (src/app/api) from the browser. Requests
+ * carry the signed-in user's id so the server can rate limit per user.
+ */
+
+// Errors thrown for non-2xx responses carry the HTTP status
+export interface ApiError extends Error {
+  status: number;
+}
+
+let apiUserId: string | null = null;
+
+/**
+ * Set the user id sent with API requests (null when signed out)
+ */
+export function setApiUserId(userId: string | null): void {
+  apiUserId = userId;
+}
+
+/**
+ * Whether an error means the route's upstream isn't configured on the server
+ */
+export function isApiUnavailable(error: unknown): boolean {
+  return (error as ApiError | null)?.status === 503;
+}
+
+function requestHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiUserId) headers['x-sage-user-id'] = apiUserId;
+  return headers;
+}
+
+function apiError(message: string, status: number): ApiError {
+  const error = new Error(message) as ApiError;
+  error.status = status;
+  return error;
+}
+
+/**
+ * POST a JSON body to an API route and return the parsed response
+ */
+export async function postToApi<T>(path: string, body: object, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: requestHeaders(),
+    body: JSON.stringify(body),
+    signal
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw apiError(data?.error || `Request to ${path} failed`, response.status);
+  }
+  return data as T;
+}
+
+/**
+ * POST a JSON body to an API route that streams plain text, calling onChunk
+ * with each piece as it arrives. Resolves once the stream ends.
+ */
+export async function streamFromApi(
+  path: string,
+  body: object,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: requestHeaders(),
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw apiError(data?.error || `Request to ${path} failed`, response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const text = decoder.decode(value, { stream: true });
+    if (text) onChunk(text);
+  }
+  const rest = decoder.decode();
+  if (rest) onChunk(rest);
+}
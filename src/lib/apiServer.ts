@@ -0,0 +1,207 @@
+/**
+ * API Server Helpers
+ * Shared by the route handlers under src/app/api: the upstream language
+ * model clients, per-user rate limiting and request validation. Server-only;
+ * API keys here never reach the browser.
+ */
+
+import OpenAI from 'openai';
+import { GoogleGenerativeAI, type GenerativeModel } from '@google/generative-ai';
+import { NextResponse } from 'next/server';
+
+export type UpstreamTarget = 'openai' | 'local';
+
+// Upstreams /api/chat can talk to; Gemini has its own client
+export type ChatTarget = UpstreamTarget | 'gemini';
+
+// OPENAI_BASE_URL points the OpenAI client at another server, e.g. a local mock for tests
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY?.trim() || process.env.NEXT_PUBLIC_OPENAI_API_KEY?.trim() || '';
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL?.trim() || undefined;
+
+// OpenAI-compatible local server (Ollama's default address)
+const LOCAL_LLM_URL = process.env.LOCAL_LLM_URL?.trim() || 'http://localhost:11434/v1';
+const LOCAL_LLM_API_KEY = process.env.LOCAL_LLM_API_KEY?.trim() || 'local'; // Most local servers ignore it
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY?.trim() || process.env.NEXT_PUBLIC_GEMINI_API_KEY?.trim() || '';
+
+if (!process.env.OPENAI_API_KEY && process.env.NEXT_PUBLIC_OPENAI_API_KEY) {
+  console.warn('⚠️ NEXT_PUBLIC_OPENAI_API_KEY is deprecated and exposes the key to the browser. Rename it to OPENAI_API_KEY.');
+}
+if (!process.env.GEMINI_API_KEY && process.env.NEXT_PUBLIC_GEMINI_API_KEY) {
+  console.warn('⚠️ NEXT_PUBLIC_GEMINI_API_KEY is deprecated and exposes the key to the browser. Rename it to GEMINI_API_KEY.');
+}
+
+// Google Gemini API keys start with "AIza" (or "AQ.") and are 39+ characters long
+const isGeminiKeyValid = GEMINI_API_KEY.length > 20 && (GEMINI_API_KEY.startsWith('AIza') || GEMINI_API_KEY.startsWith('AQ.'));
+
+if (GEMINI_API_KEY && !isGeminiKeyValid) {
+  console.warn('⚠️ GEMINI_API_KEY format may be incorrect. Google Gemini API keys typically start with "AIza" and are 39+ characters long.');
+}
+
+// Models used when a request doesn't name one
+export const DEFAULT_MODELS: Record<ChatTarget, string> = {
+  openai: 'gpt-4o-mini',
+  local: 'llama3.2',
+  gemini: 'gemini-1.5-flash' // gemini-1.5-pro for better quality
+};
+
+const clients = new Map<UpstreamTarget, OpenAI>();
+
+/**
+ * Whether the upstream can be called. A custom OPENAI_BASE_URL (a mock or
+ * proxy) doesn't need a real OpenAI key.
+ */
+export function isUpstreamConfigured(target: UpstreamTarget): boolean {
+  if (target === 'local') return true;
+  return OPENAI_BASE_URL !== undefined || (OPENAI_API_KEY.startsWith('sk-') && OPENAI_API_KEY.length > 40);
+}
+
+/**
+ * Client for an upstream chat completions API
+ */
+export function getUpstreamClient(target: UpstreamTarget): OpenAI {
+  let client = clients.get(target);
+  if (!client) {
+    client = target === 'local'
+      ? new OpenAI({ apiKey: LOCAL_LLM_API_KEY, baseURL: LOCAL_LLM_URL })
+      : new OpenAI({ apiKey: OPENAI_API_KEY || 'unset', baseURL: OPENAI_BASE_URL });
+    clients.set(target, client);
+  }
+  return client;
+}
+
+let geminiClient: GoogleGenerativeAI | null = null;
+
+/**
+ * Whether GEMINI_API_KEY is set to a key Gemini could accept
+ */
+export function isGeminiConfigured(): boolean {
+  return isGeminiKeyValid;
+}
+
+/**
+ * Gemini model client
+ */
+export function getGeminiModel(model: string): GenerativeModel {
+  geminiClient ??= new GoogleGenerativeAI(GEMINI_API_KEY);
+  return geminiClient.getGenerativeModel({ model });
+}
+
+// Requests per user per minute, by route. Each IP also gets a higher ceiling
+// since user ids come from the client and aren't authenticated.
+const RATE_LIMITS = {
+  chat: Number(process.env.RATE_LIMIT_CHAT_PER_MINUTE) || 20,
+  games: Number(process.env.RATE_LIMIT_GAMES_PER_MINUTE) || 10,
+  biography: Number(process.env.RATE_LIMIT_BIOGRAPHY_PER_MINUTE) || 10,
+  validate: Number(process.env.RATE_LIMIT_VALIDATE_PER_MINUTE) || 60
+};
+
+export type RateLimitBucket = keyof typeof RATE_LIMITS;
+
+const RATE_WINDOW_MS = 60 * 1000;
+const IP_LIMIT_MULTIPLIER = 5;
+
+// Request times per key. In memory, so each server instance counts separately.
+const requestLog = new Map<string, number[]>();
+
+/**
+ * Record a request against a key; false when the key is over its limit
+ */
+function takeRequest(key: string, limit: number, now: number): boolean {
+  const recent = (requestLog.get(key) ?? []).filter(t => now - t < RATE_WINDOW_MS);
+  if (recent.length >= limit) {
+    requestLog.set(key, recent);
+    return false;
+  }
+  recent.push(now);
+  requestLog.set(key, recent);
+  return true;
+}
+
+let lastPruned = 0;
+
+/**
+ * Forget keys with no requests inside the window, at most once per window,
+ * so users and IPs that stopped calling don't stay in memory
+ */
+function pruneRequestLog(now: number): void {
+  if (now - lastPruned < RATE_WINDOW_MS) return;
+  lastPruned = now;
+  requestLog.forEach((times, key) => {
+    if (times.every(t => now - t >= RATE_WINDOW_MS)) requestLog.delete(key);
+  });
+}
+
+/**
+ * Apply the route's rate limit to the calling user (x-sage-user-id header)
+ * and their IP. Returns a 429 response when over the limit, null otherwise.
+ */
+export function checkRateLimit(request: Request, bucket: RateLimitBucket): NextResponse | null {
+  const now = Date.now();
+  pruneRequestLog(now);
+  const limit = RATE_LIMITS[bucket];
+  const ip = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+  const userId = request.headers.get('x-sage-user-id')?.trim().slice(0, 64);
+
+  const allowed = takeRequest(`${bucket}:ip:${ip}`, limit * IP_LIMIT_MULTIPLIER, now)
+    && (!userId || takeRequest(`${bucket}:user:${userId}`, limit, now));
+  if (allowed) return null;
+
+  return NextResponse.json(
+    { error: 'Too many requests. Please wait a moment and try again.' },
+    { status: 429, headers: { 'Retry-After': String(RATE_WINDOW_MS / 1000) } }
+  );
+}
+
+/**
+ * JSON error response
+ */
+export function jsonError(message: string, status: number): NextResponse {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * Parse a request's JSON body; null when it isn't a JSON object
+ */
+export async function readJsonObject(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Non-empty string no longer than maxLength
+ */
+export function isBoundedString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+/**
+ * Model names look like "gpt-4o-mini", "llama3.2:8b" or "org/model"
+ */
+export function isModelName(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w.:/-]{1,64}$/.test(value);
+}
+
+/**
+ * Map an upstream failure to a response, logging a hint for common causes
+ */
+export function upstreamError(error: unknown, target: ChatTarget): NextResponse {
+  const status = (error as { status?: number } | null)?.status;
+  const message = (error as { message?: string } | null)?.message ?? '';
+  if (target === 'gemini' && (status === 401 || message.includes('API keys are not supported') || message.includes('CREDENTIALS_MISSING'))) {
+    console.error('❌ Gemini API authentication failed. Please check GEMINI_API_KEY at https://makersuite.google.com/app/apikey');
+  } else if (status === 401) {
+    console.error('❌ OpenAI API authentication failed. Please check OPENAI_API_KEY.');
+  } else if (status === 429) {
+    console.error('❌ Upstream rate limit exceeded.');
+  } else if (target === 'local') {
+    console.error(`❌ Could not reach the local model server at ${LOCAL_LLM_URL}. Is it running?`, error);
+  } else {
+    console.error('Error calling upstream model:', error);
+  }
+  return jsonError('The language model request failed', 502);
+}
@@ -0,0 +1,334 @@
+/**
+ * Audio Analysis
+ * Measures pauses and phonation from the microphone stream with a simple
+ * energy-based voice activity detector (VAD), and voice pitch and loudness
+ * for prosody
+ */
+
+import type { AudioFeatures, ProsodyFeatures } from '@/types';
+
+export interface EnergyFrame {
+  timestamp: number; // milliseconds
+  energy: number; // RMS amplitude, 0-1
+  pitch?: number | null; // Hz on frames where pitch was estimated; null if unvoiced
+}
+
+export interface VoiceSegment {
+  start: number; // milliseconds
+  end: number; // milliseconds
+  voiced: boolean;
+}
+
+export interface VADOptions {
+  minPauseMs?: number; // Silent gaps shorter than this are part of articulation
+  minSpeechMs?: number; // Voiced bursts shorter than this are treated as noise
+  minEnergy?: number; // Absolute floor for the speech threshold
+}
+
+export interface AudioAnalysisSession {
+  stop: () => AudioFeatures | null;
+}
+
+const FRAME_INTERVAL_MS = 20;
+const ENERGY_WINDOW = 1024; // Samples per energy frame
+const PITCH_EVERY_N_FRAMES = 5; // Pitch is estimated every 100ms to keep CPU use low
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+const MIN_PITCH_FRAMES = 10; // Fewer pitched frames than this give no pitch estimate
+const DEFAULT_VAD_OPTIONS: Required<VADOptions> = {
+  minPauseMs: 250,
+  minSpeechMs: 60,
+  minEnergy: 0.003
+};
+
+/**
+ * Pick the speech threshold from the recording itself: somewhere above the
+ * noise floor (10th percentile) and well below typical speech (90th percentile)
+ */
+function calculateEnergyThreshold(frames: EnergyFrame[], minEnergy: number): number {
+  const sorted = frames.map(f => f.energy).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+  const speechLevel = sorted[Math.floor(sorted.length * 0.9)] ?? 0;
+
+  const threshold = Math.max(noiseFloor * 2, noiseFloor + (speechLevel - noiseFloor) * 0.2);
+  return Math.max(minEnergy, threshold);
+}
+
+/**
+ * Merge adjacent segments that share the same voicing
+ */
+function mergeSegments(segments: VoiceSegment[]): VoiceSegment[] {
+  const merged: VoiceSegment[] = [];
+  segments.forEach(segment => {
+    const last = merged[merged.length - 1];
+    if (last && last.voiced === segment.voiced) {
+      last.end = segment.end;
+    } else {
+      merged.push({ ...segment });
+    }
+  });
+  return merged;
+}
+
+/**
+ * Split a sequence of energy frames into voiced and silent segments
+ */
+export function detectVoiceActivity(frames: EnergyFrame[], options: VADOptions = {}): VoiceSegment[] {
+  if (frames.length < 2) return [];
+  const { minPauseMs, minSpeechMs, minEnergy } = { ...DEFAULT_VAD_OPTIONS, ...options };
+  const threshold = calculateEnergyThreshold(frames, minEnergy);
+
+  // Raw per-frame classification
+  let segments: VoiceSegment[] = [];
+  for (let i = 1; i < frames.length; i++) {
+    segments.push({
+      start: frames[i - 1].timestamp,
+      end: frames[i].timestamp,
+      voiced: frames[i].energy >= threshold
+    });
+  }
+  segments = mergeSegments(segments);
+
+  // Drop clicks and breaths that are too short to be speech
+  segments = mergeSegments(segments.map(s =>
+    s.voiced && s.end - s.start < minSpeechMs ? { ...s, voiced: false } : s
+  ));
+
+  // Short gaps between words are articulation, not pauses
+  segments = mergeSegments(segments.map((s, i) => {
+    const isInternal = i > 0 && i < segments.length - 1;
+    return !s.voiced && isInternal && s.end - s.start < minPauseMs ? { ...s, voiced: true } : s;
+  }));
+
+  return segments;
+}
+
+/**
+ * Summarize voice segments into pause and phonation measurements
+ */
+export function summarizeVoiceActivity(segments: VoiceSegment[]): AudioFeatures {
+  const voiced = segments.filter(s => s.voiced);
+  const totalTime = segments.length > 0
+    ? (segments[segments.length - 1].end - segments[0].start) / 1000
+    : 0;
+
+  if (voiced.length === 0) {
+    return {
+      totalTime,
+      speakingTime: 0,
+      phonationTime: 0,
+      pauseCount: 0,
+      pauseTime: 0,
+      meanPauseDuration: 0,
+      pauseHistogram: { short: 0, medium: 0, long: 0, extended: 0 }
+    };
+  }
+
+  const firstVoiced = voiced[0].start;
+  const lastVoiced = voiced[voiced.length - 1].end;
+
+  // Leading and trailing silence is not a pause
+  const pauses = segments
+    .filter(s => !s.voiced && s.start >= firstVoiced && s.end <= lastVoiced)
+    .map(s => (s.end - s.start) / 1000);
+
+  const pauseHistogram = { short: 0, medium: 0, long: 0, extended: 0 };
+  pauses.forEach(duration => {
+    if (duration < 0.5) pauseHistogram.short++;
+    else if (duration < 1) pauseHistogram.medium++;
+    else if (duration < 2) pauseHistogram.long++;
+    else pauseHistogram.extended++;
+  });
+
+  const pauseTime = pauses.reduce((sum, d) => sum + d, 0);
+
+  return {
+    totalTime,
+    speakingTime: (lastVoiced - firstVoiced) / 1000,
+    phonationTime: voiced.reduce((sum, s) => sum + (s.end - s.start), 0) / 1000,
+    pauseCount: pauses.length,
+    pauseTime,
+    meanPauseDuration: pauses.length > 0 ? pauseTime / pauses.length : 0,
+    pauseHistogram
+  };
+}
+
+/**
+ * Fundamental frequency of a frame by autocorrelation, or null when the frame
+ * isn't clearly periodic (unvoiced or noise)
+ */
+export function estimatePitch(samples: Float32Array, sampleRate: number): number | null {
+  // Every other sample is enough below 400Hz and halves the work
+  const step = 2;
+  const rate = sampleRate / step;
+  const length = Math.floor(samples.length / step);
+  const minLag = Math.floor(rate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.floor(rate / MIN_PITCH_HZ), Math.floor(length / 2));
+  if (maxLag <= minLag) return null;
+
+  let energy = 0;
+  for (let i = 0; i < length; i++) energy += samples[i * step] * samples[i * step];
+  if (energy === 0) return null;
+
+  let bestLag = -1;
+  let bestCorrelation = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < length - lag; i++) sum += samples[i * step] * samples[(i + lag) * step];
+    const correlation = sum / energy;
+    if (correlation > bestCorrelation) {
+      bestCorrelation = correlation;
+      bestLag = lag;
+    }
+  }
+
+  return bestLag > 0 && bestCorrelation > 0.5 ? rate / bestLag : null;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length);
+}
+
+/**
+ * Pitch and loudness of the frames inside voiced segments
+ */
+export function summarizeProsody(frames: EnergyFrame[], segments: VoiceSegment[]): ProsodyFeatures | null {
+  const voiced = segments.filter(s => s.voiced);
+  const voicedFrames = frames.filter(f => voiced.some(s => f.timestamp > s.start && f.timestamp <= s.end));
+  if (voicedFrames.length < 2) return null;
+
+  const energies = voicedFrames.map(f => f.energy);
+  const meanEnergy = energies.reduce((a, b) => a + b, 0) / energies.length;
+  const pitches = voicedFrames
+    .map(f => f.pitch)
+    .filter((p): p is number => typeof p === 'number');
+  const hasPitch = pitches.length >= MIN_PITCH_FRAMES;
+
+  return {
+    meanPitch: hasPitch ? pitches.reduce((a, b) => a + b, 0) / pitches.length : null,
+    // Semitones make variability comparable between lower and higher voices
+    pitchVariability: hasPitch ? standardDeviation(pitches.map(p => 12 * Math.log2(p / 100))) : null,
+    meanEnergy,
+    energyVariability: meanEnergy > 0 ? standardDeviation(energies) / meanEnergy : 0,
+    voicedFrames: voicedFrames.length
+  };
+}
+
+function weightedMean(a: number | null, aWeight: number, b: number | null, bWeight: number): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return (a * aWeight + b * bWeight) / (aWeight + bWeight);
+}
+
+/**
+ * Combine prosody from two recordings, weighted by voiced frames
+ */
+function mergeProsody(a: ProsodyFeatures | undefined, b: ProsodyFeatures | undefined): ProsodyFeatures | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  const wa = a.voicedFrames;
+  const wb = b.voicedFrames;
+  return {
+    meanPitch: weightedMean(a.meanPitch, wa, b.meanPitch, wb),
+    pitchVariability: weightedMean(a.pitchVariability, wa, b.pitchVariability, wb),
+    meanEnergy: (a.meanEnergy * wa + b.meanEnergy * wb) / (wa + wb),
+    energyVariability: (a.energyVariability * wa + b.energyVariability * wb) / (wa + wb),
+    voicedFrames: wa + wb
+  };
+}
+
+/**
+ * Combine features from several recordings (e.g. each user turn in Talk)
+ */
+export function mergeAudioFeatures(a: AudioFeatures | null, b: AudioFeatures | null): AudioFeatures | null {
+  if (!a) return b;
+  if (!b) return a;
+
+  const pauseCount = a.pauseCount + b.pauseCount;
+  const pauseTime = a.pauseTime + b.pauseTime;
+  const prosody = mergeProsody(a.prosody, b.prosody);
+
+  return {
+    totalTime: a.totalTime + b.totalTime,
+    speakingTime: a.speakingTime + b.speakingTime,
+    phonationTime: a.phonationTime + b.phonationTime,
+    pauseCount,
+    pauseTime,
+    meanPauseDuration: pauseCount > 0 ? pauseTime / pauseCount : 0,
+    pauseHistogram: {
+      short: a.pauseHistogram.short + b.pauseHistogram.short,
+      medium: a.pauseHistogram.medium + b.pauseHistogram.medium,
+      long: a.pauseHistogram.long + b.pauseHistogram.long,
+      extended: a.pauseHistogram.extended + b.pauseHistogram.extended
+    },
+    ...(prosody && { prosody })
+  };
+}
+
+/**
+ * Check if microphone audio analysis is supported
+ */
+export function isAudioAnalysisSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia &&
+    ('AudioContext' in window || 'webkitAudioContext' in window);
+}
+
+/**
+ * Open the microphone and start sampling frame energy.
+ * Returns null if audio is unavailable; speech analysis then falls back to
+ * transcript-only estimates.
+ */
+export async function startAudioAnalysis(): Promise<AudioAnalysisSession | null> {
+  if (!isAudioAnalysisSupported()) return null;
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch (error) {
+    console.warn('Microphone unavailable for audio analysis:', error);
+    return null;
+  }
+
+  const AudioContextClass = window.AudioContext ||
+    (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const context = new AudioContextClass();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = ENERGY_WINDOW * 2; // Long enough for two periods of a low voice
+  source.connect(analyser);
+
+  const buffer = new Float32Array(analyser.fftSize);
+  const frames: EnergyFrame[] = [];
+
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(buffer);
+    // Energy over the most recent window; the full buffer is for pitch
+    let sumSquares = 0;
+    for (let i = buffer.length - ENERGY_WINDOW; i < buffer.length; i++) {
+      sumSquares += buffer[i] * buffer[i];
+    }
+    const energy = Math.sqrt(sumSquares / ENERGY_WINDOW);
+    const estimatePitchNow = frames.length % PITCH_EVERY_N_FRAMES === 0 && energy >= DEFAULT_VAD_OPTIONS.minEnergy;
+    frames.push({
+      timestamp: performance.now(),
+      energy,
+      ...(estimatePitchNow && { pitch: estimatePitch(buffer, context.sampleRate) })
+    });
+  }, FRAME_INTERVAL_MS);
+
+  return {
+    stop: () => {
+      clearInterval(interval);
+      source.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      context.close().catch(() => {});
+
+      if (frames.length < 2) return null;
+      const segments = detectVoiceActivity(frames);
+      const prosody = summarizeProsody(frames, segments);
+      return { ...summarizeVoiceActivity(segments), ...(prosody && { prosody }) };
+    }
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Personal Baseline Deviation
+ * Compares each Talk session's CLI scores against the person's own rolling
+ * baseline using control limits, instead of fixed absolute thresholds
+ */
+
+import type { Insight, TalkSession } from '@/types';
+import { calculateBaseline, type CLIMetrics } from './cliScoring';
+
+export type BaselineDimension = 'overall' | keyof CLIMetrics;
+
+export interface DimensionBaseline {
+  center: number; // Median of the window
+  sigma: number; // Robust standard deviation (scaled MAD)
+  mean: number;
+  variance: number;
+  count: number;
+}
+
+export interface PersonalBaseline {
+  sessionCount: number;
+  dimensions: Partial<Record<BaselineDimension, DimensionBaseline>>;
+}
+
+export interface BaselineDeviation {
+  dimension: BaselineDimension;
+  value: number;
+  baseline: DimensionBaseline;
+  zScore: number;
+  severity: Insight['severity'];
+  rule: 'outside_2_sigma' | 'outside_3_sigma' | 'sustained_shift';
+}
+
+const BASELINE_WINDOW = 20; // Most recent sessions used for the rolling baseline
+const MIN_SIGMA = 3; // Score points; stops near-identical histories from flagging tiny changes
+const RUN_LENGTH = 5; // Sustained shift: 4 of the last 5 sessions below center - 1 sigma
+const RUN_THRESHOLD = 4;
+
+const DIMENSION_LABELS: Record<BaselineDimension, string> = {
+  overall: 'Overall conversation score',
+  lexicalAccess: 'Word finding',
+  fluency: 'Fluency',
+  syntacticComplexity: 'Sentence structure',
+  coherence: 'Staying on topic',
+  processingSpeed: 'Response speed',
+  attention: 'Attention'
+};
+
+const DIMENSION_INSIGHT_TYPES: Record<BaselineDimension, Insight['type']> = {
+  overall: 'pattern',
+  lexicalAccess: 'language',
+  fluency: 'language',
+  syntacticComplexity: 'language',
+  coherence: 'language',
+  processingSpeed: 'attention',
+  attention: 'attention'
+};
+
+const DIMENSIONS = Object.keys(DIMENSION_LABELS) as BaselineDimension[];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function getDimensionValue(session: TalkSession, dimension: BaselineDimension): number | null {
+  if (dimension === 'overall') return session.cliScore;
+  return session.cliBreakdown?.[dimension] ?? null;
+}
+
+function scoredSessions(sessions: TalkSession[]): TalkSession[] {
+  return sessions
+    .filter(s => s.status === 'completed' && s.cliScore !== null)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Rolling baseline per CLI dimension.
+ * Returns null until calculateBaseline considers the history long enough.
+ */
+export function calculatePersonalBaseline(history: TalkSession[]): PersonalBaseline | null {
+  const sessions = scoredSessions(history);
+  if (calculateBaseline(sessions) === null) return null;
+
+  const window = sessions.slice(-BASELINE_WINDOW);
+  const dimensions: PersonalBaseline['dimensions'] = {};
+
+  DIMENSIONS.forEach(dimension => {
+    const values = window
+      .map(s => getDimensionValue(s, dimension))
+      .filter((v): v is number => v !== null);
+    if (values.length === 0) return;
+
+    const center = median(values);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length;
+    const mad = median(values.map(v => Math.abs(v - center)));
+
+    dimensions[dimension] = {
+      center,
+      sigma: Math.max(MIN_SIGMA, mad * 1.4826),
+      mean,
+      variance,
+      count: values.length
+    };
+  });
+
+  return { sessionCount: sessions.length, dimensions };
+}
+
+/**
+ * Find the dimensions where a session falls below the person's normal range.
+ * Only declines are flagged - improvements are not a caregiver concern.
+ */
+export function detectBaselineDeviations(session: TalkSession, history: TalkSession[]): BaselineDeviation[] {
+  const previous = scoredSessions(history.filter(s => s.id !== session.id));
+  const baseline = calculatePersonalBaseline(previous);
+  if (!baseline) return [];
+
+  const deviations: BaselineDeviation[] = [];
+  const recent = [...previous.slice(-(RUN_LENGTH - 1)), session];
+
+  DIMENSIONS.forEach(dimension => {
+    const value = getDimensionValue(session, dimension);
+    const dimensionBaseline = baseline.dimensions[dimension];
+    if (value === null || !dimensionBaseline) return;
+
+    const zScore = (value - dimensionBaseline.center) / dimensionBaseline.sigma;
+
+    if (zScore <= -3) {
+      deviations.push({ dimension, value, baseline: dimensionBaseline, zScore, severity: 'significant', rule: 'outside_3_sigma' });
+      return;
+    }
+    if (zScore <= -2) {
+      deviations.push({ dimension, value, baseline: dimensionBaseline, zScore, severity: 'notable', rule: 'outside_2_sigma' });
+      return;
+    }
+
+    // Sustained shift: several moderately low sessions in a row
+    const lowCount = recent.filter(s => {
+      const v = getDimensionValue(s, dimension);
+      return v !== null && v < dimensionBaseline.center - dimensionBaseline.sigma;
+    }).length;
+    if (recent.length >= RUN_LENGTH && lowCount >= RUN_THRESHOLD && zScore < -1) {
+      deviations.push({ dimension, value, baseline: dimensionBaseline, zScore, severity: 'notable', rule: 'sustained_shift' });
+    }
+  });
+
+  return deviations;
+}
+
+/**
+ * Turn a session's deviations into caregiver insights
+ */
+export function generateBaselineInsights(session: TalkSession, history: TalkSession[]): Insight[] {
+  const deviations = detectBaselineDeviations(session, history);
+  if (deviations.length === 0) return [];
+
+  const insights: Insight[] = [];
+  const describe = (d: BaselineDeviation) => {
+    const low = Math.round(d.baseline.center - 2 * d.baseline.sigma);
+    const high = Math.round(d.baseline.center + 2 * d.baseline.sigma);
+    return `${DIMENSION_LABELS[d.dimension]} was ${Math.round(d.value)} (usual range ${Math.max(0, low)}-${Math.min(100, high)})`;
+  };
+
+  const outliers = deviations.filter(d => d.rule !== 'sustained_shift');
+  if (outliers.length > 0) {
+    const significant = outliers.some(d => d.severity === 'significant');
+    const primary = outliers.find(d => d.dimension !== 'overall') ?? outliers[0];
+    insights.push({
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      type: DIMENSION_INSIGHT_TYPES[primary.dimension],
+      severity: significant ? 'significant' : 'notable',
+      title: significant ? 'Conversation Well Below Usual Range' : 'Conversation Below Usual Range',
+      description: `${outliers.map(describe).join('. ')}.`,
+      recommendation: 'One lower conversation is often due to tiredness or a bad day. If it repeats over the next few conversations, consider mentioning it to their doctor.'
+    });
+  }
+
+  const shifts = deviations.filter(d => d.rule === 'sustained_shift');
+  if (shifts.length > 0) {
+    insights.push({
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      type: DIMENSION_INSIGHT_TYPES[shifts[0].dimension],
+      severity: 'notable',
+      title: 'Gradual Change From Usual Pattern',
+      description: `${shifts.map(d => DIMENSION_LABELS[d.dimension]).join(', ')} ${shifts.length === 1 ? 'has' : 'have'} been lower than usual in ${RUN_THRESHOLD} of the last ${RUN_LENGTH} conversations.`,
+      recommendation: 'A steady change is more meaningful than a single low day. Keep an eye on sleep, medications and mood, and share this with their care team.'
+    });
+  }
+
+  return insights;
+}
@@ -0,0 +1,107 @@
+/**
+ * Biography Extraction
+ * Structured extraction of biographical facts from a memory session with a
+ * language model, used by the /api/biography route. The model's reply must
+ * match BIOGRAPHY_FACTS_SCHEMA; parseBiographyFacts checks it on both sides.
+ */
+
+import type OpenAI from 'openai';
+import type { BiographyEntry, LifeChapter } from '@/types';
+
+export const LIFE_CHAPTERS: LifeChapter[] = [
+  'childhood', 'career', 'marriage', 'family', 'hobbies', 'travel', 'achievements', 'lessons'
+];
+
+const MAX_ITEMS = 12;
+const MAX_ITEM_LENGTH = 300;
+
+const STRING_LIST = { type: 'array', items: { type: 'string' } } as const;
+
+/**
+ * JSON schema the model's reply is constrained to
+ */
+export const BIOGRAPHY_FACTS_SCHEMA = {
+  name: 'biography_facts',
+  strict: true,
+  schema: {
+    type: 'object',
+    properties: {
+      names: { ...STRING_LIST, description: 'People mentioned by name, e.g. "Walter" or "Aunt May"' },
+      locations: { ...STRING_LIST, description: 'Places: towns, countries, schools, workplaces' },
+      dates: { ...STRING_LIST, description: 'Years, dates and periods as said, e.g. "1962" or "the summer of 1959"' },
+      lifeLessons: { ...STRING_LIST, description: 'Lessons or advice the person draws from their life, in their words' }
+    },
+    required: ['names', 'locations', 'dates', 'lifeLessons'],
+    additionalProperties: false
+  }
+};
+
+const SYSTEM_PROMPT = `You extract key biographical facts from a memory-sharing conversation with an older adult. The transcript is a series of questions (Q) and the person's answers (A). Use only what the person said in their answers; ignore small talk and the questions themselves. Do not invent or infer facts. Names are people only, never places.`;
+
+/**
+ * A list of distinct non-empty strings, or null when the value isn't one
+ */
+function readStringList(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) return null;
+  const seen = new Set<string>();
+  return value
+    .map(item => item.trim().slice(0, MAX_ITEM_LENGTH))
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (item.length === 0 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_ITEMS);
+}
+
+/**
+ * Extracted facts from a value matching BIOGRAPHY_FACTS_SCHEMA, or null
+ * when it doesn't
+ */
+export function parseBiographyFacts(value: unknown): Required<BiographyEntry['extractedFacts']> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  const names = readStringList(raw.names);
+  const locations = readStringList(raw.locations);
+  const dates = readStringList(raw.dates);
+  const lifeLessons = readStringList(raw.lifeLessons);
+  if (!names || !locations || !dates || !lifeLessons) return null;
+  return { names, locations, dates, lifeLessons };
+}
+
+/**
+ * Extract biographical facts from a memory session transcript. Throws when
+ * the model's reply doesn't match the schema.
+ */
+export async function extractBiographyFacts(
+  client: OpenAI,
+  model: string,
+  transcript: string,
+  chapter: LifeChapter,
+  signal?: AbortSignal
+): Promise<Required<BiographyEntry['extractedFacts']>> {
+  const completion = await client.chat.completions.create({
+    model,
+    messages: [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: `Life chapter: ${chapter}\n\nTranscript:\n${transcript}` }
+    ],
+    response_format: { type: 'json_schema', json_schema: BIOGRAPHY_FACTS_SCHEMA },
+    temperature: 0, // The same transcript should give the same facts
+    max_tokens: 600
+  }, { signal });
+
+  const text = completion.choices[0]?.message?.content?.trim();
+  if (!text) throw new Error('No response from API');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Biography facts reply is not JSON');
+  }
+  const facts = parseBiographyFacts(parsed);
+  if (!facts) throw new Error('Biography facts reply does not match the schema');
+  return facts;
+}
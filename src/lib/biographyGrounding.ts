@@ -0,0 +1,138 @@
+/**
+ * Biography Grounding
+ * Gives Sage details from the person's life story (names, places, dates and
+ * lessons from their biography entries) and family, and records which ones
+ * each reply brought up so caregivers can see how they were recalled
+ */
+
+import type { Biography, FamilyMember, GroundingReference, LifeChapter, TalkMessage } from '@/types';
+import { contentTerms } from './discourseCoherence';
+
+export interface GroundingFact {
+  source: GroundingReference['source'];
+  sourceId: string; // BiographyEntry.id or FamilyMember.id
+  chapter?: LifeChapter;
+  kind: GroundingReference['kind'];
+  detail: string; // As Sage's prompt and caregivers see it
+}
+
+// Biography details Sage is given per reply
+const MAX_GROUNDING_FACTS = 4;
+// Shared content terms for a reply to count as bringing up a lesson
+const LESSON_MATCH_TERMS = 2;
+const MAX_DETAIL_LENGTH = 160;
+
+const KIND_WEIGHTS: Record<GroundingFact['kind'], number> = {
+  name: 1,
+  location: 1,
+  family: 1,
+  date: 0.5,
+  lesson: 0.5
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The sentence of an entry that mentions a detail, to give a bare date its context
+ */
+function sentenceContaining(content: string, detail: string): string {
+  const sentence = content.split(/(?<=[.!?])\s+/).find(s => s.includes(detail))?.trim() ?? detail;
+  return sentence.length > MAX_DETAIL_LENGTH ? `${sentence.slice(0, MAX_DETAIL_LENGTH - 1)}…` : sentence;
+}
+
+/**
+ * Every life-story and family detail Sage could bring up
+ */
+export function collectGroundingFacts(biography: Biography | null, familyMembers: FamilyMember[] = []): GroundingFact[] {
+  const facts: GroundingFact[] = [];
+
+  (biography?.entries ?? []).forEach(entry => {
+    const base = { source: 'biography' as const, sourceId: entry.id, chapter: entry.chapter };
+    const { names = [], locations = [], dates = [], lifeLessons = [] } = entry.extractedFacts;
+    names.forEach(name => facts.push({ ...base, kind: 'name', detail: name }));
+    locations.forEach(location => facts.push({ ...base, kind: 'location', detail: location }));
+    dates.forEach(date => facts.push({ ...base, kind: 'date', detail: sentenceContaining(entry.content, date) }));
+    lifeLessons.forEach(lesson => facts.push({ ...base, kind: 'lesson', detail: lesson }));
+  });
+
+  familyMembers
+    .filter(member => member.status === 'connected' && member.name.trim())
+    .forEach(member => facts.push({
+      source: 'family',
+      sourceId: member.id,
+      kind: 'family',
+      detail: member.relationship ? `${member.name} (${member.relationship})` : member.name
+    }));
+
+  // Names are often also extracted as locations; keep one of each detail
+  const seen = new Set<string>();
+  return facts.filter(fact => {
+    const key = fact.detail.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Biography details for Sage's next reply: ones related to what is being
+ * talked about first, then names and places. Family members aren't chosen
+ * here since the prompt always lists them (see promptComposer).
+ */
+export function selectGroundingFacts(facts: GroundingFact[], conversationText = '', limit = MAX_GROUNDING_FACTS): GroundingFact[] {
+  const terms = new Set(contentTerms(conversationText));
+  return facts
+    .filter(fact => fact.source === 'biography')
+    .map(fact => {
+      const overlap = contentTerms(`${fact.detail} ${fact.chapter ?? ''}`).filter(t => terms.has(t)).length;
+      return { fact, score: KIND_WEIGHTS[fact.kind] + overlap * 2 };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ fact }) => fact);
+}
+
+/**
+ * Whether a reply brings up a fact: its name, place or year by word, or a
+ * lesson by shared content words
+ */
+function mentionsFact(reply: string, replyTerms: Set<string>, fact: GroundingFact): boolean {
+  if (fact.kind === 'lesson') {
+    return contentTerms(fact.detail).filter(t => replyTerms.has(t)).length >= LESSON_MATCH_TERMS;
+  }
+  const key = fact.kind === 'family'
+    ? fact.detail.replace(/\s*\(.*\)$/, '') // The name, without the relationship
+    : fact.kind === 'date'
+      ? fact.detail.match(/\b(19|20)\d{2}\b/)?.[0] ?? fact.detail
+      : fact.detail;
+  return new RegExp(`\\b${escapeRegExp(key)}\\b`, 'i').test(reply);
+}
+
+/**
+ * References for the facts Sage was given that its reply actually used
+ */
+export function findGroundingReferences(reply: string, offered: GroundingFact[]): GroundingReference[] {
+  const replyTerms = new Set(contentTerms(reply));
+  return offered
+    .filter(fact => mentionsFact(reply, replyTerms, fact))
+    .map(fact => ({
+      id: crypto.randomUUID(),
+      ...fact
+    }));
+}
+
+/**
+ * Records the person's answer on the references in Sage's last message, so
+ * caregivers can judge whether they recalled each detail correctly
+ */
+export function recordGroundingResponse(messages: TalkMessage[], response: string): TalkMessage[] {
+  const last = messages[messages.length - 1];
+  if (last?.role !== 'sage' || !last.groundingReferences?.some(ref => ref.userResponse === undefined)) {
+    return messages;
+  }
+  const groundingReferences = last.groundingReferences.map(ref =>
+    ref.userResponse === undefined ? { ...ref, userResponse: response } : ref);
+  return [...messages.slice(0, -1), { ...last, groundingReferences }];
+}
@@ -1,72 +1,150 @@
-import type { BiographyEntry, MemorySession } from '@/types';
+import type { BiographyEntry, ConversationSettings, MemorySession } from '@/types';
+import { postToApi, isApiUnavailable } from './apiClient';
+import { parseBiographyFacts } from './biographyExtraction';
+import { resolveConversationProvider } from './conversationProvider';
+
+type ExtractedFacts = BiographyEntry['extractedFacts'];
 
 /**
- * Background function that analyzes chat logs and extracts biographical facts
- * This simulates sending to an AI service for analysis
+ * Turns a finished memory session into a biography entry: facts come from
+ * the user's language model when it can be reached (OpenAI or a local
+ * server, through /api/biography) and from pattern matching otherwise. A
+ * chapter that already has an entry gets the new content and facts merged
+ * into it rather than a second entry.
  */
 export async function processBiographyFromTranscript(
   transcript: string,
-  chapter: string
+  session: MemorySession,
+  existingEntries: BiographyEntry[] = [],
+  settings?: ConversationSettings
 ): Promise<BiographyEntry> {
-  // Simulate AI processing delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
+  const extractedFacts = await extractFactsWithModel(transcript, session, settings) ?? extractBiographicalFacts(transcript);
+  const content = formatBiographyContent(transcript, session.chapter);
 
-  // Extract key biographical facts from transcript
-  // In a real implementation, this would call an AI API
-  const extractedFacts = extractBiographicalFacts(transcript);
+  // Reprocessing a session already in the entry replaces its part of the content; a new session adds to the chapter
+  // Entries saved before sourceSessionIds existed have none
+  const holdsSession = (entry: BiographyEntry) => (entry.sourceSessionIds ?? []).includes(session.id);
+  const existing = existingEntries.find(holdsSession)
+    ?? existingEntries.find(e => e.chapter === session.chapter);
+  if (existing) {
+    // Each session's content is one paragraph, in the order of sourceSessionIds
+    const sessionIds = existing.sourceSessionIds ?? [];
+    const paragraphs = existing.content.split('\n\n');
+    const index = sessionIds.indexOf(session.id);
+    if (index >= 0 && paragraphs.length === sessionIds.length) {
+      paragraphs[index] = content;
+    } else if (index < 0) {
+      paragraphs.push(content);
+    }
+    return {
+      ...existing,
+      content: paragraphs.join('\n\n'),
+      extractedFacts: mergeExtractedFacts(existing.extractedFacts, extractedFacts),
+      timestamp: new Date(),
+      sourceSessionIds: index >= 0 ? sessionIds : [...sessionIds, session.id]
+    };
+  }
 
-  const entry: BiographyEntry = {
+  return {
     id: crypto.randomUUID(),
-    chapter: chapter as any,
-    content: formatBiographyContent(transcript, chapter),
+    chapter: session.chapter,
+    content,
     extractedFacts,
     timestamp: new Date(),
-    sourceSessionId: crypto.randomUUID()
+    sourceSessionIds: [session.id]
   };
+}
+
+/**
+ * Facts from the user's language model, or null when it isn't one the
+ * /api/biography route can call or the request fails
+ */
+async function extractFactsWithModel(
+  transcript: string,
+  session: MemorySession,
+  settings?: ConversationSettings
+): Promise<ExtractedFacts | null> {
+  const { provider, model } = resolveConversationProvider(settings);
+  if ((provider.id !== 'openai' && provider.id !== 'local') || !provider.isConfigured()) return null;
+
+  try {
+    const { facts } = await postToApi<{ facts: unknown }>('/api/biography', {
+      provider: provider.id,
+      model,
+      transcript,
+      chapter: session.chapter
+    });
+    return parseBiographyFacts(facts);
+  } catch (error) {
+    if (!isApiUnavailable(error)) {
+      console.error('Error extracting biography facts, using pattern matching:', error);
+    }
+    return null;
+  }
+}
 
-  return entry;
+/**
+ * Facts of both entries, keeping the first spelling of each
+ */
+function mergeExtractedFacts(existing: ExtractedFacts, added: ExtractedFacts): ExtractedFacts {
+  const merge = (kept: string[] = [], added: string[] = []) => {
+    const seen = new Set(kept.map(item => item.toLowerCase()));
+    return [...kept, ...added.filter(item => {
+      const key = item.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })];
+  };
+  return {
+    dates: merge(existing.dates, added.dates),
+    names: merge(existing.names, added.names),
+    locations: merge(existing.locations, added.locations),
+    lifeLessons: merge(existing.lifeLessons, added.lifeLessons)
+  };
 }
 
 /**
- * Extracts biographical facts from transcript
- * In production, this would use an AI service with the prompt:
- * "Analyze the transcript below. Extract key biographical facts (dates, names, locations, life lessons) 
- * and format them into a structured JSON file titled 'Grandma's Life Story.' Ignore small talk."
+ * Extracts biographical facts from transcript by pattern matching, the
+ * offline fallback for extractFactsWithModel
  */
-function extractBiographicalFacts(transcript: string): BiographyEntry['extractedFacts'] {
-  const facts: BiographyEntry['extractedFacts'] = {
+function extractBiographicalFacts(transcript: string): ExtractedFacts {
+  // Only the person's answers, not Sage's questions
+  const answers = transcript.split('\n').filter(line => line.startsWith('A:')).map(line => line.slice(2).trim());
+  const text = answers.length > 0 ? answers.join(' ') : transcript;
+  const facts: ExtractedFacts = {
     dates: [],
     names: [],
     locations: [],
     lifeLessons: []
   };
 
-  // Simple pattern matching (in production, use AI)
   const datePattern = /\b(19|20)\d{2}\b|\b(January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},?\s+\d{4}\b/gi;
-  const dates = transcript.match(datePattern);
+  const dates = text.match(datePattern);
   if (dates) {
     facts.dates = [...new Set(dates)];
   }
 
-  // Extract capitalized words (likely names/places)
-  const capitalizedWords = transcript.match(/\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\b/g);
+  // Extract locations (capitalized words after "in", "at", "from", "to")
+  const locationPattern = /\b(in|at|from|to)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/g;
+  const locations = [...text.matchAll(locationPattern)];
+  if (locations.length > 0) {
+    facts.locations = [...new Set(locations.map(m => m[2]).slice(0, 5))];
+  }
+
+  // Extract capitalized words that aren't places or sentence openers (likely names)
+  const capitalizedWords = text.match(/\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\b/g);
   if (capitalizedWords) {
     const filtered = capitalizedWords.filter(word => 
-      !['I', 'The', 'This', 'That', 'When', 'Where', 'What', 'How', 'Why'].includes(word)
+      !['I', 'The', 'This', 'That', 'When', 'Where', 'What', 'How', 'Why', 'My', 'We', 'He', 'She', 'It', 'They', 'And', 'But', 'So', 'Then', 'Always', 'Never', 'Yes', 'No', 'Oh', 'Well'].includes(word)
+      && !facts.locations?.includes(word)
     );
     facts.names = [...new Set(filtered.slice(0, 10))];
   }
 
-  // Extract locations (words after "in", "at", "from")
-  const locationPattern = /\b(in|at|from|to)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/gi;
-  const locations = [...transcript.matchAll(locationPattern)];
-  if (locations.length > 0) {
-    facts.locations = [...new Set(locations.map(m => m[2]).slice(0, 5))];
-  }
-
   // Extract life lessons (sentences with "learned", "taught", "important", etc.)
   const lessonKeywords = ['learned', 'taught', 'important', 'remember', 'always', 'never', 'should'];
-  const sentences = transcript.split(/[.!?]+/);
+  const sentences = text.split(/[.!?]+/);
   const lessons = sentences
     .filter(s => lessonKeywords.some(keyword => s.toLowerCase().includes(keyword)))
     .map(s => s.trim())
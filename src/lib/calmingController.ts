@@ -0,0 +1,96 @@
+/**
+ * Calming Controller
+ * Watches the emotion estimates from Talk turns and VoiceRecorder recordings
+ * and decides when calming mode should switch on or off. It switches on only
+ * when anxiety or agitation persists across several recent samples, and
+ * switches off once the user has stayed settled for a while, so a single
+ * worried sentence doesn't flip Sage's behavior back and forth.
+ */
+
+import type { EmotionDistribution, Insight } from '@/types';
+
+export interface EmotionSample {
+  timestamp: Date;
+  distribution: EmotionDistribution;
+}
+
+// Only the last few samples from the last half hour count
+const WINDOW_SIZE = 5;
+const WINDOW_MS = 30 * 60 * 1000;
+
+// A sample is distressed when anxious + agitated reaches this probability
+const DISTRESS_THRESHOLD = 0.4;
+const ACTIVATION_COUNT = 3; // Distressed samples in the window needed to switch on
+
+// Calming mode switches off after this many settled samples in a row
+const SETTLED_THRESHOLD = 0.25;
+const DEACTIVATION_COUNT = 3;
+
+// Calming mode slows TTS to this fraction of the user's chosen speech rate
+export const CALMING_RATE_FACTOR = 0.85;
+
+/**
+ * Probability that a sample shows anxiety or agitation
+ */
+export function getDistress(distribution: EmotionDistribution): number {
+  return distribution.anxious + distribution.agitated;
+}
+
+/**
+ * Add a sample and drop the ones that have left the window
+ */
+export function addEmotionSample(samples: EmotionSample[], sample: EmotionSample): EmotionSample[] {
+  const cutoff = sample.timestamp.getTime() - WINDOW_MS;
+  return [...samples, sample]
+    .filter(s => new Date(s.timestamp).getTime() >= cutoff)
+    .slice(-WINDOW_SIZE);
+}
+
+/**
+ * Whether calming mode should be active given the recent samples and its
+ * current state. Switching on requires the latest sample to be distressed too,
+ * so agitation that has already passed doesn't trigger it.
+ */
+export function evaluateCalmingMode(samples: EmotionSample[], active: boolean): boolean {
+  if (samples.length === 0) return active;
+  const distress = samples.map(s => getDistress(s.distribution));
+
+  if (!active) {
+    const distressed = distress.filter(d => d >= DISTRESS_THRESHOLD).length;
+    return distressed >= ACTIVATION_COUNT && distress[distress.length - 1] >= DISTRESS_THRESHOLD;
+  }
+
+  const latest = distress.slice(-DEACTIVATION_COUNT);
+  const settled = latest.length === DEACTIVATION_COUNT && latest.every(d => d < SETTLED_THRESHOLD);
+  return !settled;
+}
+
+/**
+ * Caregiver insight recording that calming mode switched on or off
+ */
+export function createCalmingInsight(active: boolean, samples: EmotionSample[]): Insight {
+  const distressed = samples.filter(s => getDistress(s.distribution) >= DISTRESS_THRESHOLD);
+  const anxious = distressed.filter(s => s.distribution.anxious >= s.distribution.agitated).length;
+  const feeling = anxious >= distressed.length - anxious ? 'anxiety' : 'agitation';
+
+  return active
+    ? {
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        type: 'emotion',
+        severity: 'notable',
+        title: 'Calming Mode Turned On',
+        description: `Signs of ${feeling} came up in ${distressed.length} of the last ${samples.length} replies and recordings. Sage is now speaking more slowly and soothingly, and games are set aside for now.`,
+        recommendation: 'A familiar voice, a favorite song or a quiet break can help. Consider checking in soon.',
+        ruleKey: 'calming-mode:on'
+      }
+    : {
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        type: 'emotion',
+        severity: 'info',
+        title: 'Calming Mode Turned Off',
+        description: `The last ${DEACTIVATION_COUNT} replies and recordings sounded settled, so Sage has returned to its usual pace and games are available again.`,
+        ruleKey: 'calming-mode:off'
+      };
+}
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TalkMessage } from '@/types';
+import { calculateCLIScore } from './cliScoring';
+
+type Turn = { role: TalkMessage['role']; content: string };
+
+const START = new Date('2026-01-05T10:00:00Z').getTime();
+
+/**
+ * A conversation with turns 8 seconds apart
+ */
+function conversation(turns: Turn[]) {
+  return turns.map((turn, i) => ({ ...turn, timestamp: new Date(START + i * 8000) }));
+}
+
+const VERBOSE_SAGE = [
+  "Good morning! I've been looking forward to our chat today. I'd love to hear about the garden you mentioned last week, especially the roses your mother planted when you were a child, and how you've kept them going all these years.",
+  "That's wonderful to hear. Many people find that tending a garden brings back memories of the people who taught them, and it sounds like those afternoons meant a great deal to you. What else do you remember about working alongside her in the soil?",
+  "How lovely. Thank you for sharing something so personal with me; it paints a vivid picture of the summers you spent there, the smell of the earth and the sound of the old gate. Would you like to tell me about the house itself, or the neighbours who lived nearby?"
+];
+
+const QUIET_SAGE = ['Hello. How is the garden?', 'I see. What else?', 'And the house?'];
+
+const TERSE_USER = ['Fine.', 'Roses. Yes.', 'Old house. Good.'];
+
+const FLUENT_USER = [
+  'The roses in the garden are still blooming, although the late frost damaged a few of the climbing ones my mother planted near the fence.',
+  'Working in the soil with her taught me patience, and she always insisted that we water the garden early in the morning before the sun got too strong.',
+  'The old house had a wide porch where we sat every summer evening, and the neighbours would walk over from nearby to talk about their vegetables.'
+];
+
+function interleave(sage: string[], user: string[]): Turn[] {
+  return sage.flatMap((content, i) => [
+    { role: 'sage' as const, content },
+    { role: 'user' as const, content: user[i] }
+  ]);
+}
+
+test('terse user against verbose Sage', () => {
+  const score = calculateCLIScore(conversation(interleave(VERBOSE_SAGE, TERSE_USER)), 48);
+  assert.deepEqual(score.breakdown, {
+    lexicalAccess: 92,
+    fluency: 70,
+    syntacticComplexity: 6,
+    coherence: 91,
+    processingSpeed: 75,
+    attention: 70
+  });
+  assert.equal(score.overall, 70);
+});
+
+test('fluent user against verbose Sage', () => {
+  const score = calculateCLIScore(conversation(interleave(VERBOSE_SAGE, FLUENT_USER)), 48);
+  assert.deepEqual(score.breakdown, {
+    lexicalAccess: 86,
+    fluency: 95,
+    syntacticComplexity: 69,
+    coherence: 89,
+    processingSpeed: 75,
+    attention: 100
+  });
+  assert.equal(score.overall, 86);
+});
+
+test("language dimensions ignore Sage's turns; coherence reads them", () => {
+  for (const user of [TERSE_USER, FLUENT_USER]) {
+    const verbose = calculateCLIScore(conversation(interleave(VERBOSE_SAGE, user)), 48).breakdown;
+    const quiet = calculateCLIScore(conversation(interleave(QUIET_SAGE, user)), 48).breakdown;
+    assert.equal(quiet.lexicalAccess, verbose.lexicalAccess);
+    assert.equal(quiet.fluency, verbose.fluency);
+    assert.equal(quiet.syntacticComplexity, verbose.syntacticComplexity);
+    assert.notEqual(quiet.coherence, verbose.coherence);
+  }
+});
@@ -1,6 +1,14 @@
 // Cognitive Linguistic Index (CLI) Scoring
 // This is NEVER shown to the user - internal only
 
+import type { AudioFeatures, CoherenceMetrics, DisfluencyReport, TranscriptToken, TurnTiming } from '@/types';
+import { summarizeDisfluencies } from './disfluencyDetection';
+import { analyzeCoherence, calculateCoherenceScore } from './discourseCoherence';
+import { getResponseLatencies } from './responseLatency';
+import { analyzeLexicalMetrics, calculateVocabularyComplexity } from './lexicalMetrics';
+import { analyzeSyntax, calculateSyntacticComplexity } from './syntacticMetrics';
+import { calculateFluencyScore, calculateSpeechRate, detectPauses } from './speechAnalysis';
+
 export interface CLIMetrics {
   lexicalAccess: number; // 0-100
   fluency: number; // 0-100
@@ -13,6 +21,7 @@ export interface CLIMetrics {
 export interface CLIScore {
   overall: number; // 0-100 (weighted average)
   breakdown: CLIMetrics;
+  coherence: CoherenceMetrics; // On-topic and drift detail behind breakdown.coherence
 }
 
 // Weights for each dimension
@@ -25,217 +34,86 @@ const WEIGHTS = {
   attention: 0.10
 };
 
-/**
- * Calculate type-token ratio (unique words / total words)
- */
-function calculateTypeTokenRatio(text: string): number {
-  const words = text.toLowerCase().match(/\b\w+\b/g) || [];
-  if (words.length === 0) return 0;
-  const uniqueWords = new Set(words);
-  return (uniqueWords.size / words.length) * 100;
-}
+const WORD_ALLOWANCE_MS = 400; // Speaking time before the first word of a turn is recognized
 
-/**
- * Estimate vocabulary complexity based on word frequency
- * Simple heuristic: longer words and less common words = higher complexity
- */
-function calculateVocabularyComplexity(text: string): number {
-  const words = text.toLowerCase().match(/\b\w+\b/g) || [];
-  if (words.length === 0) return 0;
-  
-  let complexityScore = 0;
-  const commonWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'can', 'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they']);
-  
-  words.forEach(word => {
-    // Longer words = more complex
-    if (word.length > 6) complexityScore += 2;
-    else if (word.length > 4) complexityScore += 1;
-    
-    // Less common words = more complex
-    if (!commonWords.has(word)) complexityScore += 1;
-  });
-  
-  return Math.min(100, (complexityScore / words.length) * 20);
-}
+// Response latency bands in seconds (slow / moderate / mild penalties, and "too fast")
+const LATENCY_BANDS = {
+  measured: { slow: 6, moderate: 4, mild: 2.5, tooFast: 0.2 }, // Prompt end to first voice
+  estimated: { slow: 10, moderate: 5, mild: 3, tooFast: 0.5 } // Message timestamps (older sessions)
+};
 
 /**
  * Calculate lexical access score (20% weight)
+ * Word-finding difficulty shows up as less varied, more common vocabulary,
+ * vague "empty" words and pronouns standing in for nouns
  */
-function calculateLexicalAccess(text: string, pauses: number, duration: number): number {
-  const typeTokenRatio = calculateTypeTokenRatio(text);
-  const vocabularyComplexity = calculateVocabularyComplexity(text);
+function calculateLexicalAccess(text: string): number {
+  const lexical = analyzeLexicalMetrics(text);
+  if (lexical.wordCount === 0) return 0;
   
-  // Penalize for word substitutions/circumlocutions (simple heuristic: repeated phrases)
-  const words = text.toLowerCase().match(/\b\w+\b/g) || [];
-  const wordFreq: { [key: string]: number } = {};
-  words.forEach(word => {
-    wordFreq[word] = (wordFreq[word] || 0) + 1;
-  });
-  const highFreqWords = Object.values(wordFreq).filter(count => count > 5).length;
-  const substitutionPenalty = Math.min(20, highFreqWords * 2);
+  const vocabularyComplexity = calculateVocabularyComplexity(lexical);
+  
+  // Conversational speech usually has roughly one pronoun per noun
+  const pronounPenalty = Math.min(15, Math.max(0, lexical.pronounNounRatio - 1.5) * 10);
   
-  return Math.max(0, Math.min(100, (typeTokenRatio * 0.4 + vocabularyComplexity * 0.6) - substitutionPenalty));
+  return Math.max(0, Math.min(100, vocabularyComplexity - pronounPenalty));
 }
 
 /**
  * Calculate fluency score (20% weight)
+ * Same definition as recordings; pause frequency uses the user's own
+ * speaking time when audio was measured
  */
-function calculateFluency(text: string, pauses: number, duration: number, fillerWords: number): number {
-  const words = text.match(/\b\w+\b/g) || [];
-  const wordCount = words.length;
-  
+function calculateFluency(
+  text: string,
+  duration: number,
+  fillerWords: number,
+  revisions: number,
+  audio?: AudioFeatures
+): number {
+  const wordCount = (text.match(/\b\w+\b/g) || []).length;
   if (wordCount === 0 || duration === 0) return 0;
   
-  const wordsPerMinute = (wordCount / duration) * 60;
-  const pauseFrequency = duration > 0 ? (pauses / duration) * 60 : 0; // pauses per minute
-  const fillerDensity = wordCount > 0 ? (fillerWords / wordCount) * 100 : 0;
-  
-  // Ideal: 150-200 WPM, low pause frequency, low filler density
-  let score = 100;
-  
-  // Penalize for too slow or too fast
-  if (wordsPerMinute < 100) score -= 20;
-  else if (wordsPerMinute > 250) score -= 15;
-  
-  // Penalize for high pause frequency
-  if (pauseFrequency > 10) score -= 30;
-  else if (pauseFrequency > 5) score -= 15;
-  
-  // Penalize for high filler density
-  if (fillerDensity > 10) score -= 25;
-  else if (fillerDensity > 5) score -= 10;
-  
-  return Math.max(0, Math.min(100, score));
-}
-
-/**
- * Calculate syntactic complexity (15% weight)
- */
-function calculateSyntacticComplexity(text: string): number {
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  if (sentences.length === 0) return 0;
-  
-  let totalWords = 0;
-  let totalClauses = 0;
-  
-  sentences.forEach(sentence => {
-    const words = sentence.match(/\b\w+\b/g) || [];
-    totalWords += words.length;
-    
-    // Count clauses (simple heuristic: conjunctions, relative pronouns, etc.)
-    const clauseMarkers = sentence.match(/\b(and|or|but|because|since|when|where|which|that|who|whom|whose)\b/gi) || [];
-    totalClauses += clauseMarkers.length + 1; // +1 for main clause
-  });
-  
-  const avgSentenceLength = totalWords / sentences.length;
-  const avgClausesPerSentence = totalClauses / sentences.length;
-  
-  // Score based on sentence length and clause embedding
-  let score = 0;
-  if (avgSentenceLength > 15) score += 40;
-  else if (avgSentenceLength > 10) score += 30;
-  else if (avgSentenceLength > 5) score += 20;
-  
-  if (avgClausesPerSentence > 2) score += 40;
-  else if (avgClausesPerSentence > 1.5) score += 30;
-  else if (avgClausesPerSentence > 1) score += 20;
-  
-  // Check for grammatical completeness (simple heuristic)
-  const hasSubjectVerb = sentences.some(s => {
-    const words = s.toLowerCase().match(/\b\w+\b/g) || [];
-    return words.length >= 3; // At least subject + verb + object/complement
+  return calculateFluencyScore({
+    speechRate: calculateSpeechRate(text, duration, audio),
+    pauseFrequency: detectPauses(text, duration, audio),
+    wordCount,
+    fillerCount: fillerWords,
+    revisionCount: revisions,
+    extendedPauses: audio?.pauseHistogram.extended
   });
-  if (hasSubjectVerb) score += 20;
-  
-  return Math.max(0, Math.min(100, score));
-}
-
-/**
- * Calculate coherence score (20% weight)
- * This is a simplified heuristic - in production, would use more sophisticated NLP
- */
-function calculateCoherence(messages: Array<{ role: string; content: string; timestamp: Date }>): number {
-  if (messages.length < 2) return 50; // Neutral score for very short conversations
-  
-  let score = 100;
-  
-  // Check for topic drift (simplified: check if topics change too frequently)
-  const topics = messages.map(m => {
-    const words = m.content.toLowerCase().match(/\b\w+\b/g) || [];
-    return words.slice(0, 5).join(' '); // First 5 words as topic indicator
-  });
-  
-  let topicChanges = 0;
-  for (let i = 1; i < topics.length; i++) {
-    // Simple similarity check
-    const prevWords = topics[i - 1].split(' ');
-    const currWords = topics[i].split(' ');
-    const commonWords = prevWords.filter(w => currWords.includes(w));
-    if (commonWords.length < 2) topicChanges++;
-  }
-  
-  // Penalize excessive topic changes
-  if (topicChanges > messages.length * 0.5) score -= 30;
-  else if (topicChanges > messages.length * 0.3) score -= 15;
-  
-  // Check for repetition (user repeating same information)
-  const userMessages = messages.filter(m => m.role === 'user').map(m => m.content.toLowerCase());
-  const uniqueMessages = new Set(userMessages);
-  if (userMessages.length > uniqueMessages.size * 1.5) {
-    score -= 20; // Significant repetition
-  }
-  
-  return Math.max(0, Math.min(100, score));
 }
 
 /**
  * Calculate processing speed (15% weight)
+ * Measured latency runs from the end of Sage's speech to the user's first
+ * voice, so its bands are tighter than for older timestamp-based sessions
  */
 function calculateProcessingSpeed(
-  messages: Array<{ role: string; content: string; timestamp: Date }>,
+  messages: Array<{ role: string; content: string; timestamp: Date; timing?: TurnTiming }>,
   duration: number
 ): number {
   if (messages.length < 2 || duration === 0) return 50;
   
-  // Calculate average response latency
-  const userMessages = messages.filter(m => m.role === 'user');
-  if (userMessages.length < 2) return 50;
-  
-  let totalLatency = 0;
-  for (let i = 1; i < messages.length; i++) {
-    if (messages[i].role === 'user' && messages[i - 1].role === 'sage') {
-      const latency = messages[i].timestamp.getTime() - messages[i - 1].timestamp.getTime();
-      totalLatency += latency;
-    }
-  }
+  const samples = getResponseLatencies(messages);
+  if (samples.length < 2) return 50;
   
-  const avgLatency = totalLatency / (userMessages.length - 1);
-  const avgLatencySeconds = avgLatency / 1000;
+  const latencies = samples.map(s => s.seconds);
+  const bands = samples[0].measured ? LATENCY_BANDS.measured : LATENCY_BANDS.estimated;
+  const avgLatencySeconds = latencies.reduce((a, b) => a + b, 0) / latencies.length;
   
-  // Ideal response time: 1-3 seconds
   let score = 100;
-  if (avgLatencySeconds > 10) score -= 40;
-  else if (avgLatencySeconds > 5) score -= 25;
-  else if (avgLatencySeconds > 3) score -= 10;
-  else if (avgLatencySeconds < 0.5) score -= 15; // Too fast might indicate not thinking
+  if (avgLatencySeconds > bands.slow) score -= 40;
+  else if (avgLatencySeconds > bands.moderate) score -= 25;
+  else if (avgLatencySeconds > bands.mild) score -= 10;
+  else if (avgLatencySeconds < bands.tooFast) score -= 15; // Too fast might indicate not thinking
   
   // Check for variability (consistent response times are better)
-  const latencies: number[] = [];
-  for (let i = 1; i < messages.length; i++) {
-    if (messages[i].role === 'user' && messages[i - 1].role === 'sage') {
-      const latency = messages[i].timestamp.getTime() - messages[i - 1].timestamp.getTime();
-      latencies.push(latency / 1000);
-    }
-  }
+  const variance = latencies.reduce((sum, val) => sum + Math.pow(val - avgLatencySeconds, 2), 0) / latencies.length;
+  const stdDev = Math.sqrt(variance);
   
-  if (latencies.length > 1) {
-    const mean = latencies.reduce((a, b) => a + b, 0) / latencies.length;
-    const variance = latencies.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / latencies.length;
-    const stdDev = Math.sqrt(variance);
-    
-    // High variability = less consistent
-    if (stdDev > mean * 0.5) score -= 10;
-  }
+  // High variability = less consistent
+  if (stdDev > avgLatencySeconds * 0.5) score -= 10;
   
   return Math.max(0, Math.min(100, score));
 }
@@ -276,8 +154,8 @@ function calculateAttention(messages: Array<{ role: string; content: string; tim
   if (referenceRate < 0.2) score -= 30;
   else if (referenceRate < 0.4) score -= 15;
   
-  // Check for consistency of details (simplified)
-  // In production, would track specific facts mentioned and check for contradictions
+  // Check for consistency of details (simplified); restated life-story
+  // facts are checked against the biography separately (see lib/memoryConsistency)
   const allUserText = userMessages.map(m => m.content.toLowerCase()).join(' ');
   const words = allUserText.match(/\b\w+\b/g) || [];
   const wordFreq: { [key: string]: number } = {};
@@ -293,20 +171,58 @@ function calculateAttention(messages: Array<{ role: string; content: string; tim
 }
 
 /**
- * Calculate overall CLI score from a talk session
+ * User turns as one text, each turn ending a sentence so turns without
+ * punctuation don't run together
+ */
+function joinTurns(turns: Array<{ content: string }>): string {
+  return turns
+    .map(t => t.content.trim())
+    .filter(content => content.length > 0)
+    .map(content => /[.!?]$/.test(content) ? content : `${content}.`)
+    .join(' ');
+}
+
+/**
+ * Seconds the user spent speaking, from speech recognition word timings.
+ * Null unless every user turn has timings.
+ */
+function estimateSpeakingTime(turns: Array<{ content: string; tokens?: TranscriptToken[] }>): number | null {
+  const spoken = turns.filter(t => t.content.trim().length > 0);
+  if (spoken.length === 0 || spoken.some(t => !t.tokens || t.tokens.length === 0)) return null;
+  
+  const milliseconds = spoken.reduce((total, turn) => {
+    const tokens = turn.tokens as TranscriptToken[];
+    const start = Math.min(...tokens.map(t => t.firstHeardAt));
+    const end = Math.max(...tokens.map(t => t.finalizedAt ?? t.firstHeardAt));
+    return total + (end - start) + WORD_ALLOWANCE_MS;
+  }, 0);
+  
+  return milliseconds / 1000;
+}
+
+/**
+ * Calculate overall CLI score from a talk session.
+ * Language dimensions measure only the user's own turns; Sage's turns are
+ * context for coherence and response latency.
  */
 export function calculateCLIScore(
-  messages: Array<{ role: string; content: string; timestamp: Date }>,
+  messages: Array<{ role: string; content: string; timestamp: Date; tokens?: TranscriptToken[]; disfluencies?: DisfluencyReport; timing?: TurnTiming }>,
   duration: number,
-  pauses: number = 0,
-  fillerWords: number = 0
-): { overall: number; breakdown: CLIMetrics } {
-  const fullText = messages.map(m => m.content).join(' ');
-  
-  const lexicalAccess = calculateLexicalAccess(fullText, pauses, duration);
-  const fluency = calculateFluency(fullText, pauses, duration, fillerWords);
-  const syntacticComplexity = calculateSyntacticComplexity(fullText);
-  const coherence = calculateCoherence(messages);
+  audio?: AudioFeatures | null
+): CLIScore {
+  const userMessages = messages.filter(m => m.role === 'user');
+  const userText = joinTurns(userMessages);
+  const speakingTime = estimateSpeakingTime(userMessages) ?? duration;
+  
+  const lexicalAccess = calculateLexicalAccess(userText);
+  const disfluencies = summarizeDisfluencies(userMessages.map(m => m.disfluencies));
+  const revisions = disfluencies.repetitionCount + disfluencies.falseStartCount + disfluencies.selfCorrectionCount;
+  const fluency = calculateFluency(userText, speakingTime, disfluencies.fillerCount, revisions, audio ?? undefined);
+  // Syntax: utterance length, subordination and argument structure
+  const syntacticComplexity = calculateSyntacticComplexity(analyzeSyntax(userText));
+  // Coherence: user turns against Sage's prompts and the conversation so far
+  const coherenceMetrics = analyzeCoherence(messages).metrics;
+  const coherence = calculateCoherenceScore(coherenceMetrics);
   const processingSpeed = calculateProcessingSpeed(messages, duration);
   const attention = calculateAttention(messages);
   
@@ -331,7 +247,8 @@ export function calculateCLIScore(
   
   return {
     overall: Math.max(0, Math.min(100, overall)),
-    breakdown
+    breakdown,
+    coherence: coherenceMetrics
   };
 }
 
@@ -1,4 +1,6 @@
-import type { SpeechAnalysis, CognitiveGameResult, CognitiveProfile, EmotionalState } from '@/types';
+import type { SpeechAnalysis, CognitiveGameResult, CognitiveProfile, EmotionalState, TalkSession, TrendEstimate } from '@/types';
+import { calculateDomainTrends, summarizeOverallTrend, DEFAULT_TREND_WINDOW, type TrendWindowDays } from './trendAnalysis';
+import { analyzeTimeOfDayPerformance } from './timeOfDayAnalysis';
 
 /**
  * Calculates cognitive profile metrics from actual speech analyses and game results
@@ -6,7 +8,9 @@ import type { SpeechAnalysis, CognitiveGameResult, CognitiveProfile, EmotionalSt
 export function calculateCognitiveProfile(
   speechAnalyses: SpeechAnalysis[],
   gameResults: CognitiveGameResult[],
-  existingProfile?: CognitiveProfile
+  existingProfile?: CognitiveProfile,
+  talkSessions: TalkSession[] = [],
+  trendWindowDays: TrendWindowDays = DEFAULT_TREND_WINDOW
 ): CognitiveProfile {
   const now = new Date();
   const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
@@ -19,6 +23,11 @@ export function calculateCognitiveProfile(
     new Date(g.timestamp) >= oneWeekAgo
   );
   
+  // Fit score trends over the (longer) trend window
+  const trends = calculateDomainTrends(speechAnalyses, gameResults, trendWindowDays, now);
+  const trendValue = (estimate: TrendEstimate | null) =>
+    estimate ? (estimate.direction === 'stable' ? 0 : estimate.slopePerWeek) : null;
+  
   // Calculate Language Complexity from speech analyses
   const languageScores = recentAnalyses.map(a => a.metrics.vocabularyComplexity);
   const languageCurrent = languageScores.length > 0
@@ -29,10 +38,6 @@ export function calculateCognitiveProfile(
     ? Math.round(languageScores.reduce((a, b) => a + b, 0) / languageScores.length)
     : (existingProfile?.languageComplexity?.weeklyAverage ?? null);
   
-  const languageTrend = existingProfile?.languageComplexity?.current !== null && existingProfile?.languageComplexity?.current !== undefined && languageCurrent !== null
-    ? languageCurrent - (existingProfile.languageComplexity?.current ?? 0)
-    : null;
-  
   // Calculate Memory Recall from memory game results
   const memoryGames = recentGames.filter(g => g.gameType === 'memory_recall');
   const memoryScores = memoryGames.map(g => g.accuracy);
@@ -44,10 +49,6 @@ export function calculateCognitiveProfile(
     ? Math.round(memoryScores.reduce((a, b) => a + b, 0) / memoryScores.length)
     : (existingProfile?.memoryRecall?.weeklyAverage ?? null);
   
-  const memoryTrend = existingProfile?.memoryRecall?.current !== null && existingProfile?.memoryRecall?.current !== undefined && memoryCurrent !== null
-    ? memoryCurrent - (existingProfile.memoryRecall?.current ?? 0)
-    : null;
-  
   // Calculate Attention from attention game results
   const attentionGames = recentGames.filter(g => g.gameType === 'attention_focus');
   const attentionScores = attentionGames.map(g => g.accuracy);
@@ -59,10 +60,6 @@ export function calculateCognitiveProfile(
     ? Math.round(attentionScores.reduce((a, b) => a + b, 0) / attentionScores.length)
     : (existingProfile?.attention?.weeklyAverage ?? null);
   
-  const attentionTrend = existingProfile?.attention?.current !== null && existingProfile?.attention?.current !== undefined && attentionCurrent !== null
-    ? attentionCurrent - (existingProfile.attention?.current ?? 0)
-    : null;
-  
   // Calculate Processing Speed from processing speed game results
   const processingGames = recentGames.filter(g => g.gameType === 'processing_speed');
   const processingScores = processingGames.map(g => g.accuracy);
@@ -74,10 +71,6 @@ export function calculateCognitiveProfile(
     ? Math.round(processingScores.reduce((a, b) => a + b, 0) / processingScores.length)
     : (existingProfile?.processingSpeed?.weeklyAverage ?? null);
   
-  const processingTrend = existingProfile?.processingSpeed?.current !== null && existingProfile?.processingSpeed?.current !== undefined && processingCurrent !== null
-    ? processingCurrent - (existingProfile.processingSpeed?.current ?? 0)
-    : null;
-  
   // Calculate Emotional Patterns from speech analyses
   const emotionalStates = recentAnalyses.map(a => a.emotionalState);
   let dominant: EmotionalState | null = null;
@@ -111,52 +104,18 @@ export function calculateCognitiveProfile(
     )[0] as EmotionalState;
   }
   
-  // Calculate Peak Cognition Time
-  let peakCognitionTime: 'morning' | 'afternoon' | 'evening' | null = null;
-  
-  if (recentAnalyses.length > 0) {
-    const timeOfDayCounts: Record<string, number> = {
-      morning: 0,
-      afternoon: 0,
-      evening: 0,
-      night: 0
-    };
-    
-    recentAnalyses.forEach(a => {
-      timeOfDayCounts[a.timeOfDay] = (timeOfDayCounts[a.timeOfDay] || 0) + 1;
-    });
-    
-    peakCognitionTime = Object.entries(timeOfDayCounts).reduce((a, b) => 
-      timeOfDayCounts[a[0]] > timeOfDayCounts[b[0]] ? a : b
-    )[0] as 'morning' | 'afternoon' | 'evening';
-  }
-  
-  // Calculate Overall Trend - more sensitive to actual changes
-  const trends = [languageTrend, memoryTrend, attentionTrend, processingTrend].filter(t => t !== null) as number[];
-  let overallTrend: 'stable' | 'improving' | 'declining' | 'variable' | null = null;
+  // Peak Cognition Time: the daytime period with the best scores, not the most recordings
+  const peakCognitionTime = analyzeTimeOfDayPerformance(speechAnalyses, gameResults, talkSessions, trendWindowDays, now).peakPeriod
+    ?? existingProfile?.peakCognitionTime
+    ?? null;
   
-  if (trends.length > 0) {
-    const totalTrend = trends.reduce((a, b) => a + b, 0);
-    const positiveTrends = trends.filter(t => t > 0).length;
-    const negativeTrends = trends.filter(t => t < 0).length;
-    const significantPositive = trends.filter(t => t >= 3).length; // Significant improvement
-    const significantNegative = trends.filter(t => t <= -3).length; // Significant decline
-    
-    // If there are significant changes, use those
-    if (significantPositive >= 2 || (significantPositive >= 1 && totalTrend > 5)) {
-      overallTrend = 'improving';
-    } else if (significantNegative >= 2 || (significantNegative >= 1 && totalTrend < -5)) {
-      overallTrend = 'declining';
-    } else if (positiveTrends > negativeTrends && positiveTrends >= 2 && totalTrend > 2) {
-      overallTrend = 'improving';
-    } else if (negativeTrends > positiveTrends && negativeTrends >= 2 && totalTrend < -2) {
-      overallTrend = 'declining';
-    } else if (Math.abs(totalTrend) < 3 && positiveTrends === negativeTrends) {
-      overallTrend = 'stable';
-    } else {
-      overallTrend = 'variable';
-    }
-  }
+  // Overall trend only reflects statistically significant slopes
+  const overallTrend = summarizeOverallTrend([
+    trends.languageComplexity,
+    trends.memoryRecall,
+    trends.attention,
+    trends.processingSpeed
+  ]);
   
   return {
     userId: existingProfile?.userId || crypto.randomUUID(),
@@ -164,23 +123,27 @@ export function calculateCognitiveProfile(
     overallTrend,
     languageComplexity: {
       current: languageCurrent,
-      trend: languageTrend,
-      weeklyAverage: languageWeekly
+      trend: trendValue(trends.languageComplexity),
+      weeklyAverage: languageWeekly,
+      trendEstimate: trends.languageComplexity
     },
     memoryRecall: {
       current: memoryCurrent,
-      trend: memoryTrend,
-      weeklyAverage: memoryWeekly
+      trend: trendValue(trends.memoryRecall),
+      weeklyAverage: memoryWeekly,
+      trendEstimate: trends.memoryRecall
     },
     attention: {
       current: attentionCurrent,
-      trend: attentionTrend,
-      weeklyAverage: attentionWeekly
+      trend: trendValue(trends.attention),
+      weeklyAverage: attentionWeekly,
+      trendEstimate: trends.attention
     },
     processingSpeed: {
       current: processingCurrent,
-      trend: processingTrend,
-      weeklyAverage: processingWeekly
+      trend: trendValue(trends.processingSpeed),
+      weeklyAverage: processingWeekly,
+      trendEstimate: trends.processingSpeed
     },
     emotionalPatterns: {
       dominant,
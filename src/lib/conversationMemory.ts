@@ -0,0 +1,304 @@
+/**
+ * Conversation Memory
+ * Sage's long-term memory: durable facts (people, pets, upcoming events and
+ * preferences) pulled from what the user said in finished Talk sessions, and
+ * the ones worth bringing into a new conversation's prompt
+ */
+
+import type { MemoryFact, MemoryFactCategory, TalkSession } from '@/types';
+import { contentTerms } from './discourseCoherence';
+
+const RELATIONS = [
+  'wife', 'husband', 'partner', 'daughter', 'son', 'granddaughter', 'grandson', 'grandchild',
+  'great-grandson', 'great-granddaughter', 'sister', 'brother', 'mother', 'mom', 'mum', 'father',
+  'dad', 'niece', 'nephew', 'cousin', 'aunt', 'uncle', 'friend', 'best friend', 'neighbor',
+  'neighbour', 'daughter-in-law', 'son-in-law', 'carer', 'caregiver', 'doctor', 'nurse'
+];
+
+const PETS = ['dog', 'cat', 'puppy', 'kitten', 'bird', 'parrot', 'budgie', 'rabbit', 'bunny', 'horse', 'hamster', 'tortoise', 'goldfish'];
+
+// Longest first, so "daughter-in-law" wins over "daughter"
+const RELATION = [...RELATIONS].sort((a, b) => b.length - a.length).join('|');
+const PET = PETS.join('|');
+const NAMED = `(?:'s name is| is (?:called|named)|,? (?:called|named))`;
+
+const PERSON_PATTERNS = [
+  new RegExp(`\\b[Mm]y (${RELATION})${NAMED} ([A-Za-z][a-z]+)`, 'g'),
+  new RegExp(`\\b[Mm]y (${RELATION}),? ([A-Z][a-z]+)\\b`, 'g')
+];
+// "Sarah is my daughter"; name first, so swapped into the same groups below
+const PERSON_FIRST_PATTERN = new RegExp(`\\b([A-Z][a-z]+) is my (${RELATION})\\b`, 'g');
+
+const PET_PATTERNS = [
+  new RegExp(`\\b(?:[Mm]y|[Oo]ur) (${PET})${NAMED} ([A-Za-z][a-z]+)`, 'g'),
+  new RegExp(`\\b(?:[Mm]y|[Oo]ur) (${PET}),? ([A-Z][a-z]+)\\b`, 'g'),
+  new RegExp(`\\b(?:I|[Ww]e) (?:have|'ve got|have got) an? (${PET})(?: (?:called|named) ([A-Za-z][a-z]+))?`, 'g')
+];
+
+// Capitalized words that start clauses rather than name someone
+const NOT_NAMES = new Set(['i', 'he', 'she', 'it', 'they', 'we', 'this', 'that', 'there', 'who', 'and', 'but', 'so', 'is', 'was', 'the', 'a', 'an', 'oh', 'well', 'yes', 'no']);
+
+const LIKE_PATTERN = /\bI (?:really |absolutely |just |do )?(love|like|enjoy|adore) ([^,.;!?]+)/g;
+const DISLIKE_PATTERN = /\bI (?:really )?(?:hate|dislike|(?:don't|do not) (?:like|enjoy|care for)) ([^,.;!?]+)/g;
+const FAVORITE_PATTERN = /\b[Mm]y favou?rite ([a-z]+(?: [a-z]+)?) (?:is|are|was) ([^,.;!?]+)/g;
+
+// Objects too vague to remember ("I love that", "I like it when...")
+const VAGUE_OBJECT = /^(it|that|this|them|him|her|you|what|when|how|so|too|very|a lot|the idea)\b/i;
+const MAX_OBJECT_WORDS = 6;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const TIME_MARKER = new RegExp(`\\b(today|tonight|tomorrow|this weekend|next week|next month|(?:on |this |next )?(${WEEKDAYS.join('|')}))\\b`, 'i');
+const FUTURE_CUE = /\b(will|'ll|going to|gonna|coming|visiting|having|appointment|birthday|party|wedding|trip|holiday|vacation)\b/i;
+
+// How long after its date an event is still worth asking about
+const EVENT_FOLLOW_UP_DAYS = 7;
+const RECENT_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CATEGORY_WEIGHTS: Record<MemoryFactCategory, number> = {
+  person: 1.5,
+  pet: 1.5,
+  preference: 1,
+  event: 0.5 // Raised while the event is near
+};
+
+type ExtractedFact = Pick<MemoryFact, 'category' | 'subject' | 'statement' | 'keywords' | 'eventDate'>;
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * First-person wording from the user, turned around for Sage ("my garden" -> "their garden")
+ */
+function toThirdPerson(text: string): string {
+  return text
+    .replace(/\bmyself\b/gi, 'themselves')
+    .replace(/\bmy\b/gi, 'their')
+    .replace(/\bme\b/gi, 'them')
+    .replace(/\bI'm\b/g, "they're")
+    .replace(/\bI\b/g, 'they');
+}
+
+function trimObject(object: string): string | null {
+  const words = object.trim().split(/\s+/);
+  if (words.length === 0 || words.length > MAX_OBJECT_WORDS || VAGUE_OBJECT.test(object.trim())) return null;
+  return toThirdPerson(words.join(' '));
+}
+
+/**
+ * Midnight on the day a sentence's time marker refers to, relative to when it was said
+ */
+export function resolveEventDate(sentence: string, spokenAt: Date): Date | null {
+  const marker = sentence.match(TIME_MARKER)?.[1]?.toLowerCase();
+  if (!marker) return null;
+
+  const date = new Date(spokenAt);
+  date.setHours(0, 0, 0, 0);
+  const weekday = WEEKDAYS.findIndex(day => marker.endsWith(day));
+
+  if (marker === 'tomorrow') {
+    date.setDate(date.getDate() + 1);
+  } else if (marker === 'this weekend') {
+    date.setDate(date.getDate() + ((6 - date.getDay() + 7) % 7)); // Saturday
+  } else if (marker === 'next week') {
+    date.setDate(date.getDate() + 7);
+  } else if (marker === 'next month') {
+    date.setMonth(date.getMonth() + 1);
+  } else if (weekday >= 0) {
+    // The coming one, or a week later for "next"; said on the day itself, today
+    let days = (weekday - date.getDay() + 7) % 7;
+    if (marker.startsWith('next ') && days === 0) days = 7;
+    date.setDate(date.getDate() + days);
+  }
+  return date;
+}
+
+function extractPeople(sentence: string): ExtractedFact[] {
+  const found: Array<[string, string]> = [];
+  PERSON_PATTERNS.forEach(pattern => {
+    for (const match of sentence.matchAll(pattern)) found.push([match[1], match[2]]);
+  });
+  for (const match of sentence.matchAll(PERSON_FIRST_PATTERN)) found.push([match[2], match[1]]);
+
+  return found
+    .filter(([, name]) => !NOT_NAMES.has(name.toLowerCase()))
+    .map(([relation, rawName]) => {
+      const name = capitalize(rawName);
+      return {
+        category: 'person' as const,
+        subject: name.toLowerCase(),
+        statement: `Their ${relation.toLowerCase()} is ${name}.`,
+        keywords: contentTerms(`${name} ${relation}`)
+      };
+    });
+}
+
+function extractPets(sentence: string): ExtractedFact[] {
+  const facts: ExtractedFact[] = [];
+  PET_PATTERNS.forEach(pattern => {
+    for (const match of sentence.matchAll(pattern)) {
+      const animal = match[1].toLowerCase();
+      const name = match[2] && !NOT_NAMES.has(match[2].toLowerCase()) ? capitalize(match[2]) : null;
+      facts.push({
+        category: 'pet',
+        subject: name ? name.toLowerCase() : animal,
+        statement: name ? `They have a ${animal} named ${name}.` : `They have a ${animal}.`,
+        keywords: contentTerms(name ? `${animal} ${name}` : animal)
+      });
+    }
+  });
+  return facts;
+}
+
+function extractPreferences(sentence: string): ExtractedFact[] {
+  const facts: ExtractedFact[] = [];
+  for (const match of sentence.matchAll(LIKE_PATTERN)) {
+    const object = trimObject(match[2]);
+    if (!object) continue;
+    facts.push({
+      category: 'preference',
+      subject: object.toLowerCase(),
+      statement: `They ${match[1].toLowerCase()} ${object}.`,
+      keywords: contentTerms(object)
+    });
+  }
+  for (const match of sentence.matchAll(DISLIKE_PATTERN)) {
+    const object = trimObject(match[1]);
+    if (!object) continue;
+    facts.push({
+      category: 'preference',
+      subject: object.toLowerCase(),
+      statement: `They don't like ${object}.`,
+      keywords: contentTerms(object)
+    });
+  }
+  for (const match of sentence.matchAll(FAVORITE_PATTERN)) {
+    const object = trimObject(match[2]);
+    if (!object) continue;
+    facts.push({
+      category: 'preference',
+      subject: `favorite ${match[1]}`,
+      statement: `Their favorite ${match[1]} is ${object}.`,
+      keywords: contentTerms(`${match[1]} ${object}`)
+    });
+  }
+  return facts;
+}
+
+function extractEvent(sentence: string, spokenAt: Date): ExtractedFact | null {
+  if (!TIME_MARKER.test(sentence) || !FUTURE_CUE.test(sentence)) return null;
+  const keywords = contentTerms(sentence);
+  if (keywords.length === 0) return null;
+
+  const eventDate = resolveEventDate(sentence, spokenAt);
+  return {
+    category: 'event',
+    subject: sentence.toLowerCase().replace(/[^a-z0-9' ]/g, '').slice(0, 80),
+    statement: `They said: "${sentence}"`,
+    keywords,
+    ...(eventDate && { eventDate })
+  };
+}
+
+/**
+ * Facts from the user's turns in a finished Talk session
+ */
+export function extractMemoryFacts(session: TalkSession): MemoryFact[] {
+  const facts = new Map<string, MemoryFact>();
+
+  session.messages
+    .filter(message => message.role === 'user')
+    .forEach(message => {
+      const spokenAt = new Date(message.timestamp);
+      const sentences = message.content.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+
+      sentences.forEach(sentence => {
+        const event = extractEvent(sentence, spokenAt);
+        const extracted = [
+          ...extractPeople(sentence),
+          ...extractPets(sentence),
+          ...extractPreferences(sentence),
+          ...(event ? [event] : [])
+        ];
+        extracted.forEach(fact => {
+          facts.set(`${fact.category}:${fact.subject}`, {
+            ...fact,
+            id: crypto.randomUUID(),
+            sourceSessionId: session.id,
+            firstMentioned: spokenAt,
+            lastMentioned: spokenAt,
+            mentionCount: 1
+          });
+        });
+      });
+    });
+
+  return [...facts.values()];
+}
+
+/**
+ * Fold newly extracted facts into what Sage already remembers. A fact about
+ * the same subject replaces the old wording and counts as another mention.
+ * Returns the full list and the facts that were added or changed.
+ */
+export function mergeMemoryFacts(existing: MemoryFact[], extracted: MemoryFact[]): { facts: MemoryFact[]; changed: MemoryFact[] } {
+  const facts = [...existing];
+  const changed: MemoryFact[] = [];
+
+  extracted.forEach(fact => {
+    const index = facts.findIndex(f => f.category === fact.category && f.subject === fact.subject);
+    if (index === -1) {
+      facts.push(fact);
+      changed.push(fact);
+      return;
+    }
+    const updated: MemoryFact = {
+      ...facts[index],
+      statement: fact.statement,
+      keywords: fact.keywords,
+      eventDate: fact.eventDate ?? facts[index].eventDate,
+      sourceSessionId: fact.sourceSessionId,
+      lastMentioned: fact.lastMentioned,
+      mentionCount: facts[index].mentionCount + 1
+    };
+    facts[index] = updated;
+    changed.push(updated);
+  });
+
+  return { facts, changed };
+}
+
+/**
+ * Whether an event is still worth mentioning
+ */
+function isCurrentEvent(fact: MemoryFact, now: Date): boolean {
+  const date = new Date(fact.eventDate ?? fact.lastMentioned);
+  return now.getTime() - date.getTime() <= EVENT_FOLLOW_UP_DAYS * DAY_MS;
+}
+
+/**
+ * The facts most relevant to a conversation: ones sharing words with what is
+ * being said, people and pets, events coming up or just passed, and facts
+ * mentioned often or recently. With no conversation text yet (a new
+ * conversation), the people, pets and near events lead.
+ */
+export function selectRelevantFacts(facts: MemoryFact[], conversationText = '', limit = 8, now = new Date()): MemoryFact[] {
+  const terms = new Set(contentTerms(conversationText));
+
+  return facts
+    .filter(fact => fact.category !== 'event' || isCurrentEvent(fact, now))
+    .map(fact => {
+      const overlap = fact.keywords.filter(k => terms.has(k)).length;
+      let score = CATEGORY_WEIGHTS[fact.category] + overlap * 3 + Math.min(fact.mentionCount, 5) * 0.2;
+      if (fact.category === 'event' && fact.eventDate) {
+        const daysAway = (new Date(fact.eventDate).getTime() - now.getTime()) / DAY_MS;
+        if (daysAway <= EVENT_FOLLOW_UP_DAYS) score += 2;
+      }
+      if (now.getTime() - new Date(fact.lastMentioned).getTime() <= RECENT_DAYS * DAY_MS) score += 0.5;
+      return { fact, score };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ fact }) => fact);
+}
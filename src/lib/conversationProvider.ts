@@ -0,0 +1,164 @@
+/**
+ * Conversation Provider
+ * One interface for every language model Sage can talk through: OpenAI,
+ * Gemini, an OpenAI-compatible local server (Ollama, llama.cpp), the offline
+ * rule-based responder and a scripted mock. The provider and model come from
+ * the user's conversation settings, then the environment
+ * (NEXT_PUBLIC_LLM_PROVIDER, NEXT_PUBLIC_LLM_MODEL).
+ */
+
+import type { ConversationProviderId, ConversationSettings } from '@/types';
+import type { PromptContext } from './promptComposer';
+import { openaiProvider, localProvider } from './openaiApi';
+import { geminiProvider } from './geminiApi';
+import { offlineProvider, getFallbackResponse } from './offlineProvider';
+import { mockProvider } from './mockProvider';
+
+export type ChatHistory = Array<{ role: 'user' | 'sage'; content: string }>;
+
+export interface ConversationRequest {
+  userMessage: string;
+  history: ChatHistory; // Earlier turns, oldest first
+  context: PromptContext;
+  model?: string;
+  signal?: AbortSignal; // Aborted when the user interrupts Sage
+}
+
+export interface ConversationProvider {
+  id: ConversationProviderId;
+  label: string;
+  description: string;
+  defaultModel?: string; // Offline and mock providers have no model
+  isConfigured: () => boolean;
+  generateResponse: (request: ConversationRequest) => Promise<string>;
+  // Calls onDelta with each piece of the reply as it is generated. Providers
+  // without it deliver their whole reply at once.
+  streamResponse?: (request: ConversationRequest, onDelta: (text: string) => void) => Promise<void>;
+}
+
+export interface StreamOptions {
+  onDelta: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+// Turns of earlier conversation sent with each request
+const MAX_HISTORY = 10;
+
+const PROVIDERS: ConversationProvider[] = [openaiProvider, geminiProvider, localProvider, offlineProvider, mockProvider];
+
+const ENV_PROVIDER = process.env.NEXT_PUBLIC_LLM_PROVIDER?.trim().toLowerCase() || 'openai';
+const ENV_MODEL = process.env.NEXT_PUBLIC_LLM_MODEL?.trim() || undefined;
+
+if (!PROVIDERS.some(p => p.id === ENV_PROVIDER)) {
+  console.warn(`⚠️ Unknown NEXT_PUBLIC_LLM_PROVIDER "${ENV_PROVIDER}", using OpenAI. Options: ${PROVIDERS.map(p => p.id).join(', ')}`);
+}
+
+/**
+ * All providers, in the order Settings lists them
+ */
+export function getConversationProviders(): ConversationProvider[] {
+  return PROVIDERS;
+}
+
+/**
+ * Provider chosen by the environment
+ */
+export function getDefaultProviderId(): ConversationProviderId {
+  return PROVIDERS.find(p => p.id === ENV_PROVIDER)?.id ?? 'openai';
+}
+
+/**
+ * Provider and model to use for a user's settings. The environment's model
+ * only applies when the user hasn't picked a different provider.
+ */
+export function resolveConversationProvider(settings?: ConversationSettings): { provider: ConversationProvider; model?: string } {
+  const envProviderId = getDefaultProviderId();
+  const providerId = settings?.provider ?? envProviderId;
+  const provider = PROVIDERS.find(p => p.id === providerId) ?? offlineProvider;
+  const envModel = providerId === envProviderId ? ENV_MODEL : undefined;
+  return { provider, model: settings?.model?.trim() || envModel || provider.defaultModel };
+}
+
+/**
+ * Generate Sage's reply with the configured provider, falling back to the
+ * offline responder when it isn't configured, fails or returns nothing
+ */
+export async function generateSageResponse(
+  userMessage: string,
+  conversationHistory: ChatHistory = [],
+  context: PromptContext = {}
+): Promise<string> {
+  const { provider, model } = resolveConversationProvider(context.settings);
+  if (!provider.isConfigured()) {
+    console.warn(`${provider.label} is not configured, using fallback response`);
+    return getFallbackResponse(userMessage);
+  }
+
+  try {
+    const text = await provider.generateResponse({
+      userMessage,
+      history: conversationHistory.slice(-MAX_HISTORY),
+      context,
+      model
+    });
+    if (text.trim().length > 0) return text.trim();
+  } catch (error) {
+    console.error(`Error generating Sage response with ${provider.label}:`, error);
+  }
+  return getFallbackResponse(userMessage);
+}
+
+/**
+ * Stream Sage's reply with the configured provider, calling onDelta as text
+ * arrives, and resolve with the full reply. If the provider fails part way
+ * the text so far is kept; if it fails before any text, or isn't configured,
+ * the offline reply is delivered instead. When the signal is aborted the
+ * reply ends with whatever had arrived.
+ */
+export async function streamSageResponse(
+  userMessage: string,
+  conversationHistory: ChatHistory = [],
+  context: PromptContext = {},
+  { onDelta, signal }: StreamOptions
+): Promise<string> {
+  let received = '';
+  const emit = (text: string) => {
+    if (signal?.aborted || text.length === 0) return;
+    // Drop leading whitespace so the reply starts cleanly
+    const delta = received.length === 0 ? text.trimStart() : text;
+    if (delta.length === 0) return;
+    received += delta;
+    onDelta(delta);
+  };
+
+  const { provider, model } = resolveConversationProvider(context.settings);
+  if (!provider.isConfigured()) {
+    console.warn(`${provider.label} is not configured, using fallback response`);
+    emit(getFallbackResponse(userMessage));
+    return received;
+  }
+
+  const request: ConversationRequest = {
+    userMessage,
+    history: conversationHistory.slice(-MAX_HISTORY),
+    context,
+    model,
+    signal
+  };
+  try {
+    if (provider.streamResponse) {
+      await provider.streamResponse(request, emit);
+    } else {
+      emit(await provider.generateResponse(request));
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      console.error(`Error streaming Sage response with ${provider.label}:`, error);
+    }
+  }
+
+  if (received.trim().length === 0 && !signal?.aborted) {
+    emit(getFallbackResponse(userMessage));
+  }
+  return received.trim();
+}
@@ -70,15 +70,22 @@ export function extractDatesFromText(text: string): ExtractedDate[] {
   return uniqueDates;
 }
 
+// Words that describe a life event - expanded list
+const EVENT_KEYWORDS = /\b(married|graduated|moved|started|began|ended|retired|born|died|traveled|visited|met|got|had|bought|sold|built|created|won|achieved|accomplished|joined|left|opened|closed|moved to|moved from|got married|got divorced|had children|had a child|started working|started school|finished|completed|learned|taught|discovered|invented|founded|established|launched|published|awarded|received|celebrated|anniversary|birthday|wedding|graduation|promotion|retirement)\b/gi;
+
+/**
+ * Checks if text mentions a life event, dated or not
+ */
+export function mentionsEvent(text: string): boolean {
+  return new RegExp(EVENT_KEYWORDS.source, 'i').test(text);
+}
+
 /**
  * Checks if text mentions an event that might need a date
  */
 export function hasEventWithoutDate(text: string): boolean {
-  // Look for event keywords - expanded list
-  const eventKeywords = /\b(married|graduated|moved|started|began|ended|retired|born|died|traveled|visited|met|got|had|bought|sold|built|created|won|achieved|accomplished|joined|left|opened|closed|moved to|moved from|got married|got divorced|had children|had a child|started working|started school|finished|completed|learned|taught|discovered|invented|founded|established|launched|published|awarded|received|celebrated|anniversary|birthday|wedding|graduation|promotion|retirement)\b/gi;
-  
   // Check if there's an event keyword but no date nearby (within 100 characters for better detection)
-  const matches = [...text.matchAll(eventKeywords)];
+  const matches = [...text.matchAll(EVENT_KEYWORDS)];
   
   if (matches.length === 0) {
     return false; // No events detected
@@ -0,0 +1,192 @@
+/**
+ * Discourse Coherence
+ * Local (no network) model of how well each user turn follows the
+ * conversation: TF-IDF cosine similarity against Sage's preceding prompt and
+ * against the running conversation, used to measure on-topic answers and
+ * topic drift
+ */
+
+import type { CoherenceMetrics } from '@/types';
+import { tokenizeWords } from './lexicalMetrics';
+
+type Turn = { role: string; content: string };
+type TermVector = Map<string, number>;
+
+export interface TurnCoherence {
+  index: number; // Position in the message list
+  promptSimilarity: number | null; // Cosine with Sage's preceding turn, 0-1
+  contextSimilarity: number | null; // Cosine with the earlier conversation, 0-1
+  onTopic: boolean;
+  drift: boolean;
+}
+
+export interface CoherenceAnalysis {
+  metrics: CoherenceMetrics;
+  turns: TurnCoherence[];
+}
+
+const MIN_CONTENT_TERMS = 2; // Turns and prompts with fewer content words ("Yes.") aren't judged
+const CONTEXT_DECAY = 0.7; // Weight of each earlier turn relative to the one after it
+const ON_TOPIC_THRESHOLD = 0.1; // Prompt similarity for an answer to count as on topic
+const DRIFT_THRESHOLD = 0.05; // Below this against both prompt and context = topic drift
+const REPEAT_THRESHOLD = 0.9; // Similarity at which a user turn repeats an earlier one
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'if', 'then', 'than', 'because', 'as', 'of', 'to',
+  'in', 'on', 'at', 'for', 'with', 'by', 'from', 'about', 'into', 'up', 'down', 'out', 'off',
+  'over', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'do', 'does', 'did', 'have',
+  'has', 'had', 'will', 'would', 'can', 'could', 'should', 'may', 'might', 'must', 'shall',
+  'i', 'me', 'my', 'mine', 'you', 'your', 'yours', 'he', 'him', 'his', 'she', 'her', 'hers',
+  'it', 'its', 'we', 'us', 'our', 'they', 'them', 'their', 'this', 'that', 'these', 'those',
+  'what', 'which', 'who', 'whom', 'when', 'where', 'why', 'how', 'there', 'here', 'not', 'no',
+  'yes', 'very', 'really', 'just', 'too', 'also', 'all', 'some', 'any', 'much', 'many', 'more',
+  'oh', 'um', 'uh', 'well', 'okay', 'ok', 'yeah', 'like', 'know', 'think', 'get', 'got', 'go',
+  "i'm", "it's", "that's", "don't", "didn't", "i've", "you're", 'today', 'now', 'tell', 'sounds',
+  'hi', 'hello', 'doing', 'maybe', 'thing', 'things', 'else'
+]);
+
+function stem(word: string): string {
+  const base = word.replace(/'s$/, '');
+  const stemmed = base.replace(/(ing|ed|es|s)$/, '');
+  return stemmed.length >= 3 ? stemmed : base;
+}
+
+/**
+ * Content terms of a turn (stop words removed, lightly stemmed)
+ */
+export function contentTerms(text: string): string[] {
+  return tokenizeWords(text)
+    .filter(w => w.length > 1 && !STOP_WORDS.has(w))
+    .map(stem);
+}
+
+function termFrequencies(terms: string[]): TermVector {
+  const counts: TermVector = new Map();
+  terms.forEach(t => counts.set(t, (counts.get(t) ?? 0) + 1));
+  return counts;
+}
+
+/**
+ * Smoothed inverse document frequency over the turns of one conversation
+ */
+function inverseDocumentFrequencies(documents: string[][]): Map<string, number> {
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(terms => {
+    new Set(terms).forEach(t => documentFrequency.set(t, (documentFrequency.get(t) ?? 0) + 1));
+  });
+
+  const idf = new Map<string, number>();
+  documentFrequency.forEach((df, term) => {
+    idf.set(term, Math.log((1 + documents.length) / (1 + df)) + 1);
+  });
+  return idf;
+}
+
+function weigh(terms: string[], idf: Map<string, number>): TermVector {
+  const vector: TermVector = new Map();
+  termFrequencies(terms).forEach((count, term) => vector.set(term, count * (idf.get(term) ?? 1)));
+  return vector;
+}
+
+function addScaled(target: TermVector, source: TermVector, scale: number): void {
+  source.forEach((value, term) => target.set(term, (target.get(term) ?? 0) + value * scale));
+}
+
+/**
+ * Cosine similarity of two term vectors, 0-1
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((value, term) => {
+    normA += value * value;
+    const other = b.get(term);
+    if (other !== undefined) dot += value * other;
+  });
+  b.forEach(value => { normB += value * value; });
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function round(value: number | null, places: number = 2): number | null {
+  if (value === null) return null;
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Judge every user turn against Sage's prompt and the conversation so far
+ */
+export function analyzeCoherence(messages: Turn[]): CoherenceAnalysis {
+  const documents = messages.map(m => contentTerms(m.content));
+  const idf = inverseDocumentFrequencies(documents);
+  const vectors = documents.map(terms => weigh(terms, idf));
+
+  const turns: TurnCoherence[] = [];
+  const context: TermVector = new Map(); // Decayed sum of all earlier turns
+  const earlierUserTurns: TermVector[] = [];
+  let repeatedTurns = 0;
+
+  messages.forEach((message, index) => {
+    if (message.role === 'user') {
+      let promptIndex = index - 1;
+      while (promptIndex >= 0 && messages[promptIndex].role !== 'sage') promptIndex--;
+
+      // Open prompts ("How are you?") can't be answered off topic
+      const judged = promptIndex >= 0 &&
+        documents[promptIndex].length >= MIN_CONTENT_TERMS &&
+        documents[index].length >= MIN_CONTENT_TERMS;
+
+      const promptSimilarity = judged ? cosineSimilarity(vectors[index], vectors[promptIndex]) : null;
+      const contextSimilarity = judged && context.size > 0 ? cosineSimilarity(vectors[index], context) : null;
+      const onTopic = promptSimilarity !== null && promptSimilarity >= ON_TOPIC_THRESHOLD;
+      const drift = judged && (promptSimilarity ?? 0) < DRIFT_THRESHOLD && (contextSimilarity ?? 0) < DRIFT_THRESHOLD;
+
+      if (judged) {
+        turns.push({ index, promptSimilarity, contextSimilarity, onTopic, drift });
+        if (earlierUserTurns.some(v => cosineSimilarity(vectors[index], v) >= REPEAT_THRESHOLD)) repeatedTurns++;
+        earlierUserTurns.push(vectors[index]);
+      }
+    }
+
+    // Older turns fade as the conversation moves on
+    context.forEach((value, term) => context.set(term, value * CONTEXT_DECAY));
+    addScaled(context, vectors[index], 1);
+  });
+
+  const judgedTurns = turns.length;
+  return {
+    metrics: {
+      judgedTurns,
+      onTopicRate: judgedTurns > 0 ? round(turns.filter(t => t.onTopic).length / judgedTurns) : null,
+      driftRate: judgedTurns > 0 ? round(turns.filter(t => t.drift).length / judgedTurns) : null,
+      meanPromptSimilarity: round(average(turns.map(t => t.promptSimilarity).filter((s): s is number => s !== null))),
+      meanContextSimilarity: round(average(turns.map(t => t.contextSimilarity).filter((s): s is number => s !== null))),
+      repeatedTurns
+    },
+    turns
+  };
+}
+
+/**
+ * Coherence score (0-100) from the analysis. Mostly whether answers address
+ * the prompt, then how rarely the person drifts off topic, with a penalty for
+ * repeating the same turn.
+ */
+export function calculateCoherenceScore(metrics: CoherenceMetrics): number {
+  if (metrics.judgedTurns === 0 || metrics.onTopicRate === null || metrics.driftRate === null) {
+    return 50; // Neutral score when nothing could be judged
+  }
+
+  // Similarity of 0.4+ is a clearly related turn for short spoken replies
+  const relatedness = Math.min(1, Math.max(metrics.meanPromptSimilarity ?? 0, metrics.meanContextSimilarity ?? 0) / 0.4);
+  const repeatPenalty = Math.min(20, (metrics.repeatedTurns / metrics.judgedTurns) * 40);
+
+  const score = metrics.onTopicRate * 50 + (1 - metrics.driftRate) * 30 + relatedness * 20 - repeatPenalty;
+  return Math.round(Math.max(0, Math.min(100, score)));
+}
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectDisfluencies } from './disfluencyDetection';
+import type { TranscriptToken } from '@/types';
+
+// Recognition tokens as Web Speech gives them: bare words, no punctuation
+function tokensFor(content: string, gapAfter: Record<number, number> = {}): TranscriptToken[] {
+  let time = 0;
+  return content.split(/\s+/).map((word, i) => {
+    const token = { text: word.replace(/[^A-Za-z0-9']/g, ''), resultIndex: 0, firstHeardAt: time, finalizedAt: time };
+    time += 300 + (gapAfter[i] ?? 0);
+    return token;
+  });
+}
+
+const counts = (report: ReturnType<typeof detectDisfluencies>) => ({ ...report, events: report.events.length });
+
+test('a "like" set off by commas is a filler with or without tokens', () => {
+  const content = 'We went to the, like, big market on Sundays';
+  assert.equal(detectDisfluencies(content).fillerCount, 1);
+  assert.equal(detectDisfluencies(content, tokensFor(content)).fillerCount, 1);
+});
+
+test('"actually" set off as a repair counts the same with or without tokens', () => {
+  const content = 'It was Tuesday, actually Wednesday when she came';
+  assert.deepEqual(counts(detectDisfluencies(content, tokensFor(content))), counts(detectDisfluencies(content)));
+  assert.equal(detectDisfluencies(content, tokensFor(content)).selfCorrectionCount, 1);
+});
+
+test('token timings still mark long pauses', () => {
+  const content = 'I grew up in, um, Ohio';
+  const report = detectDisfluencies(content, tokensFor(content, { 4: 2500 }));
+  assert.equal(report.hesitationCount, 1);
+  assert.equal(report.events.find(e => e.type === 'hesitation')?.text, 'um, … Ohio');
+});
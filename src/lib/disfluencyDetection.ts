@@ -0,0 +1,272 @@
+/**
+ * Disfluency Detection
+ * Finds fillers, repetitions, false starts, self-corrections and hesitations
+ * in a user's turn. Heuristic, word-level detection - no NLP model needed.
+ */
+
+import type { Disfluency, DisfluencyReport, TranscriptToken } from '@/types';
+
+export const SINGLE_WORD_FILLERS = new Set(['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'mm', 'mhm']);
+const MULTI_WORD_FILLERS = [['you', 'know'], ['i', 'mean'], ['kind', 'of'], ['sort', 'of']];
+
+// "you know what/where/how..." and "kind of thing" are content, not fillers
+const MULTI_WORD_FILLER_EXCEPTIONS: Record<string, Set<string>> = {
+  'you know': new Set(['what', 'where', 'how', 'who', 'when', 'why', 'that', 'if', 'him', 'her', 'them', 'it', 'the', 'a']),
+  'i mean': new Set(['it', 'that', 'to']),
+  'kind of': new Set(['a', 'the', 'thing', 'person', 'man', 'woman']),
+  'sort of': new Set(['a', 'the', 'thing', 'person', 'man', 'woman'])
+};
+
+// Words after which "like" is usually a comparison or a verb, not a filler
+const LIKE_CONTENT_PRECEDERS = new Set(['i', 'you', 'we', 'they', 'would', "i'd", "you'd", 'looks', 'look', 'looked', 'feel', 'feels', 'felt', 'sounds', 'seems', 'just', "don't", "didn't", 'really', 'not', 'to']);
+
+// Words that leave a phrase unfinished when it is abandoned
+const FRAGMENT_ENDINGS = new Set(['the', 'a', 'an', 'to', 'of', 'was', 'is', 'were', 'and', 'my', 'his', 'her', 'going', 'gonna', 'with', 'for', 'in', 'at', 'on']);
+
+// Editing terms that introduce a repair ("Tuesday, I mean Wednesday")
+const EDITING_TERMS = [['i', 'mean'], ['no', 'wait'], ['or', 'rather'], ['sorry'], ['actually']];
+
+const HESITATION_GAP_MS = 2000;
+
+interface Word {
+  text: string; // Normalized
+  raw: string;
+  time: number | null;
+  punctuatedAfter: boolean; // Followed by a comma, dash or ellipsis in the transcript
+}
+
+// How far ahead to look for a word's token when the transcript and the
+// recognized tokens don't line up one-to-one
+const TOKEN_LOOKAHEAD = 3;
+
+function normalize(raw: string): string {
+  return raw.toLowerCase().replace(/[^a-z0-9']/g, '');
+}
+
+/**
+ * Words of the transcript, with timings taken from the recognition tokens.
+ * Punctuation comes from the transcript: raw tokens don't carry commas or dashes.
+ */
+function toWords(content: string, tokens?: TranscriptToken[]): Word[] {
+  const timed = (tokens ?? [])
+    .map(t => ({ text: normalize(t.text), time: t.firstHeardAt }))
+    .filter(t => t.text.length > 0);
+  let next = 0;
+
+  return content.split(/\s+/)
+    .map(raw => ({ raw, text: normalize(raw) }))
+    .filter(w => w.text.length > 0)
+    .map(({ raw, text }) => {
+      const offset = timed.slice(next, next + TOKEN_LOOKAHEAD + 1).findIndex(t => t.text === text);
+      const token = offset >= 0 ? timed[next + offset] : undefined;
+      if (token) next += offset + 1;
+      return {
+        text,
+        raw,
+        time: token?.time ?? null,
+        punctuatedAfter: /(,|-|—|\.\.\.|…)$/.test(raw)
+      };
+    });
+}
+
+function matchesAt(words: Word[], index: number, phrase: string[]): boolean {
+  return phrase.every((p, offset) => words[index + offset]?.text === p);
+}
+
+function sameSequence(words: Word[], a: number, b: number, length: number): boolean {
+  for (let i = 0; i < length; i++) {
+    if (!words[a + i] || !words[b + i] || words[a + i].text !== words[b + i].text) return false;
+  }
+  return true;
+}
+
+/**
+ * Detect fillers, including "like" used as a filler rather than a verb
+ */
+function detectFillers(words: Word[]): Disfluency[] {
+  const events: Disfluency[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+
+    if (SINGLE_WORD_FILLERS.has(word.text)) {
+      events.push({ type: 'filler', text: word.raw, wordIndex: i, time: word.time });
+      continue;
+    }
+
+    if (word.text === 'like') {
+      const prev = words[i - 1];
+      const next = words[i + 1];
+      const nextToFiller = (prev && SINGLE_WORD_FILLERS.has(prev.text)) || (next && SINGLE_WORD_FILLERS.has(next.text));
+      const setOffByPauses = word.punctuatedAfter && (!prev || prev.punctuatedAfter);
+      const afterContentWord = prev && LIKE_CONTENT_PRECEDERS.has(prev.text);
+      if (nextToFiller || (setOffByPauses && !afterContentWord)) {
+        events.push({ type: 'filler', text: word.raw, wordIndex: i, time: word.time });
+      }
+      continue;
+    }
+
+    for (const phrase of MULTI_WORD_FILLERS) {
+      if (!matchesAt(words, i, phrase)) continue;
+      const key = phrase.join(' ');
+      const following = words[i + phrase.length];
+      if (following && MULTI_WORD_FILLER_EXCEPTIONS[key]?.has(following.text)) continue;
+      events.push({
+        type: 'filler',
+        text: words.slice(i, i + phrase.length).map(w => w.raw).join(' '),
+        wordIndex: i,
+        time: word.time
+      });
+      i += phrase.length - 1;
+      break;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Detect immediate repetitions ("I I went", "we went we went") and
+ * false starts ("I was, I went to the store")
+ */
+function detectRestarts(words: Word[]): Disfluency[] {
+  const events: Disfluency[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    let matched = false;
+
+    // Repetition: a 1-4 word sequence said twice in a row
+    for (let length = 4; length >= 1 && !matched; length--) {
+      if (sameSequence(words, i, i + length, length)) {
+        events.push({
+          type: 'repetition',
+          text: words.slice(i, i + length).map(w => w.raw).join(' '),
+          wordIndex: i,
+          time: words[i].time
+        });
+        i += length - 1;
+        matched = true;
+      }
+    }
+    if (matched) continue;
+
+    // False start: a short unfinished fragment, then a restart with the same opening word
+    for (let length = 2; length <= 4; length++) {
+      const restart = words[i + length];
+      const lastOfFragment = words[i + length - 1];
+      if (
+        restart &&
+        restart.text === words[i].text &&
+        FRAGMENT_ENDINGS.has(lastOfFragment.text) &&
+        words[i + length + 1]?.text !== words[i + 1].text
+      ) {
+        events.push({
+          type: 'false_start',
+          text: words.slice(i, i + length).map(w => w.raw).join(' '),
+          wordIndex: i,
+          time: words[i].time
+        });
+        i += length - 1;
+        break;
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Detect self-corrections signalled by an editing term ("Tuesday, I mean Wednesday")
+ */
+function detectSelfCorrections(words: Word[]): Disfluency[] {
+  const events: Disfluency[] = [];
+
+  for (let i = 1; i < words.length - 1; i++) {
+    for (const term of EDITING_TERMS) {
+      if (!matchesAt(words, i, term)) continue;
+      // Needs something to repair before and a replacement after
+      if (i + term.length >= words.length) continue;
+      // "actually" and "sorry" only count when set off as a repair
+      if (term.length === 1 && !words[i - 1].punctuatedAfter && !words[i].punctuatedAfter) continue;
+
+      events.push({
+        type: 'self_correction',
+        text: words.slice(i - 1, i + term.length + 1).map(w => w.raw).join(' '),
+        wordIndex: i,
+        time: words[i].time
+      });
+      i += term.length;
+      break;
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Detect long silences between recognized words (requires token timings)
+ */
+function detectHesitations(words: Word[]): Disfluency[] {
+  const events: Disfluency[] = [];
+
+  for (let i = 1; i < words.length; i++) {
+    const prev = words[i - 1].time;
+    const curr = words[i].time;
+    if (prev !== null && curr !== null && curr - prev >= HESITATION_GAP_MS) {
+      events.push({ type: 'hesitation', text: `${words[i - 1].raw} … ${words[i].raw}`, wordIndex: i, time: prev });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Analyze one user turn for disfluencies
+ */
+export function detectDisfluencies(content: string, tokens?: TranscriptToken[]): DisfluencyReport {
+  const words = toWords(content, tokens);
+  const selfCorrections = detectSelfCorrections(words);
+  const repairIndexes = new Set(selfCorrections.map(e => e.wordIndex));
+
+  // An "I mean" that introduces a repair is counted as a self-correction only
+  const fillers = detectFillers(words).filter(f => !repairIndexes.has(f.wordIndex));
+  const restarts = detectRestarts(words);
+  const hesitations = detectHesitations(words);
+
+  const events = [...fillers, ...restarts, ...selfCorrections, ...hesitations]
+    .sort((a, b) => a.wordIndex - b.wordIndex);
+
+  return {
+    fillerCount: fillers.length,
+    repetitionCount: restarts.filter(e => e.type === 'repetition').length,
+    falseStartCount: restarts.filter(e => e.type === 'false_start').length,
+    selfCorrectionCount: selfCorrections.length,
+    hesitationCount: hesitations.length,
+    wordCount: words.length,
+    events
+  };
+}
+
+/**
+ * Total disfluency counts across several turns
+ */
+export function summarizeDisfluencies(reports: Array<DisfluencyReport | undefined>): Omit<DisfluencyReport, 'events'> {
+  return reports.reduce<Omit<DisfluencyReport, 'events'>>((total, report) => {
+    if (!report) return total;
+    return {
+      fillerCount: total.fillerCount + report.fillerCount,
+      repetitionCount: total.repetitionCount + report.repetitionCount,
+      falseStartCount: total.falseStartCount + report.falseStartCount,
+      selfCorrectionCount: total.selfCorrectionCount + report.selfCorrectionCount,
+      hesitationCount: total.hesitationCount + report.hesitationCount,
+      wordCount: total.wordCount + report.wordCount
+    };
+  }, {
+    fillerCount: 0,
+    repetitionCount: 0,
+    falseStartCount: 0,
+    selfCorrectionCount: 0,
+    hesitationCount: 0,
+    wordCount: 0
+  });
+}
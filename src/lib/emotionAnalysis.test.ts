@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeEmotion, getDominantEmotion } from './emotionAnalysis';
+
+const dominant = (text: string) => getDominantEmotion(analyzeEmotion(text).distribution);
+
+test('a negated emotion word takes its opposite', () => {
+  assert.equal(dominant("I'm not worried"), 'calm');
+  assert.equal(dominant('I am not happy'), 'sad');
+});
+
+test("a verb like stop or help ends the negation", () => {
+  assert.equal(dominant("I can't stop worrying"), 'anxious');
+  assert.equal(dominant("I couldn't help crying"), 'sad');
+});
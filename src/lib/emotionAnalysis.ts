@@ -0,0 +1,241 @@
+/**
+ * Emotion Analysis
+ * Estimates emotional state from what was said and, when the microphone
+ * stream was analyzed, how it was said. Words come from a small
+ * valence/arousal lexicon with negation ("not happy") and intensifiers
+ * ("very worried"); voice pitch variability, loudness variation and tempo
+ * adjust arousal. The result is a probability for each EmotionalState.
+ */
+
+import type { AudioFeatures, EmotionAnalysis, EmotionDistribution, EmotionalState } from '@/types';
+import { tokenizeWords } from './lexicalMetrics';
+
+interface LexiconEntry {
+  emotion: EmotionalState;
+  valence: number; // -1 to 1
+  arousal: number; // 0 to 1
+  weight: number; // Everyday words ("good", "fine") count less than clear ones ("delighted")
+}
+
+type EntryTuple = [EmotionalState, number, number, number?];
+
+const LEXICON = new Map<string, LexiconEntry>(Object.entries({
+  // Happy
+  happy: ['happy', 0.8, 0.6], glad: ['happy', 0.7, 0.5], wonderful: ['happy', 0.9, 0.6],
+  great: ['happy', 0.7, 0.6, 0.6], love: ['happy', 0.8, 0.6], loved: ['happy', 0.8, 0.6],
+  lovely: ['happy', 0.8, 0.45], joy: ['happy', 0.9, 0.7], beautiful: ['happy', 0.8, 0.5],
+  amazing: ['happy', 0.9, 0.7], excited: ['happy', 0.8, 0.85], laugh: ['happy', 0.8, 0.7],
+  laughed: ['happy', 0.8, 0.7], laughing: ['happy', 0.8, 0.7], smile: ['happy', 0.7, 0.5],
+  smiled: ['happy', 0.7, 0.5], fun: ['happy', 0.7, 0.65], enjoy: ['happy', 0.7, 0.5],
+  enjoyed: ['happy', 0.7, 0.5], delighted: ['happy', 0.9, 0.7], proud: ['happy', 0.7, 0.6],
+  grateful: ['happy', 0.7, 0.35], thankful: ['happy', 0.7, 0.35], fantastic: ['happy', 0.9, 0.7],
+  good: ['happy', 0.5, 0.45, 0.4], nice: ['happy', 0.5, 0.35, 0.5],
+  // Calm
+  calm: ['calm', 0.5, 0.1], peaceful: ['calm', 0.6, 0.1], relaxed: ['calm', 0.6, 0.15],
+  relaxing: ['calm', 0.6, 0.15], quiet: ['calm', 0.3, 0.1, 0.6], comfortable: ['calm', 0.5, 0.2],
+  rested: ['calm', 0.5, 0.2], content: ['calm', 0.6, 0.2, 0.6], gentle: ['calm', 0.4, 0.15],
+  safe: ['calm', 0.5, 0.2], cozy: ['calm', 0.6, 0.15], fine: ['calm', 0.3, 0.3, 0.4],
+  okay: ['calm', 0.2, 0.3, 0.3], ok: ['calm', 0.2, 0.3, 0.3], alright: ['calm', 0.2, 0.3, 0.3],
+  easy: ['calm', 0.3, 0.2, 0.5],
+  // Anxious
+  worried: ['anxious', -0.6, 0.7], worry: ['anxious', -0.6, 0.7], worrying: ['anxious', -0.6, 0.7],
+  anxious: ['anxious', -0.6, 0.8], nervous: ['anxious', -0.6, 0.75], scared: ['anxious', -0.7, 0.8],
+  afraid: ['anxious', -0.7, 0.75], frightened: ['anxious', -0.7, 0.8], panic: ['anxious', -0.8, 0.95],
+  stress: ['anxious', -0.6, 0.75], stressed: ['anxious', -0.6, 0.75], tense: ['anxious', -0.5, 0.7],
+  uneasy: ['anxious', -0.5, 0.6], unsure: ['anxious', -0.3, 0.5, 0.6], confused: ['anxious', -0.4, 0.6],
+  concerned: ['anxious', -0.4, 0.55],
+  // Sad
+  sad: ['sad', -0.7, 0.3], unhappy: ['sad', -0.7, 0.35], lonely: ['sad', -0.7, 0.25],
+  alone: ['sad', -0.4, 0.2, 0.6], miss: ['sad', -0.5, 0.3, 0.7], missed: ['sad', -0.5, 0.3, 0.7],
+  tired: ['sad', -0.3, 0.1, 0.6], exhausted: ['sad', -0.5, 0.15], depressed: ['sad', -0.8, 0.2],
+  cry: ['sad', -0.7, 0.5], cried: ['sad', -0.7, 0.5], crying: ['sad', -0.7, 0.5],
+  grief: ['sad', -0.8, 0.3], hurt: ['sad', -0.6, 0.5], empty: ['sad', -0.6, 0.2],
+  hopeless: ['sad', -0.8, 0.2], sorry: ['sad', -0.3, 0.3, 0.5], died: ['sad', -0.7, 0.3],
+  // Agitated
+  angry: ['agitated', -0.8, 0.9], mad: ['agitated', -0.7, 0.85], furious: ['agitated', -0.9, 0.95],
+  frustrated: ['agitated', -0.7, 0.8], frustrating: ['agitated', -0.7, 0.8], annoyed: ['agitated', -0.6, 0.7],
+  annoying: ['agitated', -0.6, 0.7], irritated: ['agitated', -0.6, 0.7], upset: ['agitated', -0.6, 0.7],
+  hate: ['agitated', -0.8, 0.8], terrible: ['agitated', -0.7, 0.7], awful: ['agitated', -0.7, 0.7],
+  ridiculous: ['agitated', -0.5, 0.7]
+} satisfies Record<string, EntryTuple>).map(([word, [emotion, valence, arousal, weight = 1]]) => [
+  word,
+  { emotion, valence, arousal, weight }
+]));
+
+const NEGATORS = new Set(['not', 'never', 'no', 'hardly', 'barely', 'nobody', 'nothing', 'without']);
+const NEGATION_SCOPE = 3; // Words after a negator that it applies to
+// Verbs that turn a negation around ("can't stop worrying" is still worrying)
+const NEGATION_REVERSERS = new Set([
+  'stop', 'stopped', 'help', 'quit', 'keep', 'kept', 'avoid', 'resist', 'shake', 'hide', 'escape'
+]);
+
+const INTENSIFIERS = new Map<string, number>(Object.entries({
+  very: 1.5, really: 1.4, so: 1.4, extremely: 1.8, too: 1.3, quite: 1.2, incredibly: 1.7,
+  terribly: 1.6, totally: 1.5, completely: 1.5, pretty: 1.2,
+  bit: 0.6, slightly: 0.6, somewhat: 0.7, fairly: 0.8, kind: 0.6, sort: 0.6
+}));
+const INTENSIFIER_SCOPE = 2;
+
+// Words that end a negation's or intensifier's reach ("so" only when it isn't "so happy")
+const SCOPE_BREAKS = new Set(['and', 'but', 'or', 'because', 'so', 'then', 'although', 'though']);
+
+// What a negated emotion word most plausibly means ("not worried" is calm)
+const NEGATED_EMOTION: Record<EmotionalState, EmotionalState> = {
+  happy: 'sad',
+  calm: 'anxious',
+  anxious: 'calm',
+  sad: 'neutral',
+  agitated: 'calm',
+  neutral: 'neutral'
+};
+const NEGATED_WEIGHT = 0.5; // "not happy" is weaker evidence than "sad"
+
+// Where each state sits in valence/arousal space (circumplex model)
+const STATE_CENTERS: Record<EmotionalState, { valence: number; arousal: number }> = {
+  happy: { valence: 0.7, arousal: 0.6 },
+  calm: { valence: 0.4, arousal: 0.2 },
+  anxious: { valence: -0.5, arousal: 0.7 },
+  sad: { valence: -0.6, arousal: 0.25 },
+  agitated: { valence: -0.6, arousal: 0.85 },
+  neutral: { valence: 0, arousal: 0.4 }
+};
+const CENTER_SPREAD = 0.35; // How quickly a state's likelihood falls off with distance
+const NEUTRAL_POINT = STATE_CENTERS.neutral;
+
+const STATES = Object.keys(STATE_CENTERS) as EmotionalState[];
+
+interface EmotionCue {
+  emotion: EmotionalState;
+  valence: number;
+  arousal: number;
+  weight: number;
+}
+
+function clamp(value: number, low: number, high: number): number {
+  return Math.max(low, Math.min(high, value));
+}
+
+function scale(value: number, low: number, high: number): number {
+  return clamp((value - low) / (high - low), 0, 1);
+}
+
+/**
+ * Emotion words in a sentence with negation and intensity applied
+ */
+function findCues(sentence: string): EmotionCue[] {
+  const words = tokenizeWords(sentence);
+  const cues: EmotionCue[] = [];
+  let negatedUntil = -1;
+  let intensity = 1;
+  let intensifiedUntil = -1;
+
+  words.forEach((word, i) => {
+    const multiplier = INTENSIFIERS.get(word);
+    if (multiplier !== undefined && (word !== 'so' || LEXICON.has(words[i + 1] ?? ''))) {
+      intensity = multiplier;
+      intensifiedUntil = i + INTENSIFIER_SCOPE;
+      return;
+    }
+    if (SCOPE_BREAKS.has(word)) {
+      negatedUntil = -1;
+      intensifiedUntil = -1;
+      return;
+    }
+    if (NEGATORS.has(word) || word.endsWith("n't")) {
+      negatedUntil = i + NEGATION_SCOPE;
+      return;
+    }
+    if (NEGATION_REVERSERS.has(word)) {
+      negatedUntil = -1;
+      return;
+    }
+
+    const entry = LEXICON.get(word);
+    if (!entry) return;
+
+    const negated = i <= negatedUntil;
+    const boost = i <= intensifiedUntil && !negated ? intensity : 1; // "not very happy" is just unhappy
+    cues.push({
+      emotion: negated ? NEGATED_EMOTION[entry.emotion] : entry.emotion,
+      valence: clamp(entry.valence * boost * (negated ? -NEGATED_WEIGHT : 1), -1, 1),
+      arousal: negated ? (entry.arousal + NEUTRAL_POINT.arousal) / 2 : clamp(entry.arousal * (boost > 1 ? 1.1 : 1), 0, 1),
+      weight: entry.weight * boost * (negated ? NEGATED_WEIGHT : 1)
+    });
+    intensifiedUntil = -1;
+  });
+
+  return cues;
+}
+
+/**
+ * Arousal (0-1) from the voice: pitch variability, loudness variation and
+ * speaking tempo, or null without prosody
+ */
+export function estimateProsodicArousal(audio: AudioFeatures | null | undefined, wordCount: number): number | null {
+  const prosody = audio?.prosody;
+  if (!prosody) return null;
+
+  const components: number[] = [scale(prosody.energyVariability, 0.3, 1)];
+  if (prosody.pitchVariability !== null) components.push(scale(prosody.pitchVariability, 1, 5)); // Monotone to animated
+  if (audio.speakingTime > 0 && wordCount > 0) {
+    components.push(scale((wordCount / audio.speakingTime) * 60, 90, 180)); // Words per minute
+  }
+  return components.reduce((a, b) => a + b, 0) / components.length;
+}
+
+/**
+ * Probability of each emotional state for a transcript, optionally using
+ * prosody from the microphone stream
+ */
+export function analyzeEmotion(text: string, audio?: AudioFeatures | null): EmotionAnalysis {
+  const cues = text.split(/[.!?,;]+/).flatMap(findCues);
+  const evidence = cues.reduce((sum, cue) => sum + cue.weight, 0);
+
+  const valence = evidence > 0
+    ? cues.reduce((sum, cue) => sum + cue.valence * cue.weight, 0) / evidence
+    : NEUTRAL_POINT.valence;
+  const textArousal = evidence > 0
+    ? cues.reduce((sum, cue) => sum + cue.arousal * cue.weight, 0) / evidence
+    : NEUTRAL_POINT.arousal;
+
+  // The voice carries arousal better than valence, so prosody only moves arousal
+  const prosodicArousal = estimateProsodicArousal(audio, tokenizeWords(text).length);
+  const textWeight = Math.min(1, evidence);
+  const arousal = prosodicArousal === null
+    ? textArousal
+    : (textArousal * textWeight + prosodicArousal) / (textWeight + 1);
+
+  // Each state's score: its word evidence plus how close the overall
+  // valence/arousal point sits to the state's center
+  const scores = {} as EmotionDistribution;
+  STATES.forEach(state => {
+    const center = STATE_CENTERS[state];
+    const distanceSquared = Math.pow(valence - center.valence, 2) + Math.pow(arousal - center.arousal, 2);
+    const proximity = Math.exp(-distanceSquared / (2 * CENTER_SPREAD * CENTER_SPREAD));
+    const wordEvidence = cues.filter(c => c.emotion === state).reduce((sum, c) => sum + c.weight, 0);
+    scores[state] = wordEvidence + proximity;
+  });
+
+  const total = STATES.reduce((sum, state) => sum + scores[state], 0);
+  const distribution = {} as EmotionDistribution;
+  STATES.forEach(state => {
+    distribution[state] = Math.round((scores[state] / total) * 1000) / 1000;
+  });
+
+  return {
+    distribution,
+    valence: Math.round(valence * 100) / 100,
+    arousal: Math.round(arousal * 100) / 100,
+    usedProsody: prosodicArousal !== null
+  };
+}
+
+/**
+ * Most likely state in a distribution (neutral on ties)
+ */
+export function getDominantEmotion(distribution: EmotionDistribution): EmotionalState {
+  return STATES.reduce<EmotionalState>(
+    (best, state) => (distribution[state] > distribution[best] ? state : best),
+    'neutral'
+  );
+}
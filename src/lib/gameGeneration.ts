@@ -0,0 +1,355 @@
+/**
+ * Game Generation
+ * Server-side AI generation of brain game content and lenient answer
+ * checking, used by the /api/games routes. Each generator throws when the
+ * model's reply can't be used, so callers can fall back to the built-in games.
+ */
+
+import type OpenAI from 'openai';
+
+/**
+ * Safely extract and parse JSON from API response text
+ * Handles cases where the API returns extra text before or after JSON
+ */
+function parseJSONFromText(text: string): any {
+  // Remove markdown code blocks if present
+  text = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+  
+  // Try to find JSON object boundaries more precisely
+  // Look for the first { and find the matching closing }
+  let startIdx = text.indexOf('{');
+  if (startIdx === -1) {
+    throw new Error('No JSON object found in response');
+  }
+  
+  // Find the matching closing brace
+  let braceCount = 0;
+  let endIdx = startIdx;
+  
+  for (let i = startIdx; i < text.length; i++) {
+    if (text[i] === '{') braceCount++;
+    if (text[i] === '}') braceCount--;
+    if (braceCount === 0) {
+      endIdx = i;
+      break;
+    }
+  }
+  
+  if (braceCount !== 0) {
+    throw new Error('Invalid JSON structure - unmatched braces');
+  }
+  
+  const jsonStr = text.substring(startIdx, endIdx + 1);
+  
+  try {
+    return JSON.parse(jsonStr);
+  } catch (error) {
+    // If parsing fails, try to find JSON array instead
+    startIdx = text.indexOf('[');
+    if (startIdx !== -1) {
+      braceCount = 0;
+      for (let i = startIdx; i < text.length; i++) {
+        if (text[i] === '[') braceCount++;
+        if (text[i] === ']') braceCount--;
+        if (braceCount === 0) {
+          return JSON.parse(text.substring(startIdx, i + 1));
+        }
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Text of the first choice in a completion, or an error when empty
+ */
+function getCompletionText(completion: OpenAI.Chat.Completions.ChatCompletion): string {
+  const text = completion.choices[0]?.message?.content?.trim();
+  if (!text) throw new Error('No response from API');
+  return text;
+}
+
+/**
+ * Generate a memory game (story + questions)
+ */
+export async function generateMemoryGame(client: OpenAI): Promise<{
+  id: string;
+  type: 'story';
+  content: string;
+  questions: Array<{ question: string; correctAnswer: string }>;
+}> {
+  const completion = await client.chat.completions.create({
+    model: 'gpt-4o-mini',
+    messages: [
+      {
+        role: 'system',
+        content: `You are creating memory recall games for seniors. Generate a simple, engaging story (3-5 sentences) about everyday activities, family, hobbies, or community events. Then create 4 questions about specific details from the story. Keep stories warm and relatable. Questions should test memory of names, places, times, objects, or actions mentioned in the story.`
+      },
+      {
+        role: 'user',
+        content: `Generate a new memory recall game with:
+1. A short story (3-5 sentences) about everyday life
+2. 4 questions about specific details from the story
+3. Each question should have a clear, simple correct answer
+
+Return ONLY valid JSON in this exact format:
+{
+  "content": "the story text here",
+  "questions": [
+    {"question": "question 1", "correctAnswer": "answer 1"},
+    {"question": "question 2", "correctAnswer": "answer 2"},
+    {"question": "question 3", "correctAnswer": "answer 3"},
+    {"question": "question 4", "correctAnswer": "answer 4"}
+  ]
+}`
+      }
+    ],
+    temperature: 0.8,
+    max_tokens: 500
+  });
+
+  // Parse JSON response safely
+  const game = parseJSONFromText(getCompletionText(completion));
+
+  // Validate structure
+  if (!game.content || !game.questions || !Array.isArray(game.questions)) {
+    throw new Error('Invalid game structure');
+  }
+
+  return {
+    id: `memory-ai-${Date.now()}`,
+    type: 'story' as const,
+    content: game.content,
+    questions: game.questions.map((q: any) => ({
+      question: q.question,
+      correctAnswer: q.correctAnswer
+    }))
+  };
+}
+
+/**
+ * Generate an attention game
+ */
+export async function generateAttentionGame(client: OpenAI): Promise<{
+  id: string;
+  type: 'counting';
+  content: string;
+  targetWord: string;
+  correctCount: number;
+}> {
+  const completion = await client.chat.completions.create({
+    model: 'gpt-4o-mini',
+    messages: [
+      {
+        role: 'system',
+        content: `You are creating attention and focus games for seniors. Generate a short paragraph (4-6 sentences) that naturally repeats a specific word 4-6 times. The word should be a common, simple word.`
+      },
+      {
+        role: 'user',
+        content: `Generate a new attention game with:
+1. A short paragraph (4-6 sentences) that naturally repeats a common word 4-6 times
+2. The target word to count
+3. The exact count of how many times the word appears
+
+Return ONLY valid JSON in this exact format:
+{
+  "content": "the paragraph text here",
+  "targetWord": "the word to count",
+  "correctCount": 4
+}`
+      }
+    ],
+    temperature: 0.8,
+    max_tokens: 300
+  });
+
+  const jsonMatch = getCompletionText(completion).match(/\{[\s\S]*\}/);
+  if (!jsonMatch) throw new Error('No JSON found in response');
+
+  const game = JSON.parse(jsonMatch[0]);
+
+  if (!game.content || !game.targetWord || typeof game.correctCount !== 'number') {
+    throw new Error('Invalid game structure');
+  }
+
+  return {
+    id: `attention-ai-${Date.now()}`,
+    type: 'counting' as const,
+    content: game.content,
+    targetWord: game.targetWord,
+    correctCount: game.correctCount
+  };
+}
+
+/**
+ * Generate a language game
+ */
+export async function generateLanguageGame(client: OpenAI): Promise<{
+  id: string;
+  type: 'sentence_completion' | 'naming' | 'description';
+  prompt: string;
+  expectedResponses: string[];
+  difficultyLevel: 1 | 2 | 3;
+}> {
+  const gameTypes = ['sentence_completion', 'naming', 'description'];
+  const selectedType = gameTypes[Math.floor(Math.random() * gameTypes.length)] as 'sentence_completion' | 'naming' | 'description';
+
+  const completion = await client.chat.completions.create({
+    model: 'gpt-4o-mini',
+    messages: [
+      {
+        role: 'system',
+        content: `You are creating language formation games for seniors. Generate simple, clear prompts that test language skills.`
+      },
+      {
+        role: 'user',
+        content: `Generate a ${selectedType} language game. For sentence_completion, provide an incomplete sentence. For naming, ask to name 3+ items in a category. For description, ask to describe something.
+
+Return ONLY valid JSON in this exact format:
+{
+  "prompt": "the prompt/question text",
+  "type": "${selectedType}",
+  "expectedResponses": ["answer1", "answer2", "answer3"],
+  "difficultyLevel": 1
+}`
+      }
+    ],
+    temperature: 0.8,
+    max_tokens: 300
+  });
+
+  const game = parseJSONFromText(getCompletionText(completion));
+
+  if (!game.prompt || !game.expectedResponses || !Array.isArray(game.expectedResponses)) {
+    throw new Error('Invalid game structure');
+  }
+
+  return {
+    id: `language-ai-${Date.now()}`,
+    prompt: game.prompt,
+    type: selectedType,
+    expectedResponses: game.expectedResponses,
+    difficultyLevel: (game.difficultyLevel || 1) as 1 | 2 | 3
+  };
+}
+
+/**
+ * Generate a category sorting game
+ */
+export async function generateCategorySortingGame(client: OpenAI): Promise<{
+  id: string;
+  type: 'single_choice' | 'multiple_choice';
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  category: string;
+  difficultyLevel: 1 | 2 | 3;
+}> {
+  const categories = [
+    { name: 'vegetables', examples: ['carrot', 'broccoli', 'lettuce'] },
+    { name: 'fruits', examples: ['apple', 'banana', 'orange'] },
+    { name: 'animals', examples: ['dog', 'cat', 'bird'] },
+    { name: 'colors', examples: ['red', 'blue', 'green'] },
+    { name: 'tools', examples: ['hammer', 'screwdriver', 'wrench'] },
+    { name: 'clothing', examples: ['shirt', 'pants', 'shoes'] }
+  ];
+
+  const selectedCategory = categories[Math.floor(Math.random() * categories.length)];
+  const wrongOptions = ['airplane', 'book', 'computer', 'mountain', 'ocean', 'music'];
+
+  const completion = await client.chat.completions.create({
+    model: 'gpt-4o-mini',
+    messages: [
+      {
+        role: 'user',
+        content: `Generate a category sorting question for "${selectedCategory.name}". Provide:
+1. A question asking which item belongs to the category
+2. 3 options: one correct answer from ${selectedCategory.examples.join(', ')}, and 2 wrong answers from ${wrongOptions.join(', ')}
+3. Shuffle the options
+
+Return ONLY valid JSON:
+{
+  "question": "Which one is a ${selectedCategory.name}?",
+  "options": ["correct", "wrong1", "wrong2"],
+  "correctAnswer": "correct",
+  "category": "${selectedCategory.name}",
+  "difficultyLevel": 1
+}`
+      }
+    ],
+    temperature: 0.7,
+    max_tokens: 200
+  });
+
+  const game = parseJSONFromText(getCompletionText(completion));
+
+  if (!game.question || !game.options || !game.correctAnswer) {
+    throw new Error('Invalid game structure');
+  }
+
+  return {
+    id: `category-ai-${Date.now()}`,
+    type: 'single_choice' as const,
+    question: game.question,
+    options: game.options,
+    correctAnswer: game.correctAnswer,
+    category: selectedCategory.name,
+    difficultyLevel: 1 as const
+  };
+}
+
+/**
+ * Ask the model whether a user's answer matches the correct answer, allowing
+ * for variations, typos, casing and similar meanings. Null when the reply
+ * can't be read, so the caller can fall back to local matching.
+ */
+export async function checkAnswer(
+  client: OpenAI,
+  userAnswer: string,
+  correctAnswer: string,
+  question?: string
+): Promise<boolean | null> {
+  const completion = await client.chat.completions.create({
+    model: 'gpt-4o-mini',
+    messages: [
+      {
+        role: 'system',
+        content: `You are validating answers for a cognitive game. Be lenient - accept answers that are:
+- Similar in meaning (synonyms)
+- Have minor spelling errors
+- Use different casing (uppercase/lowercase)
+- Use different word forms (singular/plural)
+- Are equivalent (e.g., "3" and "three", "Monday" and "Mon")
+
+Return ONLY "true" or "false" as a JSON boolean.`
+      },
+      {
+        role: 'user',
+        content: `Question: ${question || 'N/A'}
+Correct answer: "${correctAnswer}"
+User answer: "${userAnswer}"
+
+Is the user's answer correct (considering variations, typos, casing, and similar meanings)? Return ONLY true or false as JSON: {"isCorrect": true/false}`
+      }
+    ],
+    temperature: 0.3, // Lower temperature for more consistent validation
+    max_tokens: 50
+  });
+
+  const text = completion.choices[0]?.message?.content?.trim();
+  if (!text) return null;
+
+  // Try to parse JSON response
+  try {
+    const result = parseJSONFromText(text);
+    if (typeof result.isCorrect === 'boolean') {
+      return result.isCorrect;
+    }
+  } catch {
+    // If JSON parsing fails, check for boolean strings
+    if (text.toLowerCase().includes('true')) return true;
+    if (text.toLowerCase().includes('false')) return false;
+  }
+
+  return null;
+}
@@ -0,0 +1,414 @@
+/**
+ * Insight Engine
+ * Runs a list of declarative rules whenever new data arrives and turns their
+ * findings into deduplicated caregiver Insights.
+ *
+ * To add a rule, append an InsightRule to INSIGHT_RULES: pick the triggers it
+ * should run on, a condition, and the text. `{placeholders}` in the
+ * description are filled from the values the condition returns.
+ */
+
+import type { CognitiveGameResult, HealthCard, Insight, SpeechAnalysis, TalkSession } from '@/types';
+import { calculateDomainTrends } from './trendAnalysis';
+import { detectRepeatedQuestions } from './repeatedQuestions';
+
+export type InsightTrigger = 'speech_analysis' | 'game_result' | 'talk_session' | 'health_card';
+
+export type InsightEvent =
+  | { trigger: 'speech_analysis'; analysis: SpeechAnalysis }
+  | { trigger: 'game_result'; result: CognitiveGameResult }
+  | { trigger: 'talk_session'; session: TalkSession }
+  | { trigger: 'health_card'; card: HealthCard };
+
+export interface InsightContext {
+  event: InsightEvent;
+  speechAnalyses: SpeechAnalysis[];
+  gameResults: CognitiveGameResult[];
+  talkSessions: TalkSession[];
+  healthCards: HealthCard[];
+  now: Date;
+}
+
+export interface InsightFinding {
+  key?: string; // Distinguishes findings of the same rule (e.g. which question)
+  values: Record<string, string | number>;
+  severity?: Insight['severity']; // Overrides the rule's default
+  type?: Insight['type'];
+}
+
+export type InsightCondition = (context: InsightContext) => InsightFinding | null;
+
+export interface InsightRule {
+  id: string;
+  triggers: InsightTrigger[];
+  type: Insight['type'];
+  severity: Insight['severity'];
+  title: string;
+  description: string; // Template with {placeholders}
+  recommendation: string;
+  cooldownDays: number; // The same finding is not repeated within this period (0 = never repeated)
+  when: InsightCondition;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function since<T>(items: T[], getDate: (item: T) => Date, now: Date, fromDays: number, toDays = 0): T[] {
+  const from = now.getTime() - fromDays * DAY_MS;
+  const to = now.getTime() - toDays * DAY_MS;
+  return items.filter(item => {
+    const time = new Date(getDate(item)).getTime();
+    return time >= from && time <= to;
+  });
+}
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function fillTemplate(template: string, values: InsightFinding['values']): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    values[name] !== undefined ? String(values[name]) : match
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Condition builders
+// ---------------------------------------------------------------------------
+
+/**
+ * A speech metric's recent average has dropped compared with the weeks before
+ */
+export function speechMetricDrop(options: {
+  metric: (analysis: SpeechAnalysis) => number;
+  recentDays: number;
+  baselineDays: number;
+  minDrop: number;
+  minSamples: number;
+}): InsightCondition {
+  return ({ speechAnalyses, now }) => {
+    const recent = since(speechAnalyses, a => a.timestamp, now, options.recentDays).map(options.metric);
+    const earlier = since(speechAnalyses, a => a.timestamp, now, options.recentDays + options.baselineDays, options.recentDays)
+      .map(options.metric);
+    if (recent.length < options.minSamples || earlier.length < options.minSamples) return null;
+
+    const recentAverage = average(recent);
+    const baselineAverage = average(earlier);
+    const drop = baselineAverage - recentAverage;
+    if (drop < options.minDrop) return null;
+
+    return {
+      values: { recent: Math.round(recentAverage), baseline: Math.round(baselineAverage), drop: Math.round(drop) }
+    };
+  };
+}
+
+/**
+ * Certain emotional states make up a larger share of recent recordings than before
+ */
+export function emotionalShareIncrease(options: {
+  states: SpeechAnalysis['emotionalState'][];
+  recentDays: number;
+  baselineDays: number;
+  minShare: number; // percent
+  minIncrease: number; // percentage points
+  minSamples: number;
+}): InsightCondition {
+  const share = (analyses: SpeechAnalysis[]) =>
+    (analyses.filter(a => options.states.includes(a.emotionalState)).length / analyses.length) * 100;
+
+  return ({ speechAnalyses, now }) => {
+    const recent = since(speechAnalyses, a => a.timestamp, now, options.recentDays);
+    const earlier = since(speechAnalyses, a => a.timestamp, now, options.recentDays + options.baselineDays, options.recentDays);
+    if (recent.length < options.minSamples) return null;
+
+    const recentShare = share(recent);
+    const baselineShare = earlier.length >= options.minSamples ? share(earlier) : 0;
+    if (recentShare < options.minShare || recentShare - baselineShare < options.minIncrease) return null;
+
+    return { values: { recentShare: Math.round(recentShare), baselineShare: Math.round(baselineShare) } };
+  };
+}
+
+/**
+ * The same question (or a paraphrase of it) is asked on several different days
+ */
+export function repeatedQuestionAcrossDays(options: { days: number; minDays: number }): InsightCondition {
+  return ({ talkSessions, speechAnalyses, now }) => {
+    const repeated = detectRepeatedQuestions(talkSessions, speechAnalyses, {
+      windowDays: options.days,
+      minDays: options.minDays,
+      now
+    })[0];
+    if (!repeated) return null;
+
+    return {
+      key: repeated.key,
+      values: { question: repeated.representative, days: repeated.dayCount, count: repeated.count }
+    };
+  };
+}
+
+/**
+ * Missed or forgotten medication, from health cards and conversation
+ */
+export function missedMedicationMentions(options: { days: number; minMentions: number }): InsightCondition {
+  const missed = /\b(forgot|forget|forgotten|missed|skipped|didn't take|did not take|ran out)\b/i;
+  const medication = /\b(medication|medicine|meds|pills?|tablets?|prescription|dose)\b/i;
+  const mentionsMissed = (text: string) => missed.test(text) && medication.test(text);
+
+  return ({ healthCards, talkSessions, now }) => {
+    const cardMentions = since(healthCards, c => c.date, now, options.days)
+      .filter(c => c.category === 'medication' && mentionsMissed(c.description));
+    const cardSessions = new Set(cardMentions.map(c => c.sourceSessionId).filter(Boolean));
+
+    // Conversation mentions not already captured by a health card
+    const talkMentions = since(talkSessions, s => s.timestamp, now, options.days)
+      .filter(s => !cardSessions.has(s.id))
+      .filter(s => s.messages.some(m => m.role === 'user' && mentionsMissed(m.content)));
+
+    const count = cardMentions.length + talkMentions.length;
+    if (count < options.minMentions) return null;
+
+    return { values: { count }, severity: count >= 3 ? 'significant' : undefined };
+  };
+}
+
+/**
+ * Life-story facts restated in conversation that contradict the biography or
+ * what was said before
+ */
+export function lifeStoryContradictions(options: { days: number; minContradictions: number }): InsightCondition {
+  return ({ talkSessions, now }) => {
+    const contradictions = since(talkSessions, s => s.timestamp, now, options.days)
+      .flatMap(s => s.memoryProbes ?? [])
+      .filter(probe => probe.outcome === 'contradict');
+    if (contradictions.length < options.minContradictions) return null;
+
+    const latest = contradictions[contradictions.length - 1];
+    return {
+      values: { count: contradictions.length, claimed: latest.claimed ?? '', expected: latest.expected }
+    };
+  };
+}
+
+/**
+ * A cognitive domain shows a statistically significant downward trend
+ */
+export function significantDomainDecline(options: { windowDays: 7 | 30 | 90 }): InsightCondition {
+  const labels = {
+    languageComplexity: 'Language complexity',
+    memoryRecall: 'Memory recall',
+    attention: 'Attention',
+    processingSpeed: 'Processing speed'
+  };
+
+  return ({ speechAnalyses, gameResults, now }) => {
+    const trends = calculateDomainTrends(speechAnalyses, gameResults, options.windowDays, now);
+    const declining = (Object.keys(trends) as Array<keyof typeof trends>)
+      .filter(domain => trends[domain]?.direction === 'declining');
+    if (declining.length === 0) return null;
+
+    return {
+      key: declining.sort().join(','),
+      values: {
+        domains: declining.map(d => labels[d]).join(', '),
+        slope: Math.min(...declining.map(d => trends[d]!.slopePerWeek))
+      }
+    };
+  };
+}
+
+/**
+ * The newest speech analysis crosses a threshold
+ */
+export function latestSpeechMetricAbove(options: {
+  metric: (analysis: SpeechAnalysis) => number;
+  threshold: number;
+}): InsightCondition {
+  return ({ event }) => {
+    if (event.trigger !== 'speech_analysis') return null;
+    const value = options.metric(event.analysis);
+    return value > options.threshold ? { key: event.analysis.id, values: { value } } : null;
+  };
+}
+
+/**
+ * The newest game result reaches a high accuracy
+ */
+export function latestGameAccuracyAtLeast(options: { accuracy: number }): InsightCondition {
+  return ({ event }) => {
+    if (event.trigger !== 'game_result' || event.result.accuracy < options.accuracy) return null;
+    return {
+      key: event.result.id,
+      type: event.result.gameType === 'memory_recall' ? 'memory' : 'attention',
+      values: { accuracy: event.result.accuracy, game: event.result.gameType.replace(/_/g, ' ') }
+    };
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+export const INSIGHT_RULES: InsightRule[] = [
+  {
+    id: 'repeated_question_across_days',
+    triggers: ['talk_session', 'speech_analysis'],
+    type: 'memory',
+    severity: 'notable',
+    title: 'Same Question on Different Days',
+    description: '"{question}" (or something similar) was asked {count} times on {days} different days this week.',
+    recommendation: 'Repeating a question across days can be an early memory sign. Answering patiently each time helps; a note or calendar by their chair can also help.',
+    cooldownDays: 7,
+    when: repeatedQuestionAcrossDays({ days: 7, minDays: 2 })
+  },
+  {
+    id: 'life_story_contradiction',
+    triggers: ['talk_session'],
+    type: 'memory',
+    severity: 'notable',
+    title: 'Life Story Details Differ',
+    description: '{count} detail(s) of their life story told this week differed from what was recorded before, e.g. "{claimed}" where the record says "{expected}".',
+    recommendation: 'Mixing up dates and names now and then is normal. Gently check which version is right rather than correcting them, and mention a growing pattern to their doctor.',
+    cooldownDays: 7,
+    when: lifeStoryContradictions({ days: 7, minContradictions: 1 })
+  },
+  {
+    id: 'falling_vocabulary',
+    triggers: ['speech_analysis'],
+    type: 'language',
+    severity: 'notable',
+    title: 'Vocabulary Has Narrowed',
+    description: 'Vocabulary variety averaged {recent} this week, down from {baseline} over the previous month.',
+    recommendation: 'Reading together, talking about favorite topics and word games can help keep vocabulary active. Mention it to their doctor if it continues.',
+    cooldownDays: 7,
+    when: speechMetricDrop({
+      metric: a => a.metrics.vocabularyComplexity,
+      recentDays: 7,
+      baselineDays: 30,
+      minDrop: 10,
+      minSamples: 3
+    })
+  },
+  {
+    id: 'more_anxious_states',
+    triggers: ['speech_analysis'],
+    type: 'emotion',
+    severity: 'notable',
+    title: 'More Anxious Moments Lately',
+    description: 'Anxious or agitated tones were heard in {recentShare}% of recordings this week, compared with {baselineShare}% before.',
+    recommendation: 'Check for changes in routine, sleep, pain or medication. Calm, familiar activities and reassurance often help.',
+    cooldownDays: 7,
+    when: emotionalShareIncrease({
+      states: ['anxious', 'agitated'],
+      recentDays: 7,
+      baselineDays: 30,
+      minShare: 30,
+      minIncrease: 15,
+      minSamples: 3
+    })
+  },
+  {
+    id: 'missed_medication',
+    triggers: ['health_card', 'talk_session'],
+    type: 'pattern',
+    severity: 'notable',
+    title: 'Missed Medication Mentioned',
+    description: 'Forgotten or missed medication came up {count} time(s) in the last week.',
+    recommendation: 'A weekly pill organizer, phone reminders or a check-in call at medication time can help. Let their doctor or pharmacist know about missed doses.',
+    cooldownDays: 3,
+    when: missedMedicationMentions({ days: 7, minMentions: 1 })
+  },
+  {
+    id: 'significant_decline',
+    triggers: ['speech_analysis', 'game_result'],
+    type: 'pattern',
+    severity: 'notable',
+    title: 'Steady Decline Over the Month',
+    description: '{domains} has been trending down over the last 30 days (about {slope} points per week).',
+    recommendation: 'A steady trend is more meaningful than one bad day. Consider sharing the Insights report with their care team.',
+    cooldownDays: 14,
+    when: significantDomainDecline({ windowDays: 30 })
+  },
+  {
+    id: 'high_repetition',
+    triggers: ['speech_analysis'],
+    type: 'language',
+    severity: 'notable',
+    title: 'Increased Repetition Detected',
+    description: '{value} repeated phrases were detected in this conversation.',
+    recommendation: 'This is common and may indicate topic emphasis or mild memory loop.',
+    cooldownDays: 0,
+    when: latestSpeechMetricAbove({ metric: a => a.metrics.repetitionCount, threshold: 2 })
+  },
+  {
+    id: 'excellent_game',
+    triggers: ['game_result'],
+    type: 'attention',
+    severity: 'info',
+    title: 'Excellent Performance!',
+    description: 'Achieved {accuracy}% accuracy in {game} activity.',
+    recommendation: 'Great work! Consider trying more challenging activities.',
+    cooldownDays: 0,
+    when: latestGameAccuracyAtLeast({ accuracy: 90 })
+  }
+];
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether an equivalent insight was already raised within the cooldown.
+ * Insights saved before ruleKey was stored have none, so they match by
+ * title, and only inside the cooldown window.
+ */
+function isDuplicate(rule: InsightRule, ruleKey: string, existing: Insight[], now: Date): boolean {
+  const cooldownStart = now.getTime() - rule.cooldownDays * DAY_MS;
+  return existing.some(insight => {
+    const withinCooldown = new Date(insight.timestamp).getTime() >= cooldownStart;
+    if (insight.ruleKey === undefined) return insight.title === rule.title && withinCooldown;
+    return insight.ruleKey === ruleKey && (rule.cooldownDays === 0 || withinCooldown);
+  });
+}
+
+/**
+ * Run every rule that listens for this event and return the new insights
+ */
+export function generateInsights(
+  context: Omit<InsightContext, 'now'> & { now?: Date },
+  existingInsights: Insight[],
+  rules: InsightRule[] = INSIGHT_RULES
+): Insight[] {
+  const fullContext: InsightContext = { ...context, now: context.now ?? new Date() };
+  const insights: Insight[] = [];
+
+  rules
+    .filter(rule => rule.triggers.includes(fullContext.event.trigger))
+    .forEach(rule => {
+      let finding: InsightFinding | null;
+      try {
+        finding = rule.when(fullContext);
+      } catch (error) {
+        console.error(`Insight rule "${rule.id}" failed:`, error);
+        return;
+      }
+      if (!finding) return;
+
+      const ruleKey = finding.key ? `${rule.id}:${finding.key}` : rule.id;
+      if (isDuplicate(rule, ruleKey, [...insights, ...existingInsights], fullContext.now)) return;
+
+      insights.push({
+        id: crypto.randomUUID(),
+        timestamp: fullContext.now,
+        type: finding.type ?? rule.type,
+        severity: finding.severity ?? rule.severity,
+        title: rule.title,
+        description: fillTemplate(rule.description, finding.values),
+        recommendation: rule.recommendation,
+        ruleKey
+      });
+    });
+
+  return insights;
+}
@@ -0,0 +1,161 @@
+/**
+ * Lexical Metrics
+ * Shared measures of lexical-semantic richness used by speech analysis and
+ * CLI scoring: moving-average type-token ratio, word-frequency norms,
+ * propositional idea density, pronoun-to-noun ratio and empty-word rate
+ */
+
+import type { LexicalMetrics } from '@/types';
+import { getWordFrequencyRank, UNLISTED_WORD_RANK } from './wordFrequency';
+import { tagWords, type PosTag } from './posTagger';
+
+const MATTR_WINDOW = 50; // Words per moving window
+
+// Words that stand in for a more specific word the speaker could not find
+const EMPTY_WORDS = new Set([
+  'thing', 'things', 'stuff', 'something', 'whatsit', 'thingy', 'thingamajig', 'thingamabob',
+  'whatchamacallit', 'doohickey', 'gizmo', 'whatnot', 'whatever'
+]);
+const EMPTY_PHRASES = [['that', 'one'], ['you', 'know', 'what'], ['what', 'do', 'you', 'call', 'it'], ['whats', 'his', 'name'], ["what's", 'his', 'name'], ["what's", 'her', 'name']];
+
+type WordClass = 'pronoun' | 'noun' | 'verb' | 'adjective' | 'adverb' | 'preposition' | 'conjunction' | 'function';
+
+const WORD_CLASSES: Record<PosTag, WordClass> = {
+  PRON: 'pronoun',
+  NOUN: 'noun',
+  VERB: 'verb',
+  ADJ: 'adjective',
+  NUM: 'adjective',
+  ADV: 'adverb',
+  ADP: 'preposition',
+  CCONJ: 'conjunction',
+  SCONJ: 'conjunction',
+  REL: 'pronoun',
+  AUX: 'function',
+  DET: 'function',
+  PART: 'function',
+  INTJ: 'function'
+};
+
+/**
+ * Lowercase word tokens (letters and apostrophes)
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) || [];
+}
+
+/**
+ * Word class for lexical measures from the part-of-speech tagger.
+ * Contractions with an auxiliary or "not" ("i'm", "didn't") are function words.
+ */
+function classifyWords(words: string[]): WordClass[] {
+  const classes: WordClass[] = words.map(() => 'function');
+  const tokens = tagWords(words);
+  tokens.forEach((token, i) => {
+    if (tokens[i - 1]?.index === token.index) {
+      if (token.tag === 'AUX' || token.word === 'not') classes[token.index] = 'function';
+      return;
+    }
+    classes[token.index] = WORD_CLASSES[token.tag];
+  });
+  return classes;
+}
+
+/**
+ * Moving-average type-token ratio (0-1). Unlike raw TTR it does not fall as
+ * the transcript gets longer, so sessions of different length compare fairly.
+ */
+export function calculateMATTR(words: string[], windowSize: number = MATTR_WINDOW): number {
+  if (words.length === 0) return 0;
+  if (words.length <= windowSize) return new Set(words).size / words.length;
+
+  const counts = new Map<string, number>();
+  for (let i = 0; i < windowSize; i++) counts.set(words[i], (counts.get(words[i]) ?? 0) + 1);
+
+  let total = counts.size;
+  for (let i = windowSize; i < words.length; i++) {
+    const outgoing = words[i - windowSize];
+    const remaining = (counts.get(outgoing) ?? 1) - 1;
+    if (remaining === 0) counts.delete(outgoing);
+    else counts.set(outgoing, remaining);
+    counts.set(words[i], (counts.get(words[i]) ?? 0) + 1);
+    total += counts.size;
+  }
+
+  return total / (words.length - windowSize + 1) / windowSize;
+}
+
+function countEmptyWords(words: string[]): number {
+  let count = words.filter(w => EMPTY_WORDS.has(w)).length;
+  for (let i = 0; i < words.length; i++) {
+    const phrase = EMPTY_PHRASES.find(p => p.every((w, offset) => words[i + offset] === w));
+    if (phrase) {
+      count++;
+      i += phrase.length - 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * All lexical richness measures for a text
+ */
+export function analyzeLexicalMetrics(text: string): LexicalMetrics {
+  const words = tokenizeWords(text);
+  if (words.length === 0) {
+    return {
+      wordCount: 0,
+      mattr: 0,
+      wordFrequencyScore: 0,
+      rareWordRate: 0,
+      ideaDensity: 0,
+      pronounNounRatio: 0,
+      emptyWordRate: 0
+    };
+  }
+
+  const classes = classifyWords(words);
+  const count = (wordClass: WordClass) => classes.filter(c => c === wordClass).length;
+
+  // Frequency norms are only meaningful for content words
+  const contentWords = words.filter((_, i) => ['noun', 'verb', 'adjective', 'adverb'].includes(classes[i]));
+  const logUnlisted = Math.log10(UNLISTED_WORD_RANK);
+  const ranks = contentWords.map(getWordFrequencyRank);
+  const meanLogRank = ranks.length > 0
+    ? ranks.reduce((sum, rank) => sum + Math.log10(rank), 0) / ranks.length
+    : 0;
+
+  // Propositions (CPIDR-style): verbs, adjectives, adverbs, prepositions, conjunctions
+  const propositions = count('verb') + count('adjective') + count('adverb') + count('preposition') + count('conjunction');
+  const nouns = count('noun');
+
+  return {
+    wordCount: words.length,
+    mattr: calculateMATTR(words),
+    wordFrequencyScore: ranks.length > 0 ? Math.round((meanLogRank / logUnlisted) * 100) : 0,
+    rareWordRate: ranks.length > 0 ? ranks.filter(r => r >= UNLISTED_WORD_RANK).length / ranks.length : 0,
+    ideaDensity: propositions / words.length,
+    pronounNounRatio: count('pronoun') / Math.max(1, nouns),
+    emptyWordRate: countEmptyWords(words) / words.length
+  };
+}
+
+function scale(value: number, low: number, high: number): number {
+  return Math.max(0, Math.min(100, ((value - low) / (high - low)) * 100));
+}
+
+/**
+ * Vocabulary complexity (0-100) from the lexical metrics.
+ * Accepts text or metrics already computed for it.
+ */
+export function calculateVocabularyComplexity(input: string | LexicalMetrics): number {
+  const metrics = typeof input === 'string' ? analyzeLexicalMetrics(input) : input;
+  if (metrics.wordCount === 0) return 0;
+
+  const diversity = scale(metrics.mattr, 0.5, 0.85); // Conversational speech is usually 0.6-0.8
+  const rarity = scale(metrics.wordFrequencyScore, 30, 75);
+  const density = scale(metrics.ideaDensity, 0.3, 0.55);
+  const emptyPenalty = Math.min(20, metrics.emptyWordRate * 400); // 5% empty words = -20
+
+  return Math.round(Math.max(0, Math.min(100, diversity * 0.4 + rarity * 0.4 + density * 0.2 - emptyPenalty)));
+}
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Biography, BiographyEntry } from '@/types';
+import { buildLifeTimeline } from './lifeTimeline';
+
+function entry(id: string, chapter: BiographyEntry['chapter'], answers: string[]): BiographyEntry {
+  return {
+    id,
+    chapter,
+    content: `During ${chapter}, ${answers.map(a => `Q: Tell me more. A: ${a}`).join(' ')}`,
+    extractedFacts: {},
+    timestamp: new Date('2026-01-05T10:00:00Z'),
+    sourceSessionIds: [id]
+  };
+}
+
+function biography(entries: BiographyEntry[]): Biography {
+  return { id: 'bio', userId: 'user', title: 'My Life', entries, lastUpdated: new Date(), isComplete: false };
+}
+
+test('family history before birth and other weddings are not conflicts', () => {
+  const timeline = buildLifeTimeline(biography([
+    entry('childhood', 'childhood', ['I was born in 1938 in Dayton. My father moved to Ohio in 1925 and my parents got married in 1930.']),
+    entry('marriage', 'marriage', ['We got married in 1962. My daughter got married in 1995.'])
+  ]));
+
+  assert.equal(timeline.birthYear, 1938);
+  assert.deepEqual(timeline.conflicts, []);
+});
+
+test('two dates for their own wedding conflict', () => {
+  const timeline = buildLifeTimeline(biography([
+    entry('marriage', 'marriage', ['We got married in 1962.']),
+    entry('family', 'family', ['Our wedding was on June 5, 1964.'])
+  ]));
+
+  assert.equal(timeline.conflicts.length, 1);
+  assert.match(timeline.conflicts[0].reason, /Two different dates for the wedding/);
+});
+
+test('something they did before they were born conflicts', () => {
+  const timeline = buildLifeTimeline(biography([
+    entry('childhood', 'childhood', ['I was born in 1938. I started school in 1932.'])
+  ]));
+
+  assert.equal(timeline.conflicts.length, 1);
+  assert.match(timeline.conflicts[0].reason, /before they were born in 1938/);
+});
+
+test('event ids stay the same when the entry gains sentences', () => {
+  const before = buildLifeTimeline(biography([
+    entry('marriage', 'marriage', ['We got married in 1962.'])
+  ]));
+  const after = buildLifeTimeline(biography([
+    entry('marriage', 'marriage', ['We moved to Dayton in 1960. We got married in 1962.'])
+  ]));
+
+  const wedding = (events: typeof before.events) => events.find(e => e.description.includes('married'))?.id;
+  assert.ok(wedding(before.events));
+  assert.equal(wedding(after.events), wedding(before.events));
+});
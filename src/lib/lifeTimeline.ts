@@ -0,0 +1,262 @@
+/**
+ * Life Timeline
+ * Turns biography entries into dated life events: exact dates from
+ * dateExtractor, approximate ones from ages ("when I was 20") and decades
+ * ("the 1960s") using the person's year of birth. Events whose dates can't
+ * both be right are flagged for family to check.
+ */
+
+import type { Biography, BiographyEntry, TimelineConflict, TimelineEvent } from '@/types';
+import { extractDatesFromText, hasEventWithoutDate, mentionsEvent } from './dateExtractor';
+import { createSentenceChunker, pushText, flushChunker } from './sentenceChunker';
+
+export interface LifeTimeline {
+  events: TimelineEvent[]; // Dated events, oldest first
+  undated: TimelineEvent[]; // Events that still need a date
+  conflicts: TimelineConflict[];
+  birthYear: number | null;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90
+};
+const NUMBER = `\\d{1,2}|(?:${Object.keys(NUMBER_WORDS).join('|')})(?:[- ](?:one|two|three|four|five|six|seven|eight|nine))?`;
+const AGE_PATTERNS = [
+  new RegExp(`\\bwhen I was (?:about |around )?(${NUMBER})\\b`, 'i'),
+  new RegExp(`\\bat (?:the age of |age )(${NUMBER})\\b`, 'i'),
+  new RegExp(`\\b(?:aged|age) (${NUMBER})\\b`, 'i')
+];
+// Stages of life, as an age
+const LIFE_STAGES: Array<{ pattern: RegExp; age: number; spread: number }> = [
+  { pattern: /\b(?:as a|when I was a) (?:little |small |young )?(?:child|kid|boy|girl)\b|\bwhen I was (?:little|small)\b/i, age: 8, spread: 4 },
+  { pattern: /\b(?:as a|when I was a) teenager\b|\bin my teens\b/i, age: 15, spread: 3 }
+];
+const DECADE_WORDS: Record<string, number> = {
+  twenties: 1920, thirties: 1930, forties: 1940, fifties: 1950,
+  sixties: 1960, seventies: 1970, eighties: 1980, nineties: 1990
+};
+const DECADE = new RegExp(`\\b(early|mid|late)?[- ]?(?:(19[0-9]0|20[0-2]0)'?s|'([0-9]0)s|(${Object.keys(DECADE_WORDS).join('|')}))\\b`, 'i');
+const BIRTH = /\bI was born\b/i;
+const FULL_DATE = /\b[A-Za-z]+\s+\d{1,2},?\s+\d{4}\b/;
+
+// Events that happen once in the person's own life, so two different dates
+// contradict each other. A parent's or child's wedding doesn't count.
+const MILESTONES: Array<{ key: string; pattern: RegExp; label: string }> = [
+  { key: 'born', pattern: /\bI was born\b/i, label: 'being born' },
+  {
+    key: 'married',
+    pattern: /\b(?:(?:I|we) (?:got married|were married|was married|married)|married (?:him|her)\b|(?:our|my) wedding)\b/i,
+    label: 'the wedding'
+  },
+  { key: 'retired', pattern: /\b(?:I retired|my retirement)\b/i, label: 'retiring' }
+];
+// Events told about the person themselves, not parents or grandparents who
+// lived before them
+const FIRST_PERSON = /\b(?:I|we)\b/i;
+const OTHER_PERSON = /\b(?:my|our|his|her) (?:father|mother|dad|mom|mum|parents|grand\w+|great[- ]\w+|uncle|aunt|ancestors|family)\b|^(?:he|she|they)\b/i;
+
+// Leeway when comparing an age with a year: birthdays fall at different times of year
+const AGE_LEEWAY = 1;
+
+function parseNumber(text: string): number | null {
+  if (/^\d+$/.test(text)) return Number(text);
+  const [tens, units] = text.toLowerCase().split(/[- ]/);
+  const value = (NUMBER_WORDS[tens] ?? NaN) + (units ? NUMBER_WORDS[units] ?? NaN : 0);
+  return Number.isNaN(value) ? null : value;
+}
+
+/**
+ * The person's own words from an entry, without the chapter lead-in and
+ * Sage's questions
+ */
+function answerText(entry: BiographyEntry): string {
+  return entry.content
+    .replace(/^During \w+, /, '')
+    .replace(/\bQ: [^]*?\bA: /g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Sentences of a text, not split at abbreviations like "St." or "Mrs."
+ */
+function toSentences(text: string): string[] {
+  const chunker = createSentenceChunker();
+  const sentences = pushText(chunker, text);
+  const last = flushChunker(chunker);
+  return (last ? [...sentences, last] : sentences).map(s => s.trim()).filter(s => s.length > 0);
+}
+
+/**
+ * Short hash of a sentence's words, so an event keeps its id (and its family
+ * notes) when other sentences in the entry are added, removed or reworded
+ */
+function sentenceKey(sentence: string): string {
+  const normalized = sentence.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  let hash = 5381;
+  for (let i = 0; i < normalized.length; i++) {
+    hash = ((hash * 33) ^ normalized.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+/**
+ * Year of birth from the profile, or from "I was born in 1938" in the biography
+ */
+export function findBirthYear(biography: Biography | null, dateOfBirth?: Date | string): number | null {
+  if (dateOfBirth) {
+    const year = new Date(dateOfBirth).getFullYear();
+    if (!Number.isNaN(year)) return year;
+  }
+  for (const entry of biography?.entries ?? []) {
+    const sentence = toSentences(answerText(entry)).find(s => BIRTH.test(s));
+    const year = sentence && extractDatesFromText(sentence).find(d => d.date)?.date?.getFullYear();
+    if (year) return year;
+  }
+  return null;
+}
+
+type DatedFields = Pick<TimelineEvent, 'date' | 'precision' | 'dateText' | 'earliestYear' | 'latestYear'>;
+
+function yearRange(year: number, spread: number, precision: TimelineEvent['precision'], dateText: string): DatedFields {
+  return {
+    date: new Date(year, 0, 1),
+    precision,
+    dateText,
+    earliestYear: year - spread,
+    latestYear: year + spread
+  };
+}
+
+/**
+ * When a sentence's event happened: an exact date, an age or life stage
+ * counted from the year of birth, or a decade
+ */
+function dateSentence(sentence: string, birthYear: number | null): DatedFields | null {
+  // A full date ("June 5, 1962") over the bare year inside it
+  const dates = extractDatesFromText(sentence).filter(d => d.date && d.confidence === 'high');
+  const fullDate = dates.find(d => FULL_DATE.test(d.text));
+  const exact = fullDate ?? dates[0];
+  if (exact?.date) {
+    return {
+      ...yearRange(exact.date.getFullYear(), 0, fullDate ? 'day' : 'year', exact.text),
+      date: exact.date
+    };
+  }
+
+  for (const pattern of AGE_PATTERNS) {
+    const match = sentence.match(pattern);
+    const age = match ? parseNumber(match[1]) : null;
+    if (match && age !== null && birthYear !== null) {
+      return yearRange(birthYear + age, AGE_LEEWAY, 'approximate', match[0]);
+    }
+  }
+
+  if (birthYear !== null) {
+    const stage = LIFE_STAGES.find(s => s.pattern.test(sentence));
+    const match = stage && sentence.match(stage.pattern);
+    if (stage && match) return yearRange(birthYear + stage.age, stage.spread, 'approximate', match[0]);
+  }
+
+  const decade = sentence.match(DECADE);
+  if (decade) {
+    const start = decade[2] ? Number(decade[2]) : decade[3] ? 1900 + Number(decade[3]) : DECADE_WORDS[decade[4].toLowerCase()];
+    const part = decade[1]?.toLowerCase();
+    const [from, to] = part === 'early' ? [0, 3] : part === 'mid' ? [3, 6] : part === 'late' ? [6, 9] : [0, 9];
+    return {
+      date: new Date(start + Math.round((from + to) / 2), 0, 1),
+      precision: 'approximate',
+      dateText: decade[0].trim(),
+      earliestYear: start + from,
+      latestYear: start + to
+    };
+  }
+
+  return null;
+}
+
+function milestoneOf(event: TimelineEvent) {
+  return MILESTONES.find(m => m.pattern.test(event.description));
+}
+
+function isAboutThemselves(event: TimelineEvent): boolean {
+  return FIRST_PERSON.test(event.description) && !OTHER_PERSON.test(event.description);
+}
+
+function overlaps(a: TimelineEvent, b: TimelineEvent): boolean {
+  return (a.earliestYear as number) <= (b.latestYear as number) && (b.earliestYear as number) <= (a.latestYear as number);
+}
+
+/**
+ * Pairs of dated events that can't both be right: a once-in-a-life event told
+ * with two different dates, or something the person did dated before they
+ * were born
+ */
+function findConflicts(events: TimelineEvent[], birthYear: number | null, profileBirthYear: number | null): TimelineConflict[] {
+  const conflicts: TimelineConflict[] = [];
+
+  events.forEach((event, i) => {
+    const milestone = milestoneOf(event);
+    if (!milestone) return;
+    events.slice(i + 1)
+      .filter(other => milestoneOf(other)?.key === milestone.key && !overlaps(event, other))
+      .forEach(other => conflicts.push({
+        eventIds: [event.id, other.id],
+        reason: `Two different dates for ${milestone.label}: ${event.dateText} and ${other.dateText}`
+      }));
+  });
+
+  const birth = events.find(e => milestoneOf(e)?.key === 'born');
+  if (birth && profileBirthYear !== null && !overlaps(birth, { ...birth, earliestYear: profileBirthYear, latestYear: profileBirthYear })) {
+    conflicts.push({
+      eventIds: [birth.id, birth.id],
+      reason: `Born ${birth.dateText} here, but ${profileBirthYear} in their profile`
+    });
+  }
+  if (birthYear !== null) {
+    events
+      .filter(e => e !== birth && milestoneOf(e)?.key !== 'born' && isAboutThemselves(e) && (e.latestYear as number) < birthYear)
+      .forEach(e => conflicts.push({
+        eventIds: [e.id, birth?.id ?? e.id],
+        reason: `Dated ${e.dateText}, before they were born in ${birthYear}`
+      }));
+  }
+
+  return conflicts;
+}
+
+/**
+ * The life timeline for a biography
+ */
+export function buildLifeTimeline(biography: Biography | null, dateOfBirth?: Date | string): LifeTimeline {
+  const birthYear = findBirthYear(biography, dateOfBirth);
+  const events: TimelineEvent[] = [];
+  const undated: TimelineEvent[] = [];
+
+  (biography?.entries ?? []).forEach(entry => {
+    const seen = new Map<string, number>(); // The same sentence told twice in one entry
+    toSentences(answerText(entry)).forEach(sentence => {
+      if (!mentionsEvent(sentence)) return;
+      const key = sentenceKey(sentence);
+      const repeat = seen.get(key) ?? 0;
+      seen.set(key, repeat + 1);
+      const id = repeat === 0 ? `${entry.id}-${key}` : `${entry.id}-${key}-${repeat}`;
+      const base = { id, entryId: entry.id, chapter: entry.chapter, description: sentence };
+      const dated = dateSentence(sentence, birthYear);
+      if (dated) {
+        events.push({ ...base, ...dated });
+      } else if (hasEventWithoutDate(sentence)) {
+        // Keep an age we couldn't place without a year of birth
+        const age = AGE_PATTERNS.map(p => sentence.match(p)?.[0]).find(Boolean);
+        undated.push({ ...base, date: null, precision: 'undated', ...(age && { dateText: age }) });
+      }
+    });
+  });
+
+  events.sort((a, b) => (a.date as Date).getTime() - (b.date as Date).getTime());
+  const profileBirthYear = dateOfBirth ? findBirthYear(null, dateOfBirth) : null;
+  return { events, undated, conflicts: findConflicts(events, birthYear, profileBirthYear), birthYear };
+}
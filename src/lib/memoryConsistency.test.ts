@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Biography, TalkSession } from '@/types';
+import { probeMemoryConsistency } from './memoryConsistency';
+
+function biography(content: string): Biography {
+  return {
+    id: 'bio',
+    userId: 'user',
+    title: 'My Life',
+    entries: [{
+      id: 'entry',
+      chapter: 'family',
+      content,
+      extractedFacts: {},
+      timestamp: new Date('2026-01-01T10:00:00Z'),
+      sourceSessionIds: ['memory-session']
+    }],
+    lastUpdated: new Date('2026-01-01T10:00:00Z'),
+    isComplete: false
+  };
+}
+
+function session(...userTurns: string[]): TalkSession {
+  return {
+    id: 'talk',
+    timestamp: new Date('2026-01-05T10:00:00Z'),
+    messages: userTurns.map((content, i) => ({
+      id: `m${i}`,
+      role: 'user',
+      content,
+      timestamp: new Date(Date.UTC(2026, 0, 5, 10, 0, i * 10))
+    })),
+    transcript: userTurns.join(' '),
+    cliScore: null,
+    cliBreakdown: null,
+    status: 'completed',
+    duration: 60
+  };
+}
+
+test("a child's wedding isn't checked against their own", () => {
+  const probes = probeMemoryConsistency(session('My daughter got married in 1995.'), biography('We got married in 1962.'));
+  assert.deepEqual(probes, []);
+});
+
+test('their own wedding year is checked', () => {
+  const probes = probeMemoryConsistency(session('I got married in 1964.'), biography('We got married in 1962.'));
+  assert.deepEqual(probes.map(p => [p.topic, p.outcome]), [['wedding_year', 'contradict']]);
+});
+
+test('a second son is not a contradiction of the first', () => {
+  const probes = probeMemoryConsistency(session('My son Peter came by. My son Michael too.', 'My son Peter is coming again.'), null);
+  assert.deepEqual(probes.map(p => [p.claimed, p.expected, p.outcome]), [
+    ['Michael', 'Peter', 'vague'],
+    ['Peter', 'Michael or Peter', 'match']
+  ]);
+});
+
+test('a different job is new, not a contradiction', () => {
+  const probes = probeMemoryConsistency(session('I was a teacher before nursing.'), biography('I worked as a nurse.'));
+  assert.deepEqual(probes.map(p => [p.claimed, p.outcome]), [['teacher', 'vague']]);
+});
@@ -0,0 +1,313 @@
+/**
+ * Memory Consistency
+ * Autobiographical memory probes: when the person restates a fact about
+ * their life in Talk (wedding year, children's names, their job, where they
+ * grew up), compare it with their biography and what they said before, and
+ * record whether it matches, contradicts or is too vague to say
+ */
+
+import type { Biography, ConsistencyOutcome, LifeFactTopic, MemoryProbe, TalkSession } from '@/types';
+import { contentTerms } from './discourseCoherence';
+
+interface LifeClaim {
+  topic: LifeFactTopic;
+  subject: string; // "son" or "daughter" for children, otherwise the topic
+  value: string | null; // Null when the person couldn't say
+  decade: boolean; // Only a decade was given ("the sixties")
+  statement: string;
+}
+
+interface ClaimReference {
+  claim: LifeClaim;
+  source: MemoryProbe['source'];
+  sourceId: string;
+}
+
+const YEAR = /\b(1[89]\d{2}|20\d{2})\b/;
+const DECADE_WORDS: Record<string, string> = {
+  twenties: '1920', thirties: '1930', forties: '1940', fifties: '1950',
+  sixties: '1960', seventies: '1970', eighties: '1980', nineties: '1990'
+};
+const DECADE = new RegExp(`\\b(?:the )?(?:(19[2-9]0)'?s|'?([2-9]0)'?s|(${Object.keys(DECADE_WORDS).join('|')}))\\b`, 'i');
+// "I can't remember when we got married"
+const HEDGE = /\b(?:(?:can't|cannot|can not|don't|do not) (?:remember|recall)|forget|forgot|not sure|no idea|long time ago|years ago|ages ago|what's (?:his|her) name)\b/i;
+
+// Their own wedding, not a son's or daughter's ("my daughter got married in 1995")
+const WEDDING_CUE = /\b(?:(?:I|we) (?:got married|were married|was married|married)|married (?:him|her)\b|(?:our|my) wedding)\b/i;
+const BIRTH_CUE = /\bI was born\b/i;
+// "I was born in 1938 in Springfield", "grew up on a farm near Dayton"
+const PLACE_AFTER = (cue: string) => new RegExp(`\\b${cue}\\b[^.!?]*?\\b(?:in|at|near) (?:the )?([A-Z][a-z]+(?: [A-Z][a-z]+){0,2})`);
+const BIRTHPLACE = PLACE_AFTER('I was born');
+const HOMETOWN = PLACE_AFTER('(?:grew up|was raised|was brought up)');
+const HOMETOWN_CUE = /\b(?:grew up|was raised|was brought up)\b/i;
+
+// "I worked as a nurse", "my job was a typist", "I retired as a foreman"
+const OCCUPATION_PATTERNS = [
+  /\bI (?:worked|was working|retired) as an? ([a-z]+(?: [a-z]+){0,2})/i,
+  /\b[Mm]y (?:job|career|profession) was (?:as )?an? ([a-z]+(?: [a-z]+){0,2})/
+];
+// "I was a nurse" only counts as a job with a known title or a cue elsewhere in the sentence,
+// so "I was a little older" and "I was a mother by then" aren't read as jobs
+const WAS_A = /\bI (?:was|used to be) an? ([a-z]+(?: [a-z]+){0,2})/i;
+const JOB_TITLES = new Set([
+  'accountant', 'architect', 'baker', 'banker', 'bookkeeper', 'builder', 'butcher', 'carpenter', 'cashier',
+  'chef', 'clerk', 'cook', 'dentist', 'doctor', 'driver', 'editor', 'electrician', 'engineer', 'farmer',
+  'firefighter', 'fireman', 'fisherman', 'foreman', 'hairdresser', 'homemaker', 'housewife', 'janitor',
+  'journalist', 'lawyer', 'librarian', 'machinist', 'mailman', 'manager', 'mechanic', 'midwife', 'miner',
+  'minister', 'musician', 'nurse', 'painter', 'pharmacist', 'pilot', 'plumber', 'policeman', 'postman',
+  'priest', 'principal', 'professor', 'receptionist', 'salesman', 'saleswoman', 'seamstress', 'secretary',
+  'soldier', 'sailor', 'surgeon', 'tailor', 'teacher', 'typist', 'vet', 'waiter', 'waitress', 'welder'
+]);
+const OCCUPATION_CUE = /\b(?:worked|job|career|for a living|profession)\b/i;
+// Words that follow a title rather than belong to it ("a teacher for thirty years")
+const AFTER_TITLE = new Set([
+  'for', 'at', 'in', 'on', 'with', 'by', 'from', 'to', 'until', 'till', 'during', 'since', 'of',
+  'and', 'or', 'but', 'then', 'there', 'when', 'while', 'who', 'that', 'back', 'once'
+]);
+const CHILD = /\b[Mm]y (son|daughter|boy|girl)(?:'s name is| is (?:called|named)|,? (?:called|named))? ([A-Z][a-z]+)\b/g;
+const CHILD_CUE = /\b[Mm]y (son|daughter|boy|girl)('s name)?\b/g;
+const CHILD_SUBJECTS: Record<string, string> = { son: 'son', boy: 'son', daughter: 'daughter', girl: 'daughter' };
+// Capitalized words that start clauses rather than name someone
+const NOT_NAMES = new Set(['i', 'he', 'she', 'it', 'they', 'we', 'this', 'that', 'there', 'who', 'and', 'but', 'so', 'is', 'was', 'the', 'a', 'an', 'oh', 'well', 'yes', 'no']);
+
+const MULTI_VALUED = new Set<LifeFactTopic>(['child_name', 'occupation']);
+
+function toSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * A year or decade in a sentence; decades are stored as their first year
+ */
+function findYear(sentence: string): { value: string; decade: boolean } | null {
+  const year = sentence.match(YEAR);
+  if (year) return { value: year[1], decade: false };
+  const decade = sentence.match(DECADE);
+  if (!decade) return null;
+  const value = decade[1] ?? (decade[2] ? `19${decade[2]}` : DECADE_WORDS[decade[3].toLowerCase()]);
+  return { value, decade: true };
+}
+
+/**
+ * A year-valued claim, or a vague one when the sentence hedges
+ */
+function yearClaim(topic: LifeFactTopic, sentence: string): LifeClaim | null {
+  const year = findYear(sentence);
+  if (year) return { topic, subject: topic, ...year, statement: sentence };
+  return HEDGE.test(sentence) ? { topic, subject: topic, value: null, decade: false, statement: sentence } : null;
+}
+
+function placeClaim(topic: LifeFactTopic, pattern: RegExp, sentence: string): LifeClaim | null {
+  const place = sentence.match(pattern)?.[1];
+  if (place) return { topic, subject: topic, value: place, decade: false, statement: sentence };
+  return HEDGE.test(sentence) ? { topic, subject: topic, value: null, decade: false, statement: sentence } : null;
+}
+
+/**
+ * The words of a title up to the first one that follows it instead
+ */
+function titleWords(phrase: string): string[] {
+  const words = phrase.toLowerCase().split(' ');
+  const end = words.findIndex(word => AFTER_TITLE.has(word));
+  return end < 0 ? words : words.slice(0, end);
+}
+
+function occupationClaim(sentence: string): LifeClaim | null {
+  const cued = OCCUPATION_CUE.test(sentence);
+  for (const pattern of OCCUPATION_PATTERNS) {
+    const title = titleWords(sentence.match(pattern)?.[1] ?? '').filter(Boolean);
+    if (title.length > 0) {
+      return { topic: 'occupation', subject: 'occupation', value: title.join(' '), decade: false, statement: sentence };
+    }
+  }
+  const words = titleWords(sentence.match(WAS_A)?.[1] ?? '').filter(Boolean);
+  const known = words.findIndex(word => JOB_TITLES.has(word));
+  const title = known >= 0 ? words.slice(0, known + 1) : cued ? words : [];
+  if (title.length > 0) {
+    return { topic: 'occupation', subject: 'occupation', value: title.join(' '), decade: false, statement: sentence };
+  }
+  return cued && HEDGE.test(sentence)
+    ? { topic: 'occupation', subject: 'occupation', value: null, decade: false, statement: sentence }
+    : null;
+}
+
+function childClaims(sentence: string): LifeClaim[] {
+  const named = [...sentence.matchAll(CHILD)]
+    .filter(match => !NOT_NAMES.has(match[2].toLowerCase()))
+    .map(match => ({
+      topic: 'child_name' as const,
+      subject: CHILD_SUBJECTS[match[1].toLowerCase()],
+      value: match[2],
+      decade: false,
+      statement: sentence
+    }));
+  if (named.length > 0 || !HEDGE.test(sentence)) return named;
+  return [...sentence.matchAll(CHILD_CUE)].slice(0, 1).map(match => ({
+    topic: 'child_name' as const,
+    subject: CHILD_SUBJECTS[match[1].toLowerCase()],
+    value: null,
+    decade: false,
+    statement: sentence
+  }));
+}
+
+/**
+ * Facts about the person's life stated in a piece of text
+ */
+function extractLifeClaims(text: string): LifeClaim[] {
+  return toSentences(text).flatMap(sentence => {
+    const claims: Array<LifeClaim | null> = [];
+    if (WEDDING_CUE.test(sentence)) claims.push(yearClaim('wedding_year', sentence));
+    if (BIRTH_CUE.test(sentence)) {
+      const year = findYear(sentence);
+      if (year) claims.push({ topic: 'birth_year', subject: 'birth_year', ...year, statement: sentence });
+      if (BIRTHPLACE.test(sentence) || !year) claims.push(placeClaim('birthplace', BIRTHPLACE, sentence));
+    }
+    if (HOMETOWN_CUE.test(sentence)) claims.push(placeClaim('hometown', HOMETOWN, sentence));
+    claims.push(occupationClaim(sentence));
+    claims.push(...childClaims(sentence));
+    return claims.filter((claim): claim is LifeClaim => claim !== null);
+  });
+}
+
+function sameYear(claim: LifeClaim, reference: LifeClaim): ConsistencyOutcome {
+  const claimed = Number(claim.value);
+  const expected = Number(reference.value);
+  // Compare at the coarser of the two precisions
+  if (claim.decade || reference.decade) {
+    if (Math.floor(claimed / 10) !== Math.floor(expected / 10)) return 'contradict';
+    return claim.decade && !reference.decade ? 'vague' : 'match';
+  }
+  return claimed === expected ? 'match' : 'contradict';
+}
+
+function samePlace(claimed: string, expected: string): boolean {
+  const a = claimed.toLowerCase();
+  const b = expected.toLowerCase();
+  return a.includes(b) || b.includes(a);
+}
+
+function sameOccupation(claimed: string, expected: string): boolean {
+  const expectedTerms = new Set(contentTerms(expected));
+  return contentTerms(claimed).some(term => expectedTerms.has(term));
+}
+
+/**
+ * How a claim compares with everything previously said about the same fact
+ */
+function compareClaim(claim: LifeClaim, references: LifeClaim[]): ConsistencyOutcome {
+  if (claim.value === null) return 'vague';
+  const value = claim.value;
+  switch (claim.topic) {
+    case 'wedding_year':
+    case 'birth_year':
+      return sameYear(claim, references[0]);
+    case 'occupation':
+      // People have more than one job, so a different one isn't a contradiction
+      return references.some(r => sameOccupation(value, r.value as string)) ? 'match' : 'vague';
+    case 'child_name':
+      // Several sons or daughters: any of their names is a match
+      return references.some(r => r.value?.toLowerCase() === value.toLowerCase()) ? 'match' : 'contradict';
+    default:
+      return samePlace(value, references[0].value as string) ? 'match' : 'contradict';
+  }
+}
+
+function formatValue(claim: LifeClaim): string {
+  return claim.decade ? `the ${claim.value}s` : claim.value ?? '';
+}
+
+/**
+ * Checks the facts the person restated in a finished Talk session against
+ * their biography, or, for facts the biography doesn't have, what they said
+ * earlier (in the session or in a previous conversation): the latest
+ * statement, or every one for children's names and jobs
+ */
+export function probeMemoryConsistency(
+  session: TalkSession,
+  biography: Biography | null,
+  earlierSessions: TalkSession[] = []
+): MemoryProbe[] {
+  const fromBiography: ClaimReference[] = (biography?.entries ?? []).flatMap(entry =>
+    extractLifeClaims(entry.content).map(claim => ({ claim, source: 'biography' as const, sourceId: entry.id }))
+  );
+  // Newest first, so the latest earlier statement is used
+  const fromConversations: ClaimReference[] = [...earlierSessions]
+    .filter(s => s.id !== session.id)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .flatMap(s => s.messages
+      .filter(m => m.role === 'user')
+      .flatMap(m => extractLifeClaims(m.content))
+      .reverse()
+      .map(claim => ({ claim, source: 'conversation' as const, sourceId: s.id })));
+
+  const probes: MemoryProbe[] = [];
+  const sessionClaims: ClaimReference[] = [];
+  const seen = new Set<string>();
+
+  session.messages.filter(m => m.role === 'user').forEach(message => {
+    extractLifeClaims(message.content).forEach(claim => {
+      const key = `${claim.topic}:${claim.subject}:${claim.value?.toLowerCase() ?? ''}`;
+      const sameFact = (r: ClaimReference) => r.claim.topic === claim.topic && r.claim.subject === claim.subject && r.claim.value !== null;
+      const biographyRefs = fromBiography.filter(sameFact);
+      // Children and jobs can have several values, so every earlier one counts; other facts use the latest
+      const earlierRefs = [...sessionClaims].reverse().concat(fromConversations).filter(sameFact);
+      const references = biographyRefs.length > 0
+        ? biographyRefs
+        : MULTI_VALUED.has(claim.topic) ? earlierRefs : earlierRefs.slice(0, 1);
+      sessionClaims.push({ claim, source: 'conversation', sourceId: session.id });
+      if (references.length === 0 || seen.has(key)) return;
+      seen.add(key);
+
+      const compared = compareClaim(claim, references.map(r => r.claim));
+      // A son or daughter not mentioned before may be another child; only the biography lists them all
+      const outcome = compared === 'contradict' && claim.topic === 'child_name' && biographyRefs.length === 0 ? 'vague' : compared;
+      // Point at the reference that matched, or the first one otherwise
+      const reference = references.find(r => claim.value !== null && compareClaim(claim, [r.claim]) === 'match') ?? references[0];
+      probes.push({
+        id: crypto.randomUUID(),
+        topic: claim.topic,
+        subject: claim.subject,
+        statement: claim.statement,
+        claimed: claim.value === null ? null : formatValue(claim),
+        expected: [...new Set(references.map(r => formatValue(r.claim)))].join(' or '),
+        source: reference.source,
+        sourceId: reference.sourceId,
+        outcome
+      });
+    });
+  });
+
+  return probes;
+}
+
+export interface ConsistencyPoint {
+  sessionId: string;
+  date: Date;
+  matches: number;
+  contradictions: number;
+  vague: number;
+  consistency: number; // Share of probes that matched, 0-100
+}
+
+/**
+ * Consistency per conversation over time, oldest first, for sessions with probes
+ */
+export function summarizeConsistency(sessions: TalkSession[]): ConsistencyPoint[] {
+  return sessions
+    .filter(s => (s.memoryProbes?.length ?? 0) > 0)
+    .map(s => {
+      const probes = s.memoryProbes as MemoryProbe[];
+      const count = (outcome: ConsistencyOutcome) => probes.filter(p => p.outcome === outcome).length;
+      const matches = count('match');
+      return {
+        sessionId: s.id,
+        date: new Date(s.timestamp),
+        matches,
+        contradictions: count('contradict'),
+        vague: count('vague'),
+        consistency: Math.round((matches / probes.length) * 100)
+      };
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -114,15 +114,6 @@ export function generateEmotionalDistribution() {
   ];
 }
 
-// Generate time of day performance data
-export function generateTimeOfDayPerformance() {
-  return [
-    { time: 'Morning', language: 82, memory: 78, attention: 80 },
-    { time: 'Afternoon', language: 75, memory: 74, attention: 76 },
-    { time: 'Evening', language: 65, memory: 68, attention: 65 }
-  ];
-}
-
 // Generate weekly trends
 export function generateWeeklyTrends() {
   const data = [];
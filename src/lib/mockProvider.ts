@@ -0,0 +1,55 @@
+/**
+ * Mock Provider
+ * Scripted replies for tests and demos: each call returns the next line of
+ * the script, so a conversation plays out the same way every time
+ */
+
+import type { ConversationProvider, ConversationRequest } from './conversationProvider';
+
+export type ConversationScript = string[] | ((request: ConversationRequest, turn: number) => string);
+
+const DEFAULT_SCRIPT = [
+  "That sounds lovely. Tell me more about it.",
+  "What do you remember most about that?",
+  "How did that make you feel?",
+  "Thank you for sharing that with me."
+];
+
+/**
+ * Provider that answers from a fixed script. Lists repeat from the start once
+ * they run out; functions are called with the request and the turn number.
+ * Streamed replies arrive a word at a time, tokenDelayMs apart.
+ */
+export function createScriptedProvider(
+  script: ConversationScript = DEFAULT_SCRIPT,
+  tokenDelayMs = 60
+): ConversationProvider & { reset: () => void } {
+  let turn = 0;
+  const nextReply = (request: ConversationRequest) => {
+    const reply = typeof script === 'function'
+      ? script(request, turn)
+      : script[turn % script.length] ?? '';
+    turn++;
+    return reply;
+  };
+
+  return {
+    id: 'mock',
+    label: 'Scripted (mock)',
+    description: 'Fixed replies for testing',
+    isConfigured: () => true,
+    generateResponse: async (request) => nextReply(request),
+    streamResponse: async (request, onDelta) => {
+      for (const word of nextReply(request).match(/\S+\s*/g) ?? []) {
+        if (request.signal?.aborted) return;
+        await new Promise(resolve => setTimeout(resolve, tokenDelayMs));
+        onDelta(word);
+      }
+    },
+    reset: () => {
+      turn = 0;
+    }
+  };
+}
+
+export const mockProvider = createScriptedProvider();
@@ -0,0 +1,57 @@
+/**
+ * Offline Provider
+ * Rule-based replies that need no network or API key. Used when the
+ * selected provider isn't configured or fails, and selectable on its own.
+ */
+
+import type { ConversationProvider } from './conversationProvider';
+
+/**
+ * Fallback response generator (used when an API is unavailable)
+ */
+export function getFallbackResponse(userMessage: string): string {
+  const lowerMessage = userMessage.toLowerCase();
+
+  // Health-related responses
+  if (lowerMessage.match(/\b(pain|ache|hurt|sore)\b/)) {
+    return "I'm sorry to hear that. Can you tell me more about what's bothering you?";
+  }
+  if (lowerMessage.match(/\b(sleep|tired|exhausted)\b/)) {
+    return "How have you been sleeping lately?";
+  }
+  if (lowerMessage.match(/\b(mood|feeling|feel)\b/)) {
+    return "How are you feeling today?";
+  }
+
+  // General conversational responses
+  if (lowerMessage.match(/\b(good|great|fine|well|okay|ok)\b/)) {
+    return "That's wonderful to hear! What have you been up to?";
+  }
+  if (lowerMessage.match(/\b(bad|not good|terrible|awful)\b/)) {
+    return "I'm sorry to hear that. Would you like to talk about it?";
+  }
+  if (lowerMessage.match(/\?/)) {
+    return "That's an interesting question. What do you think about that?";
+  }
+
+  // Default natural responses
+  const responses = [
+    "Tell me more about that.",
+    "That sounds interesting. What else is on your mind?",
+    "I'd like to hear more.",
+    "How does that make you feel?",
+    "What else would you like to share?",
+    "That's really nice to hear.",
+    "I understand. Can you tell me more?"
+  ];
+
+  return responses[Math.floor(Math.random() * responses.length)];
+}
+
+export const offlineProvider: ConversationProvider = {
+  id: 'offline',
+  label: 'Offline',
+  description: 'Simple built-in replies, no internet needed',
+  isConfigured: () => true,
+  generateResponse: async ({ userMessage }) => getFallbackResponse(userMessage)
+};
@@ -0,0 +1,425 @@
+/**
+ * Part-of-Speech Tagger
+ * Small offline tagger and chunker for transcribed speech: closed-class
+ * lexicons, inflection and suffix guesses, and contextual rules for the
+ * common ambiguities (that, to, her, have, when...). Tags follow Universal
+ * Dependencies with one addition, REL, for relative pronouns.
+ */
+
+export type PosTag =
+  | 'NOUN' | 'VERB' | 'AUX' | 'ADJ' | 'ADV' | 'PRON' | 'DET' | 'NUM'
+  | 'ADP' | 'CCONJ' | 'SCONJ' | 'REL' | 'PART' | 'INTJ';
+
+export type ChunkType = 'NP' | 'VP' | 'PP' | 'ADJP' | 'ADVP' | 'SBAR' | 'CONJ' | 'INTJ';
+
+export interface TaggedToken {
+  word: string; // Contractions are expanded ("didn't" -> "did", "not")
+  tag: PosTag;
+  index: number; // Position of the source word
+}
+
+export interface Chunk {
+  type: ChunkType;
+  tokens: TaggedToken[];
+}
+
+const PRONOUNS = new Set([
+  'i', 'me', 'myself', 'you', 'yourself', 'he', 'him', 'himself', 'she', 'herself', 'it', 'itself',
+  'we', 'us', 'ourselves', 'they', 'them', 'themselves', 'mine', 'yours', 'hers', 'ours', 'theirs',
+  'someone', 'somebody', 'something', 'anyone', 'anybody', 'anything', 'everyone', 'everybody',
+  'everything', 'nobody', 'nothing', 'one', 'what', 'who', 'whom', 'whoever', 'whatever'
+]);
+
+export const SUBJECT_PRONOUNS = new Set(['i', 'you', 'he', 'she', 'it', 'we', 'they']);
+
+const POSSESSIVE_DETERMINERS = new Set(['my', 'your', 'its', 'our', 'their']);
+
+// Determiners that stand alone as pronouns when no noun follows ("that was fun")
+const DEMONSTRATIVES = new Set(['this', 'that', 'these', 'those', 'some', 'any', 'all', 'both', 'each', 'another', 'other', 'either', 'neither']);
+
+const DETERMINERS = new Set(['the', 'a', 'an', 'every', 'no', 'such']);
+
+const BE_FORMS = new Set(['be', 'am', 'is', 'are', 'was', 'were', 'been', 'being']);
+const HAVE_FORMS = new Set(['have', 'has', 'had', 'having']);
+const DO_FORMS = new Set(['do', 'does', 'did']);
+const MODALS = new Set(['will', 'would', 'shall', 'should', 'can', 'could', 'may', 'might', 'must', 'gonna', 'gotta']);
+
+const PREPOSITIONS = new Set([
+  'in', 'on', 'at', 'for', 'of', 'with', 'by', 'from', 'about', 'into', 'over', 'under', 'during',
+  'between', 'through', 'without', 'around', 'near', 'behind', 'across', 'against', 'along', 'among',
+  'above', 'below', 'beside', 'past', 'toward', 'towards', 'up', 'down', 'off', 'out', 'onto', 'upon',
+  'inside', 'outside', 'throughout', 'except', 'than', 'per', 'via'
+]);
+
+const PHRASAL_PARTICLES = new Set(['up', 'out', 'off', 'down']);
+
+const COORDINATORS = new Set(['and', 'but', 'or', 'nor', 'so', 'yet', 'plus']);
+
+const SUBORDINATORS = new Set(['because', 'although', 'though', 'if', 'unless', 'whereas', 'whether', 'while', 'whenever', 'wherever', 'cause']);
+
+// Subordinators that are prepositions or adverbs when no clause follows
+const CLAUSE_OR_PHRASE = new Set(['after', 'before', 'since', 'until', 'till', 'as', 'once']);
+
+const WH_ADVERBS = new Set(['when', 'where', 'why', 'how']);
+
+// Words whose "'s" is "is" or "has" rather than a possessive
+const CONTRACTS_IS = new Set([
+  'it', 'he', 'she', 'that', 'this', 'what', 'who', 'where', 'when', 'why', 'how', 'there', 'here',
+  'something', 'nothing', 'everything'
+]);
+
+const RELATIVES = new Set(['who', 'whom', 'whose', 'which']);
+
+const INTERJECTIONS = new Set([
+  'um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'mm', 'mhm', 'oh', 'yeah', 'yes', 'yep', 'nope',
+  'okay', 'ok', 'hi', 'hello', 'bye', 'goodbye', 'wow', 'please', 'thanks'
+]);
+
+const NUMBERS = new Set([
+  'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve',
+  'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty',
+  'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety', 'hundred', 'thousand',
+  'million', 'dozen', 'first', 'second', 'third', 'fourth', 'fifth', 'last'
+]);
+
+const ADVERBS = new Set([
+  'not', 'never', 'always', 'often', 'sometimes', 'also', 'just', 'too', 'very', 'really', 'still',
+  'already', 'again', 'here', 'there', 'now', 'soon', 'quite', 'almost', 'maybe', 'perhaps',
+  'even', 'ever', 'later', 'today', 'yesterday', 'tomorrow', 'away', 'back', 'together', 'well',
+  'then', 'usually', 'only', 'pretty', 'so', 'much', 'more', 'most', 'less', 'enough', 'anyway',
+  'tonight', 'ago', 'home', 'else', 'instead', 'rather', 'probably', 'actually'
+]);
+
+const ADJECTIVES = new Set([
+  'good', 'bad', 'big', 'small', 'old', 'new', 'young', 'long', 'short', 'little', 'great', 'nice',
+  'happy', 'sad', 'hot', 'cold', 'warm', 'tired', 'sick', 'busy', 'fine', 'lovely', 'best',
+  'better', 'worse', 'high', 'low', 'large', 'real', 'sure', 'right', 'wrong', 'early', 'late', 'easy',
+  'hard', 'full', 'free', 'dark', 'light', 'strong', 'different', 'same', 'whole', 'kind', 'funny',
+  'own', 'many', 'few', 'other', 'next', 'lonely', 'friendly', 'silly', 'ugly', 'likely', 'able',
+  'ready', 'glad', 'afraid', 'alone', 'alive', 'dead', 'quiet', 'clean', 'dirty', 'fresh', 'sweet',
+  'favorite', 'important', 'special', 'pretty', 'interesting', 'boring', 'exciting', 'amazing'
+]);
+
+// Base forms; regular inflections (-s, -ed, -ing) are recognized from these
+const VERB_BASES = new Set([
+  'go', 'get', 'make', 'know', 'think', 'take', 'see', 'come', 'want', 'look', 'use', 'find', 'give',
+  'tell', 'work', 'call', 'try', 'ask', 'need', 'feel', 'become', 'leave', 'put', 'mean', 'keep', 'let',
+  'begin', 'seem', 'help', 'talk', 'turn', 'start', 'show', 'hear', 'play', 'run', 'move', 'like',
+  'live', 'believe', 'hold', 'bring', 'happen', 'write', 'sit', 'stand', 'lose', 'pay', 'meet',
+  'learn', 'change', 'understand', 'watch', 'follow', 'stop', 'speak', 'read', 'spend', 'grow', 'open',
+  'walk', 'win', 'remember', 'forget', 'love', 'buy', 'wait', 'die', 'send', 'build', 'stay', 'fall',
+  'cut', 'reach', 'eat', 'drink', 'sleep', 'cook', 'visit', 'say', 'marry', 'travel', 'drive', 'enjoy',
+  'teach', 'carry', 'wear', 'sing', 'dance', 'clean', 'wash', 'fix', 'plant', 'bake', 'paint', 'swim',
+  'hope', 'guess', 'wish', 'miss', 'worry', 'finish', 'pick', 'catch', 'throw', 'hit', 'sell', 'break',
+  'choose', 'wake', 'raise', 'listen', 'laugh', 'cry', 'smile', 'agree', 'decide', 'suppose', 'realize'
+]);
+
+// Irregular past forms and participles with their base forms
+const IRREGULAR_VERB_FORMS = new Map<string, string>(Object.entries({
+  went: 'go', gone: 'go', said: 'say', got: 'get', gotten: 'get', made: 'make', knew: 'know',
+  known: 'know', took: 'take', taken: 'take', saw: 'see', seen: 'see', came: 'come',
+  thought: 'think', gave: 'give', given: 'give', told: 'tell', felt: 'feel', left: 'leave',
+  kept: 'keep', began: 'begin', begun: 'begin', brought: 'bring', bought: 'buy', held: 'hold',
+  wrote: 'write', written: 'write', stood: 'stand', heard: 'hear', met: 'meet', ran: 'run',
+  sat: 'sit', lost: 'lose', paid: 'pay', sent: 'send', built: 'build', fell: 'fall',
+  fallen: 'fall', understood: 'understand', spoke: 'speak', spoken: 'speak', grew: 'grow',
+  grown: 'grow', ate: 'eat', eaten: 'eat', drove: 'drive', driven: 'drive', taught: 'teach',
+  forgot: 'forget', forgotten: 'forget', found: 'find', became: 'become', meant: 'mean',
+  slept: 'sleep', spent: 'spend', wore: 'wear', worn: 'wear', sang: 'sing', sung: 'sing',
+  swam: 'swim', drank: 'drink', drunk: 'drink', broke: 'break', broken: 'break', chose: 'choose',
+  chosen: 'choose', woke: 'wake', caught: 'catch', threw: 'throw', thrown: 'throw', sold: 'sell',
+  won: 'win', done: 'do', led: 'lead', lay: 'lie', lain: 'lie', rode: 'ride', born: 'bear'
+}));
+
+/**
+ * Expand contractions so auxiliaries and negation get their own tokens
+ */
+function splitContraction(word: string): string[] {
+  if (word === "can't") return ['can', 'not'];
+  if (word === "won't") return ['will', 'not'];
+  if (word === "ain't") return ['is', 'not'];
+  if (word === "let's") return ['let', 'us'];
+  if (word.endsWith("n't")) return [word.slice(0, -3), 'not'];
+  const match = word.match(/^([a-z]+)('[a-z]+)$/);
+  if (!match) return [word];
+
+  const [, base, clitic] = match;
+  switch (clitic) {
+    case "'m": return [base, 'am'];
+    case "'re": return [base, 'are'];
+    case "'ve": return [base, 'have'];
+    case "'ll": return [base, 'will'];
+    case "'d": return [base, 'would'];
+    case "'s":
+      // "it's", "that's", "there's" contract "is"/"has"; otherwise possessive
+      return CONTRACTS_IS.has(base) ? [base, 'is'] : [base, "'s"];
+    default: return [word];
+  }
+}
+
+function isVerbForm(word: string): boolean {
+  if (VERB_BASES.has(word) || IRREGULAR_VERB_FORMS.has(word)) return true;
+  const stems = [
+    word.replace(/s$/, ''), word.replace(/es$/, ''), word.replace(/ies$/, 'y'),
+    word.replace(/ed$/, ''), word.replace(/d$/, ''), word.replace(/ied$/, 'y'), word.replace(/(.)\1ed$/, '$1'),
+    word.replace(/ing$/, ''), word.replace(/ing$/, 'e'), word.replace(/(.)\1ing$/, '$1')
+  ];
+  return stems.some(stem => stem !== word && VERB_BASES.has(stem));
+}
+
+/**
+ * Whether a verb token is its uninflected base form ("go", not "went")
+ */
+export function isBaseVerb(word: string): boolean {
+  return VERB_BASES.has(word);
+}
+
+/**
+ * Base form of a verb token where it can be recovered from regular inflection
+ */
+export function verbLemma(word: string): string {
+  if (VERB_BASES.has(word)) return word;
+  const candidates = [
+    word.replace(/ies$/, 'y'), word.replace(/ied$/, 'y'), word.replace(/es$/, ''), word.replace(/s$/, ''),
+    word.replace(/(.)\1ed$/, '$1'), word.replace(/ed$/, ''), word.replace(/d$/, ''),
+    word.replace(/(.)\1ing$/, '$1'), word.replace(/ing$/, ''), word.replace(/ing$/, 'e')
+  ];
+  return IRREGULAR_VERB_FORMS.get(word) ?? candidates.find(c => c !== word && VERB_BASES.has(c)) ?? word;
+}
+
+export function isBeForm(word: string): boolean {
+  return BE_FORMS.has(word);
+}
+
+function isAdjectiveForm(word: string): boolean {
+  return ADJECTIVES.has(word) || /.{3}(ful|ous|ive|able|ible|less|ish|ical|ary|ic)$/.test(word);
+}
+
+/**
+ * Context-free guess used to look ahead before a word is tagged
+ */
+function guessTag(word: string): PosTag {
+  if (word === "'s") return 'PART';
+  if (INTERJECTIONS.has(word)) return 'INTJ';
+  if (PRONOUNS.has(word)) return 'PRON';
+  if (DETERMINERS.has(word) || DEMONSTRATIVES.has(word) || POSSESSIVE_DETERMINERS.has(word) || word === 'his' || word === 'her') return 'DET';
+  if (BE_FORMS.has(word) || HAVE_FORMS.has(word) || DO_FORMS.has(word) || MODALS.has(word)) return 'AUX';
+  if (NUMBERS.has(word)) return 'NUM';
+  if (word === 'to' || PREPOSITIONS.has(word)) return 'ADP';
+  if (COORDINATORS.has(word)) return 'CCONJ';
+  if (SUBORDINATORS.has(word) || CLAUSE_OR_PHRASE.has(word)) return 'SCONJ';
+  if (ADVERBS.has(word) || WH_ADVERBS.has(word)) return 'ADV';
+  if (isAdjectiveForm(word)) return 'ADJ';
+  if (isVerbForm(word)) return 'VERB';
+  if (word.length > 4 && word.endsWith('ly')) return 'ADV';
+  return 'NOUN';
+}
+
+const NOMINAL = new Set<PosTag>(['NOUN', 'ADJ', 'NUM']);
+
+/**
+ * Whether a clause (subject then verb) starts at a position
+ */
+function startsClause(words: string[], guesses: PosTag[], start: number): boolean {
+  let subjectWords = 0;
+  for (let i = start; i < Math.min(words.length, start + 5); i++) {
+    const guess = guesses[i];
+    if (subjectWords > 0 && (guess === 'AUX' || guess === 'VERB')) return true;
+    if (guess === 'PRON' || guess === 'DET' || NOMINAL.has(guess) || guess === 'PART') subjectWords++;
+    else if (guess !== 'ADV') return false;
+  }
+  return false;
+}
+
+function isModifiedNoun(guesses: PosTag[], i: number): boolean {
+  return guesses[i] !== undefined && NOMINAL.has(guesses[i]);
+}
+
+/**
+ * Tag one word given the tags already assigned to its left
+ */
+function tagToken(words: string[], guesses: PosTag[], tags: PosTag[], i: number): PosTag {
+  const word = words[i];
+  const prev = tags[i - 1];
+  const prevWord = words[i - 1];
+  const next = guesses[i + 1];
+  const atStart = i === 0 || prev === 'INTJ';
+  const afterDeterminer = prev === 'DET' || prev === 'NUM' || prevWord === "'s";
+  const afterSubject = (prev === 'PRON' && prevWord !== undefined && SUBJECT_PRONOUNS.has(prevWord)) || prev === 'NOUN';
+
+  if (word === "'s") return 'PART';
+  if (word === 'well') return atStart ? 'INTJ' : 'ADV';
+  if (word === 'no') return isModifiedNoun(guesses, i + 1) ? 'DET' : 'INTJ';
+  if (word === 'so') return next === 'ADJ' || next === 'ADV' || i === words.length - 1 ? 'ADV' : 'CCONJ';
+  if (word === 'like') {
+    if (afterSubject || prev === 'AUX' || prevWord === 'to' || prevWord === 'would') return 'VERB';
+    return 'ADP';
+  }
+
+  // Semi-modals: "going to", "used to", "got to" + verb are one verb group
+  if (['going', 'used', 'got', 'ought'].includes(word) && words[i + 1] === 'to' && (guesses[i + 2] === 'VERB' || guesses[i + 2] === 'AUX')) {
+    return 'AUX';
+  }
+
+  if (word === 'to') {
+    const nextWord = words[i + 1];
+    return next === 'VERB' || (nextWord !== undefined && (BE_FORMS.has(nextWord) || HAVE_FORMS.has(nextWord) || DO_FORMS.has(nextWord)))
+      ? 'PART'
+      : 'ADP';
+  }
+
+  if (word === 'that') {
+    if ((prev === 'VERB' || prev === 'ADJ') && startsClause(words, guesses, i + 1)) return 'SCONJ';
+    if ((prev === 'NOUN' || prev === 'PRON') && prevWord !== 'that' && (next === 'VERB' || next === 'AUX' || startsClause(words, guesses, i + 1))) {
+      return prev === 'NOUN' || !SUBJECT_PRONOUNS.has(prevWord) ? 'REL' : 'PRON';
+    }
+    return isModifiedNoun(guesses, i + 1) && guesses[i + 1] !== 'NUM' ? 'DET' : 'PRON';
+  }
+
+  if (RELATIVES.has(word)) {
+    if (word === 'which' && isModifiedNoun(guesses, i + 1)) return 'DET';
+    if (word === 'whose') return 'REL';
+    return prev === 'NOUN' || prev === 'PRON' ? 'REL' : 'PRON';
+  }
+
+  if (WH_ADVERBS.has(word)) {
+    // "When did you..." asks; "when I was young..." subordinates
+    return next === 'AUX' || i === words.length - 1 ? 'ADV' : startsClause(words, guesses, i + 1) ? 'SCONJ' : 'ADV';
+  }
+
+  if (CLAUSE_OR_PHRASE.has(word)) {
+    if (startsClause(words, guesses, i + 1)) return 'SCONJ';
+    return word === 'once' ? 'ADV' : 'ADP';
+  }
+
+  if (word === 'there') return next === 'AUX' ? 'PRON' : 'ADV';
+
+  if (word === 'her' || word === 'his') {
+    return isModifiedNoun(guesses, i + 1) ? 'DET' : 'PRON';
+  }
+
+  if (DEMONSTRATIVES.has(word)) {
+    return isModifiedNoun(guesses, i + 1) || guesses[i + 1] === 'DET' ? 'DET' : 'PRON';
+  }
+
+  if (HAVE_FORMS.has(word) || DO_FORMS.has(word)) {
+    // Auxiliary before a verb ("have gone", "did not go"), main verb otherwise ("have a dog")
+    let j = i + 1;
+    while (guesses[j] === 'ADV' || (guesses[j] === 'PRON' && SUBJECT_PRONOUNS.has(words[j]))) j++;
+    if (guesses[j] === 'VERB' || guesses[j] === 'AUX') return 'AUX';
+    if (HAVE_FORMS.has(word) && words[i + 1] === 'to') return 'AUX'; // "have to go"
+    return j === words.length && (prev === 'PRON' || prev === 'NOUN') ? 'AUX' : 'VERB'; // "I did." is ellipsis
+  }
+
+  const guess = guesses[i];
+  if (guess === 'ADP' && PHRASAL_PARTICLES.has(word) && prev === 'VERB') return 'ADV';
+  if (guess !== 'NOUN' && guess !== 'VERB' && guess !== 'ADV' && guess !== 'ADJ') return guess;
+
+  // Open-class words: use the left context
+  if (afterDeterminer || (prev === 'ADJ' && guess !== 'ADV')) {
+    if (guess === 'ADJ') return 'ADJ';
+    if (ADVERBS.has(word) && guesses[i + 1] === 'ADJ') return 'ADV'; // "the very old house"
+    if (guess === 'VERB' && word.endsWith('ed')) return 'ADJ'; // "the painted fence"
+    return 'NOUN';
+  }
+  if (guess === 'ADJ' || guess === 'ADV') return guess;
+  if (guess === 'VERB') {
+    if (prev === 'ADP' && !word.endsWith('ing')) return 'NOUN'; // "in love", but "after eating"
+    return 'VERB';
+  }
+
+  // Unknown words
+  if (afterSubject && prev === 'PRON') return 'VERB';
+  if ((prev === 'AUX' && (MODALS.has(prevWord) || DO_FORMS.has(prevWord))) || prevWord === 'not') return 'VERB';
+  if (prev === 'PART' && prevWord === 'to') return 'VERB';
+  if (word.length > 4 && word.endsWith('ed') && (afterSubject || prev === 'AUX')) return 'VERB';
+  if (word.endsWith('ing') && (afterSubject || prev === 'AUX' || prev === 'ADP')) return 'VERB';
+  return 'NOUN';
+}
+
+/**
+ * Tag a sequence of lowercase words (see tokenizeWords). Contractions are
+ * expanded, so there can be more tokens than words.
+ */
+export function tagWords(words: string[]): TaggedToken[] {
+  const expanded = words.flatMap((word, index) => splitContraction(word).map(part => ({ word: part, index })));
+  const tokenWords = expanded.map(t => t.word);
+  const guesses = tokenWords.map(guessTag);
+
+  const tags: PosTag[] = [];
+  tokenWords.forEach((_, i) => {
+    tags.push(tagToken(tokenWords, guesses, tags, i));
+    guesses[i] = tags[i]; // Later lookbehind sees the final tag
+  });
+
+  return expanded.map((token, i) => ({ ...token, tag: tags[i] }));
+}
+
+const NP_TAGS = new Set<PosTag>(['DET', 'NUM', 'ADJ', 'NOUN']);
+
+function isPossessive(token: TaggedToken | undefined): boolean {
+  return token?.word === "'s";
+}
+
+/**
+ * Group tagged tokens into base phrases (noun groups, verb groups,
+ * prepositions, subordinators...). Phrases don't nest; a prepositional
+ * phrase's object is the noun phrase chunk that follows it.
+ */
+export function chunkTokens(tokens: TaggedToken[]): Chunk[] {
+  const chunks: Chunk[] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    const start = i;
+    const { tag } = tokens[i];
+
+    if (tag === 'PRON') {
+      i++;
+      if (isPossessive(tokens[i])) {
+        // "everyone's garden"
+        i++;
+        while (i < tokens.length && NP_TAGS.has(tokens[i].tag)) i++;
+      }
+      chunks.push({ type: 'NP', tokens: tokens.slice(start, i) });
+    } else if (NP_TAGS.has(tag) || (tag === 'ADV' && tokens[i + 1]?.tag === 'ADJ' && NP_TAGS.has(tokens[i + 2]?.tag))) {
+      let hasNoun = false;
+      while (i < tokens.length) {
+        const current = tokens[i].tag;
+        if (current === 'NOUN') hasNoun = true;
+        else if (isPossessive(tokens[i])) hasNoun = false; // A possessive starts a new head
+        else if (hasNoun) break; // Nothing modifies a noun from the right inside a base phrase
+        else if (current === 'ADV' && tokens[i + 1]?.tag === 'ADJ') { i++; continue; }
+        else if (!NP_TAGS.has(current)) break;
+        i++;
+      }
+      const phrase = tokens.slice(start, i);
+      const nominal = phrase.some(t => t.tag === 'NOUN' || t.tag === 'DET' || t.tag === 'NUM');
+      chunks.push({ type: nominal ? 'NP' : 'ADJP', tokens: phrase });
+    } else if (tag === 'AUX' || tag === 'VERB' || tag === 'PART') {
+      // Auxiliaries, negation and "to", ending at the main verb
+      while (i < tokens.length) {
+        const current = tokens[i].tag;
+        i++;
+        if (current === 'VERB') break;
+        const following = tokens[i]?.tag;
+        const continues = following === 'AUX' || following === 'VERB' || following === 'PART' ||
+          (following === 'ADV' && ['AUX', 'VERB', 'PART'].includes(tokens[i + 1]?.tag ?? ''));
+        if (!continues) break;
+        if (following === 'ADV') i++;
+      }
+      chunks.push({ type: 'VP', tokens: tokens.slice(start, i) });
+    } else {
+      const type: ChunkType = tag === 'ADP' ? 'PP'
+        : tag === 'SCONJ' || tag === 'REL' ? 'SBAR'
+        : tag === 'CCONJ' ? 'CONJ'
+        : tag === 'INTJ' ? 'INTJ'
+        : 'ADVP';
+      i++;
+      if (type === 'ADVP') while (i < tokens.length && tokens[i].tag === 'ADV' && tokens[i + 1]?.tag !== 'ADJ') i++;
+      chunks.push({ type, tokens: tokens.slice(start, i) });
+    }
+  }
+
+  return chunks;
+}
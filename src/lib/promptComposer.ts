@@ -0,0 +1,152 @@
+/**
+ * Prompt Composer
+ * Builds Sage's system prompt from the user's conversation settings (pace,
+ * sentence complexity, familiar names, repetition), their preferred name,
+ * the names of connected family members, details from their life story,
+ * what Sage remembers from earlier conversations and whether calming mode is
+ * active. Every LLM provider uses the same composed prompt.
+ */
+
+import type { ConversationSettings, FamilyMember, MemoryFact } from '@/types';
+import type { GroundingFact } from './biographyGrounding';
+
+export interface PromptContext {
+  settings?: ConversationSettings;
+  preferredName?: string;
+  familyMembers?: FamilyMember[];
+  memories?: MemoryFact[]; // Already chosen for relevance (see lib/conversationMemory)
+  lifeStory?: GroundingFact[]; // Biography details, already chosen for relevance (see lib/biographyGrounding)
+}
+
+const SAGE_PERSONA = `You are Sage, a warm, empathetic, and thoughtful conversational assistant designed to engage users in natural daily conversation. Your role is to:
+
+- Be a supportive, attentive listener
+- Engage in natural, unscripted conversation
+- Maintain a calm, patient, human tone at all times
+- Show genuine interest in what the user shares
+- Ask thoughtful follow-up questions when appropriate
+- Remember context from the conversation`;
+
+// Used while calming mode is active - the user has sounded anxious or agitated for a while
+const SAGE_CALMING_PERSONA = `You are Sage, a gentle, reassuring companion. The person you are talking with may be feeling anxious, upset or unsettled right now. Your role is to:
+
+- Reassure them that they are safe and that there is no hurry
+- Acknowledge their feelings without questioning or correcting them
+- Never argue, contradict, or insist on facts
+- Gently steer toward pleasant, familiar topics such as family, favorite places, music or happy memories
+- Ask at most one easy question at a time, or simply offer comfort
+- Never mention that they seem upset`;
+
+// Apply in every mode
+const SAGE_BOUNDARIES = `- Never mention analysis, scoring, health cards, or caregivers
+- Never diagnose, label, or alarm the user`;
+
+const COMPLEXITY_GUIDANCE: Record<ConversationSettings['sentenceComplexity'], string> = {
+  simple: '- Use short, simple sentences with everyday words, one idea per sentence (1-2 sentences per response)',
+  moderate: '- Keep responses concise and conversational (2-3 sentences typically)',
+  complex: '- Feel free to use richer vocabulary and longer sentences, but keep responses to 3-4 sentences'
+};
+
+const PACE_GUIDANCE: Record<ConversationSettings['speechRate'], string | null> = {
+  slow: '- Your words are read aloud slowly, so keep sentences short and leave room for natural pauses',
+  normal: null,
+  fast: null
+};
+
+const DEFAULT_SETTINGS: ConversationSettings = {
+  speechRate: 'normal',
+  sentenceComplexity: 'moderate',
+  usesFamiliarNames: true,
+  repetitionEnabled: true,
+  calmingModeActive: false
+};
+
+/**
+ * Guidance about how to address the user and the people in their life
+ */
+function composeNameGuidance(context: PromptContext, settings: ConversationSettings): string[] {
+  if (!settings.usesFamiliarNames) {
+    return ['- Do not address the user or the people they mention by name unless they ask you to'];
+  }
+
+  const lines: string[] = [];
+  const name = context.preferredName?.trim();
+  if (name) {
+    lines.push(`- The user likes to be called ${name}; use their name now and then, not in every response`);
+  }
+  const family = (context.familyMembers ?? [])
+    .filter(member => member.status === 'connected' && member.name.trim())
+    .map(member => (member.relationship ? `${member.name} (${member.relationship})` : member.name));
+  if (family.length > 0) {
+    lines.push(`- People in their life include ${family.join(', ')}; refer to them by name when they come up`);
+  }
+  return lines;
+}
+
+/**
+ * Details from the person's life story that Sage can ask about
+ */
+function composeLifeStoryGuidance(lifeStory: GroundingFact[] = []): string[] {
+  if (lifeStory.length === 0) return [];
+  return [
+    "- From their life story you know the following. You may warmly ask about one of these when it fits, e.g. by name, but never quiz them or correct what they remember:",
+    ...lifeStory.map(fact => `  - ${fact.detail}${fact.chapter ? ` (${fact.chapter})` : ''}`)
+  ];
+}
+
+/**
+ * What Sage remembers from earlier conversations, with when events happen
+ */
+function composeMemoryGuidance(memories: MemoryFact[] = [], now = new Date()): string[] {
+  if (memories.length === 0) return [];
+
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const facts = memories.map(memory => {
+    if (!memory.eventDate) return `  - ${memory.statement}`;
+    const date = new Date(memory.eventDate);
+    const day = date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+    return date < today
+      ? `  - ${memory.statement} (that was ${day}; you could ask how it went)`
+      : `  - ${memory.statement} (${day})`;
+  });
+
+  return [
+    "- From earlier conversations you remember the following. Bring it up naturally when it fits, don't recite it, and if they remember something differently, go along with them:",
+    ...facts
+  ];
+}
+
+/**
+ * System prompt for Sage, adapted to the user's settings
+ */
+export function composeSystemPrompt(context: PromptContext = {}): string {
+  const settings = context.settings ?? DEFAULT_SETTINGS;
+  const calming = settings.calmingModeActive;
+
+  // Calming mode always keeps responses short, whatever the usual complexity
+  const complexity = calming ? COMPLEXITY_GUIDANCE.simple : COMPLEXITY_GUIDANCE[settings.sentenceComplexity];
+  const pace = calming ? PACE_GUIDANCE.slow : PACE_GUIDANCE[settings.speechRate];
+  const repetition = settings.repetitionEnabled
+    ? "- If the user seems unsure or asks again, gently repeat or rephrase the important part; don't point out that you are repeating"
+    : '- Avoid repeating yourself unless the user asks';
+
+  const guidance = [
+    complexity,
+    pace,
+    repetition,
+    ...composeNameGuidance(context, settings),
+    ...composeLifeStoryGuidance(context.lifeStory),
+    ...composeMemoryGuidance(context.memories),
+    SAGE_BOUNDARIES
+  ].filter(Boolean);
+
+  const closing = calming
+    ? 'You are having a voice-first conversation, so keep your words warm, calm and unhurried.'
+    : 'You are having a voice-first conversation, so keep responses natural and conversational.';
+
+  return `${calming ? SAGE_CALMING_PERSONA : SAGE_PERSONA}
+${guidance.join('\n')}
+
+${closing}`;
+}
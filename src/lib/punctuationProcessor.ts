@@ -6,7 +6,7 @@
 /**
  * Detects if a sentence is a question
  */
-function isQuestion(sentence: string): boolean {
+export function isQuestion(sentence: string): boolean {
   const trimmed = sentence.trim().toLowerCase();
   
   // Question words at the start
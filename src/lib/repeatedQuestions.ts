@@ -0,0 +1,234 @@
+/**
+ * Repeated Question Detection
+ * Pulls questions out of every conversation and recording, groups paraphrases
+ * ("When is Sarah coming?" / "What time is Sarah getting here?") and reports
+ * how often each one comes back across days
+ */
+
+import type { SpeechAnalysis, TalkSession } from '@/types';
+import { isQuestion } from './punctuationProcessor';
+
+export interface QuestionOccurrence {
+  text: string;
+  timestamp: Date;
+  source: 'talk' | 'speech';
+  sourceId: string;
+}
+
+export interface RepeatedQuestion {
+  key: string; // Normalized first phrasing; stays the same as the group grows
+  representative: string; // Most frequent phrasing
+  occurrences: QuestionOccurrence[];
+  count: number;
+  dayCount: number; // Distinct days the question was asked
+  days: { date: string; count: number }[]; // Per-day counts, oldest first
+  firstAsked: Date;
+  lastAsked: Date;
+  examples: string[]; // Distinct phrasings, up to MAX_EXAMPLES
+}
+
+export interface RepeatedQuestionOptions {
+  windowDays?: number | null; // null = all history
+  minDays?: number; // Report only questions asked on at least this many days
+  similarityThreshold?: number; // 0-1
+  now?: Date;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<RepeatedQuestionOptions, 'now'>> = {
+  windowDays: 30,
+  minDays: 2,
+  similarityThreshold: 0.5
+};
+
+const MIN_QUESTION_WORDS = 3;
+const MAX_EXAMPLES = 3;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'am', 'do', 'does', 'did',
+  'will', 'would', 'can', 'could', 'should', 'shall', 'have', 'has', 'had', 'to', 'of',
+  'in', 'on', 'at', 'for', 'it', 'that', 'this', 'there', 'here', 'so', 'and', 'or',
+  'but', 'just', 'again', 'please', 'um', 'uh', 'oh', 'well', 'you', 'me', 'i', 'we',
+  'what', 'when', 'where', 'who', 'why', 'how', 'which', 'time', 'get', 'getting', 'going'
+]);
+
+// Common paraphrases mapped to one form
+const SYNONYMS: Record<string, string> = {
+  mom: 'mother', mum: 'mother', mommy: 'mother', dad: 'father', daddy: 'father',
+  arrive: 'come', arriving: 'come', coming: 'come', came: 'come', visit: 'come', visiting: 'come',
+  eat: 'meal', eating: 'meal', lunch: 'meal', dinner: 'meal', supper: 'meal', breakfast: 'meal',
+  medicine: 'medication', meds: 'medication', pills: 'medication', pill: 'medication', tablets: 'medication',
+  doctors: 'doctor', appt: 'appointment', tonight: 'today', house: 'home', place: 'home'
+};
+
+/**
+ * What kind of answer the question asks for. "When" and "what time" are the
+ * same intent; a "where" question never matches a "when" question.
+ */
+function questionIntent(normalized: string): string {
+  if (/^(what time|when|how long|how soon)\b/.test(normalized) || /\bwhat time\b/.test(normalized)) return 'time';
+  if (/^where\b/.test(normalized)) return 'place';
+  if (/^(who|whose|whom)\b/.test(normalized)) return 'person';
+  if (/^why\b/.test(normalized)) return 'reason';
+  if (/^how\b/.test(normalized)) return 'manner';
+  if (/^(what|which)\b/.test(normalized)) return 'thing';
+  return 'yes_no';
+}
+
+function normalizeQuestion(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9' ]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function stem(word: string): string {
+  if (SYNONYMS[word]) return SYNONYMS[word];
+  const stemmed = word.replace(/'s$/, '').replace(/(ing|ed|es|s)$/, '');
+  return stemmed.length >= 3 ? stemmed : word;
+}
+
+function contentTerms(normalized: string): Set<string> {
+  return new Set(
+    normalized.split(' ')
+      .filter(w => w.length > 0 && !STOP_WORDS.has(w))
+      .map(stem)
+  );
+}
+
+function trigrams(normalized: string): Set<string> {
+  const padded = ` ${normalized} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(item => { if (b.has(item)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Fuzzy similarity between two questions, 0-1.
+ * Mostly overlap of content words (after synonyms and stemming), with a
+ * character trigram term to absorb transcription spelling differences.
+ */
+export function questionSimilarity(a: string, b: string): number {
+  const na = normalizeQuestion(a);
+  const nb = normalizeQuestion(b);
+  if (na === nb) return 1;
+  if (questionIntent(na) !== questionIntent(nb)) return 0;
+
+  return 0.7 * dice(contentTerms(na), contentTerms(nb)) + 0.3 * dice(trigrams(na), trigrams(nb));
+}
+
+/**
+ * Split a transcript into sentences and keep the questions
+ */
+export function extractQuestions(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0)
+    .filter(s => s.endsWith('?') || isQuestion(s.replace(/[.!]+$/, '')))
+    .filter(s => normalizeQuestion(s).split(' ').length >= MIN_QUESTION_WORDS);
+}
+
+/**
+ * Every question asked in the window, from Talk user turns and recordings
+ */
+export function collectQuestions(
+  talkSessions: TalkSession[],
+  speechAnalyses: SpeechAnalysis[],
+  since: Date
+): QuestionOccurrence[] {
+  const occurrences: QuestionOccurrence[] = [];
+
+  talkSessions.forEach(session => {
+    session.messages
+      .filter(m => m.role === 'user')
+      .forEach(message => {
+        const timestamp = new Date(message.timestamp);
+        if (timestamp < since) return;
+        extractQuestions(message.content).forEach(text => {
+          occurrences.push({ text, timestamp, source: 'talk', sourceId: session.id });
+        });
+      });
+  });
+
+  speechAnalyses.forEach(analysis => {
+    const timestamp = new Date(analysis.timestamp);
+    if (timestamp < since) return;
+    extractQuestions(analysis.transcript).forEach(text => {
+      occurrences.push({ text, timestamp, source: 'speech', sourceId: analysis.id });
+    });
+  });
+
+  return occurrences.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Group paraphrased questions. A question joins the first group containing a
+ * phrasing similar enough to it.
+ */
+export function groupQuestions(occurrences: QuestionOccurrence[], threshold: number): QuestionOccurrence[][] {
+  const groups: QuestionOccurrence[][] = [];
+
+  occurrences.forEach(occurrence => {
+    const group = groups.find(g =>
+      g.some(member => questionSimilarity(member.text, occurrence.text) >= threshold)
+    );
+    if (group) group.push(occurrence);
+    else groups.push([occurrence]);
+  });
+
+  return groups;
+}
+
+function summarizeGroup(group: QuestionOccurrence[]): RepeatedQuestion {
+  const phrasings = new Map<string, { text: string; count: number }>();
+  group.forEach(o => {
+    const key = normalizeQuestion(o.text);
+    const entry = phrasings.get(key) ?? { text: o.text, count: 0 };
+    entry.count++;
+    phrasings.set(key, entry);
+  });
+  const representative = [...phrasings.values()].sort((a, b) => b.count - a.count)[0];
+
+  const dayCounts = new Map<string, number>();
+  group.forEach(o => {
+    const date = o.timestamp.toDateString();
+    dayCounts.set(date, (dayCounts.get(date) ?? 0) + 1);
+  });
+
+  return {
+    key: normalizeQuestion(group[0].text),
+    representative: representative.text,
+    occurrences: group,
+    count: group.length,
+    dayCount: dayCounts.size,
+    days: [...dayCounts.entries()].map(([date, count]) => ({ date, count })),
+    firstAsked: group[0].timestamp,
+    lastAsked: group[group.length - 1].timestamp,
+    examples: [...phrasings.values()].slice(0, MAX_EXAMPLES).map(p => p.text)
+  };
+}
+
+/**
+ * Questions asked again on different days, most persistent first
+ */
+export function detectRepeatedQuestions(
+  talkSessions: TalkSession[],
+  speechAnalyses: SpeechAnalysis[],
+  options: RepeatedQuestionOptions = {}
+): RepeatedQuestion[] {
+  const { windowDays, minDays, similarityThreshold } = { ...DEFAULT_OPTIONS, ...options };
+  const now = options.now ?? new Date();
+  const since = windowDays === null ? new Date(0) : new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000);
+
+  const occurrences = collectQuestions(talkSessions, speechAnalyses, since);
+
+  return groupQuestions(occurrences, similarityThreshold)
+    .map(summarizeGroup)
+    .filter(q => q.dayCount >= minDays)
+    .sort((a, b) => b.dayCount - a.dayCount || b.count - a.count);
+}
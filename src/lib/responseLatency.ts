@@ -0,0 +1,76 @@
+/**
+ * Response Latency
+ * Times each user turn in Talk against the end of Sage's spoken prompt:
+ * when TTS playback finished, when the microphone opened, when speech
+ * recognition first detected voice and when the final result arrived
+ */
+
+import type { TurnTiming } from '@/types';
+
+type TimedMessage = { role: string; timestamp: Date; timing?: TurnTiming };
+
+export interface LatencySample {
+  seconds: number;
+  measured: boolean; // From turn timings rather than message timestamps
+}
+
+/**
+ * Start timing a user turn when the microphone opens
+ */
+export function createTurnTiming(promptEndedAt: number | null, recordingStartedAt: number = Date.now()): TurnTiming {
+  return {
+    promptEndedAt,
+    recordingStartedAt,
+    voiceDetectedAt: null,
+    finalResultAt: null,
+    latencyMs: null
+  };
+}
+
+/**
+ * Record the first sign of speech (speechstart or the first recognition result).
+ * Later calls are ignored.
+ */
+export function markVoiceDetected(timing: TurnTiming, at: number = Date.now()): void {
+  if (timing.voiceDetectedAt === null) timing.voiceDetectedAt = at;
+}
+
+/**
+ * Record a final speech recognition result; the last one wins
+ */
+export function markFinalResult(timing: TurnTiming, at: number = Date.now()): void {
+  markVoiceDetected(timing, at);
+  timing.finalResultAt = at;
+}
+
+/**
+ * Work out the turn's response latency: from the later of Sage finishing
+ * and the microphone opening, to the first detected voice. Starting from the
+ * microphone keeps the button press out of the measurement.
+ */
+export function finalizeTurnTiming(timing: TurnTiming): TurnTiming {
+  if (timing.voiceDetectedAt === null) return { ...timing, latencyMs: null };
+  const start = Math.max(timing.promptEndedAt ?? timing.recordingStartedAt, timing.recordingStartedAt);
+  return { ...timing, latencyMs: Math.max(0, timing.voiceDetectedAt - start) };
+}
+
+/**
+ * Response latencies for a conversation. Uses measured turn timings when the
+ * session has them; older sessions fall back to the gap between message
+ * timestamps, which also includes TTS playback and button presses.
+ */
+export function getResponseLatencies(messages: TimedMessage[]): LatencySample[] {
+  const measured = messages
+    .filter(m => m.role === 'user' && m.timing?.latencyMs !== null && m.timing?.latencyMs !== undefined)
+    .map(m => ({ seconds: (m.timing as TurnTiming).latencyMs as number / 1000, measured: true }));
+  if (measured.length > 0) return measured;
+
+  const estimated: LatencySample[] = [];
+  for (let i = 1; i < messages.length; i++) {
+    if (messages[i].role === 'user' && messages[i - 1].role === 'sage') {
+      const latency = new Date(messages[i].timestamp).getTime() - new Date(messages[i - 1].timestamp).getTime();
+      estimated.push({ seconds: latency / 1000, measured: false });
+    }
+  }
+  return estimated;
+}
@@ -0,0 +1,153 @@
+/**
+ * Score Backfill
+ * Reruns the current scoring engine over stored recordings and conversations
+ * so trend charts never mix scores from different algorithm versions, and
+ * reports how far each score moved
+ */
+
+import type { SpeechAnalysis, TalkSession } from '@/types';
+import { SCORING_VERSION, getScoringVersion, isScoreCurrent, rescoreSpeechAnalysis, rescoreTalkSession } from './scoringEngine';
+
+export type BackfillRecordKind = 'speech' | 'talk';
+
+export interface ScoreChange {
+  id: string;
+  kind: BackfillRecordKind;
+  timestamp: Date;
+  fromVersion: string;
+  before: number | null; // Charted score: vocabularyComplexity for recordings, cliScore for conversations
+  after: number | null;
+  delta: number | null;
+}
+
+export interface BackfillSummary {
+  total: number;
+  rescored: number;
+  meanDelta: number | null; // Points, signed
+  meanAbsoluteDelta: number | null;
+  maxAbsoluteDelta: number | null;
+}
+
+export interface BackfillReport {
+  version: string; // Version every rescored record now carries
+  speech: BackfillSummary;
+  talk: BackfillSummary;
+  changes: ScoreChange[];
+}
+
+export interface BackfillOptions {
+  force?: boolean; // Rescore records already on the current version
+}
+
+export interface BackfillResult {
+  speechAnalyses: SpeechAnalysis[];
+  talkSessions: TalkSession[];
+  report: BackfillReport;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function recordChange(
+  kind: BackfillRecordKind,
+  id: string,
+  timestamp: Date,
+  fromVersion: string,
+  before: number | null,
+  after: number | null
+): ScoreChange {
+  return {
+    id,
+    kind,
+    timestamp: new Date(timestamp),
+    fromVersion,
+    before,
+    after,
+    delta: before !== null && after !== null ? round(after - before) : null
+  };
+}
+
+function summarize(kind: BackfillRecordKind, total: number, changes: ScoreChange[]): BackfillSummary {
+  const ofKind = changes.filter(c => c.kind === kind);
+  const deltas = ofKind.map(c => c.delta).filter((d): d is number => d !== null);
+  const absolute = deltas.map(Math.abs);
+
+  return {
+    total,
+    rescored: ofKind.length,
+    meanDelta: deltas.length > 0 ? round(deltas.reduce((a, b) => a + b, 0) / deltas.length) : null,
+    meanAbsoluteDelta: absolute.length > 0 ? round(absolute.reduce((a, b) => a + b, 0) / absolute.length) : null,
+    maxAbsoluteDelta: absolute.length > 0 ? Math.max(...absolute) : null
+  };
+}
+
+/**
+ * Rescore stored records with the current algorithm. Records already on the
+ * current version are left alone unless `force` is set. Returns new arrays;
+ * the inputs are not modified.
+ */
+export function backfillScores(
+  speechAnalyses: SpeechAnalysis[],
+  talkSessions: TalkSession[],
+  options: BackfillOptions = {}
+): BackfillResult {
+  const changes: ScoreChange[] = [];
+  const shouldRescore = (record: { scoringVersion?: string }) => options.force || !isScoreCurrent(record);
+
+  const rescoredAnalyses = speechAnalyses.map(analysis => {
+    // Recordings saved to Supabase before their duration was stored can't be rescored
+    if (!shouldRescore(analysis) || !analysis.transcript || !analysis.duration) return analysis;
+    const rescored = rescoreSpeechAnalysis(analysis);
+    changes.push(recordChange(
+      'speech',
+      analysis.id,
+      analysis.timestamp,
+      getScoringVersion(analysis),
+      analysis.metrics?.vocabularyComplexity ?? null,
+      rescored.metrics.vocabularyComplexity
+    ));
+    return rescored;
+  });
+
+  const rescoredSessions = talkSessions.map(session => {
+    if (!shouldRescore(session) || session.status !== 'completed') return session;
+    const rescored = rescoreTalkSession(session);
+    changes.push(recordChange('talk', session.id, session.timestamp, getScoringVersion(session), session.cliScore, rescored.cliScore));
+    return rescored;
+  });
+
+  return {
+    speechAnalyses: rescoredAnalyses,
+    talkSessions: rescoredSessions,
+    report: {
+      version: SCORING_VERSION,
+      speech: summarize('speech', speechAnalyses.length, changes),
+      talk: summarize('talk', talkSessions.length, changes),
+      changes
+    }
+  };
+}
+
+/**
+ * Plain-text report for logs and the command line
+ */
+export function formatBackfillReport(report: BackfillReport, maxChanges: number = 10): string {
+  const formatDelta = (value: number | null) => value === null ? 'n/a' : `${value > 0 ? '+' : ''}${value}`;
+  const summaryLine = (label: string, summary: BackfillSummary) =>
+    `${label}: ${summary.rescored}/${summary.total} rescored, mean change ${formatDelta(summary.meanDelta)}, ` +
+    `mean |change| ${summary.meanAbsoluteDelta ?? 'n/a'}, largest |change| ${summary.maxAbsoluteDelta ?? 'n/a'}`;
+
+  const largest = report.changes
+    .filter(c => c.delta !== null && c.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta as number) - Math.abs(a.delta as number))
+    .slice(0, maxChanges)
+    .map(c => `  ${c.kind} ${c.id} (${c.timestamp.toISOString().slice(0, 10)}, v${c.fromVersion}): ${c.before} -> ${c.after} (${formatDelta(c.delta)})`);
+
+  return [
+    `Scoring version ${report.version}`,
+    summaryLine('Recordings (vocabulary)', report.speech),
+    summaryLine('Conversations (CLI)', report.talk),
+    ...(largest.length > 0 ? ['Largest changes:', ...largest] : [])
+  ].join('\n');
+}
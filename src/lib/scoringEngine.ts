@@ -0,0 +1,95 @@
+/**
+ * Scoring Engine
+ * Single entry point for every language score Sage stores. Recordings
+ * (VoiceRecorder, Speak) and conversations (Talk) are scored here with shared
+ * fluency and vocabulary definitions, and each result is stamped with the
+ * algorithm version so older records can be recomputed when scoring changes
+ */
+
+import type { AudioFeatures, SpeechAnalysis, TalkSession } from '@/types';
+import { analyzeSpeech, calculateLanguageScores } from './speechAnalysis';
+import { calculateCLIScore } from './cliScoring';
+
+// Bump whenever a change to speechAnalysis, cliScoring or the modules they use
+// would change a stored score
+export const SCORING_VERSION = '2.5.0';
+
+// Records stored before scores were versioned
+export const LEGACY_SCORING_VERSION = '1.0.0';
+
+type ConversationScores = Pick<TalkSession, 'cliScore' | 'cliBreakdown' | 'coherence' | 'scoringVersion'>;
+
+/**
+ * Version of the algorithm that produced a stored score
+ */
+export function getScoringVersion(record: { scoringVersion?: string }): string {
+  return record.scoringVersion ?? LEGACY_SCORING_VERSION;
+}
+
+/**
+ * Whether a stored score was produced by the current algorithm
+ */
+export function isScoreCurrent(record: { scoringVersion?: string }): boolean {
+  return getScoringVersion(record) === SCORING_VERSION;
+}
+
+/**
+ * Analyze and score a single recording
+ */
+export function scoreSpeechSample(
+  transcript: string,
+  durationSeconds: number,
+  audio?: AudioFeatures | null
+): Omit<SpeechAnalysis, 'id' | 'timestamp'> {
+  const analysis = analyzeSpeech(transcript, durationSeconds, audio);
+  return {
+    ...analysis,
+    scores: calculateLanguageScores(analysis),
+    scoringVersion: SCORING_VERSION
+  };
+}
+
+/**
+ * Score a finished conversation (Cognitive Linguistic Index)
+ */
+export function scoreConversation(
+  messages: TalkSession['messages'],
+  durationSeconds: number,
+  audio?: AudioFeatures | null
+): ConversationScores {
+  // Timestamps come back as strings from storage
+  const timedMessages = messages.map(m => ({ ...m, timestamp: new Date(m.timestamp) }));
+  const result = calculateCLIScore(timedMessages, durationSeconds, audio);
+  return {
+    cliScore: result.overall,
+    cliBreakdown: result.breakdown,
+    coherence: result.coherence,
+    scoringVersion: SCORING_VERSION
+  };
+}
+
+/**
+ * Recompute a stored recording's metrics and scores with the current algorithm.
+ * Identity, timestamp and time of day are kept.
+ */
+export function rescoreSpeechAnalysis(analysis: SpeechAnalysis): SpeechAnalysis {
+  return {
+    ...analysis,
+    ...scoreSpeechSample(analysis.transcript, analysis.duration, analysis.audioFeatures),
+    id: analysis.id,
+    timestamp: analysis.timestamp,
+    timeOfDay: analysis.timeOfDay
+  };
+}
+
+/**
+ * Recompute a stored conversation's CLI score with the current algorithm.
+ * Sessions that were never completed are returned unchanged.
+ */
+export function rescoreTalkSession(session: TalkSession): TalkSession {
+  if (session.status !== 'completed') return session;
+  return {
+    ...session,
+    ...scoreConversation(session.messages, session.duration, session.audioFeatures)
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Sentence Chunker
+ * Splits a streamed reply into sentences as the text arrives, so each one can
+ * be spoken as soon as it is complete instead of after the whole reply
+ */
+
+export interface SentenceChunker {
+  buffer: string; // Text received but not yet part of a complete sentence
+}
+
+// Sentence end: terminal punctuation (and closing quotes or brackets) followed
+// by whitespace, or a line break. Waiting for the whitespace keeps "3.5" whole.
+const BOUNDARY = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+
+// Words whose trailing period doesn't end a sentence
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'st', 'jr', 'sr', 'prof', 'mt', 'vs', 'etc', 'e.g', 'i.e', 'a.m', 'p.m']);
+
+// Shorter sentences ("Oh!") are held and spoken with the next one
+const MIN_SENTENCE_LENGTH = 12;
+
+/**
+ * Whether the boundary ending at this index is a real sentence end
+ */
+function isSentenceEnd(text: string, punctuationIndex: number): boolean {
+  if (text[punctuationIndex] !== '.') return true;
+  const lastWord = text.slice(0, punctuationIndex).split(/\s+/).pop()?.toLowerCase() ?? '';
+  if (ABBREVIATIONS.has(lastWord)) return false;
+  return !/^[a-z]$/.test(lastWord); // Initials ("J. R. Smith")
+}
+
+/**
+ * Start chunking one reply
+ */
+export function createSentenceChunker(): SentenceChunker {
+  return { buffer: '' };
+}
+
+/**
+ * Add streamed text and return any sentences it completed
+ */
+export function pushText(chunker: SentenceChunker, text: string): string[] {
+  chunker.buffer += text;
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of chunker.buffer.matchAll(BOUNDARY)) {
+    const end = (match.index ?? 0) + match[0].length;
+    const sentence = chunker.buffer.slice(start, end).trim();
+    const isLineBreak = match[0].trim().length === 0;
+    if (!isLineBreak && !isSentenceEnd(chunker.buffer, match.index ?? 0)) continue;
+    if (sentence.length < MIN_SENTENCE_LENGTH && !isLineBreak) continue;
+    if (sentence.length > 0) sentences.push(sentence);
+    start = end;
+  }
+
+  chunker.buffer = chunker.buffer.slice(start);
+  return sentences;
+}
+
+/**
+ * Whatever is left once the reply has finished streaming
+ */
+export function flushChunker(chunker: SentenceChunker): string | null {
+  const rest = chunker.buffer.trim();
+  chunker.buffer = '';
+  return rest.length > 0 ? rest : null;
+}
@@ -1,4 +1,8 @@
-import type { SpeechAnalysis, EmotionalState } from '@/types';
+import type { SpeechAnalysis, SpeechScores, AudioFeatures } from '@/types';
+import { analyzeLexicalMetrics, calculateVocabularyComplexity } from './lexicalMetrics';
+import { analyzeSyntax, calculateGrammarConsistency } from './syntacticMetrics';
+import { analyzeEmotion, getDominantEmotion } from './emotionAnalysis';
+import { detectDisfluencies } from './disfluencyDetection';
 
 // Calculate Flesch-Kincaid Grade Level
 export function calculateFleschKincaid(text: string): number {
@@ -29,51 +33,6 @@ function countSyllables(word: string): number {
   return matches ? matches.length : 1;
 }
 
-// Calculate vocabulary complexity (0-100)
-export function calculateVocabularyComplexity(text: string): number {
-  const words = text.toLowerCase().split(/\s+/).filter(w => w.length > 0);
-  if (words.length === 0) return 50;
-  
-  // Simple words (common, short)
-  const simpleWords = new Set([
-    'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
-    'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-    'should', 'may', 'might', 'must', 'can', 'and', 'but', 'or', 'if',
-    'then', 'else', 'when', 'where', 'why', 'how', 'what', 'who', 'which',
-    'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we',
-    'they', 'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'its',
-    'our', 'their', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-    'from', 'up', 'down', 'out', 'off', 'over', 'under', 'again', 'further',
-    'once', 'here', 'there', 'all', 'each', 'few', 'more', 'most', 'other',
-    'some', 'such', 'no', 'not', 'only', 'own', 'same', 'so', 'than', 'too',
-    'very', 'just', 'also', 'now', 'go', 'going', 'went', 'gone', 'come',
-    'came', 'see', 'saw', 'seen', 'look', 'looked', 'looking', 'get', 'got',
-    'say', 'said', 'tell', 'told', 'know', 'knew', 'think', 'thought',
-    'want', 'wanted', 'like', 'liked', 'need', 'needed', 'good', 'well',
-    'new', 'old', 'great', 'little', 'big', 'small', 'long', 'short',
-    'high', 'low', 'young', 'right', 'left', 'yes', 'no', 'okay', 'ok'
-  ]);
-  
-  let complexWordCount = 0;
-  const uniqueWords = new Set<string>();
-  
-  words.forEach(word => {
-    const cleanWord = word.replace(/[^a-z]/g, '');
-    uniqueWords.add(cleanWord);
-    if (!simpleWords.has(cleanWord) && cleanWord.length > 6) {
-      complexWordCount++;
-    }
-  });
-  
-  // Factors: unique word ratio, complex word ratio, average word length
-  const uniqueRatio = uniqueWords.size / words.length;
-  const complexRatio = complexWordCount / words.length;
-  const avgWordLength = words.reduce((sum, w) => sum + w.length, 0) / words.length;
-  
-  const score = (uniqueRatio * 30) + (complexRatio * 40) + (avgWordLength * 5);
-  return Math.min(100, Math.max(0, score));
-}
-
 // Detect repetitions in text
 export function detectRepetitions(text: string): number {
   const sentences = text.toLowerCase().split(/[.!?]+/).filter(s => s.trim().length > 0);
@@ -98,39 +57,13 @@ export function detectRepetitions(text: string): number {
   return repetitionCount;
 }
 
-// Calculate grammar consistency (simplified)
-export function calculateGrammarConsistency(text: string): number {
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  if (sentences.length === 0) return 75;
-  
-  let issues = 0;
-  
-  sentences.forEach(sentence => {
-    const trimmed = sentence.trim();
-    
-    // Check for capitalization at start
-    if (trimmed.length > 0 && trimmed[0] !== trimmed[0].toUpperCase()) {
-      issues++;
-    }
-    
-    // Check for double spaces
-    if (/\s{2,}/.test(trimmed)) {
-      issues++;
-    }
-    
-    // Check for incomplete sentences (very short)
-    const words = trimmed.split(/\s+/).filter(w => w.length > 0);
-    if (words.length < 2) {
-      issues++;
-    }
-  });
-  
-  const issueRate = issues / sentences.length;
-  return Math.max(0, Math.min(100, 100 - issueRate * 25));
-}
+// Detect pauses (pauses per minute of speaking time)
+// Uses measured silences when audio is available, otherwise estimates from punctuation
+export function detectPauses(text: string, durationSeconds: number, audio?: AudioFeatures): number {
+  if (audio && audio.speakingTime > 0) {
+    return Math.round((audio.pauseCount / audio.speakingTime) * 60 * 10) / 10;
+  }
 
-// Detect pauses (simulated based on punctuation and ellipses)
-export function detectPauses(text: string, durationSeconds: number): number {
   const pauseIndicators = (text.match(/\.{2,}|,|\-{2,}|…/g) || []).length;
   const pausesPerMinute = durationSeconds > 0 
     ? (pauseIndicators / durationSeconds) * 60 
@@ -138,56 +71,25 @@ export function detectPauses(text: string, durationSeconds: number): number {
   return Math.round(pausesPerMinute * 10) / 10;
 }
 
-// Calculate speech rate
-export function calculateSpeechRate(text: string, durationSeconds: number): number {
+// Calculate speech rate (words per minute, pauses included)
+// Measured from first to last voiced frame when audio is available
+export function calculateSpeechRate(text: string, durationSeconds: number, audio?: AudioFeatures): number {
   const words = text.split(/\s+/).filter(w => w.length > 0).length;
-  if (durationSeconds === 0) return 0;
-  return Math.round((words / durationSeconds) * 60);
+  const seconds = audio && audio.speakingTime > 0 ? audio.speakingTime : durationSeconds;
+  if (seconds === 0) return 0;
+  return Math.round((words / seconds) * 60);
 }
 
-// Analyze emotional tone (simplified sentiment analysis)
-export function analyzeEmotionalTone(text: string): EmotionalState {
-  const lowerText = text.toLowerCase();
-  
-  const emotionKeywords: Record<EmotionalState, string[]> = {
-    happy: ['happy', 'glad', 'wonderful', 'great', 'love', 'lovely', 'joy', 'beautiful', 'amazing', 'excited', 'laugh', 'smile', 'good'],
-    calm: ['peaceful', 'calm', 'relaxed', 'quiet', 'gentle', 'nice', 'fine', 'okay', 'alright', 'comfortable', 'easy'],
-    anxious: ['worried', 'anxious', 'nervous', 'scared', 'afraid', 'concern', 'stress', 'tension', 'uncertain', 'unsure', 'maybe', 'confused'],
-    sad: ['sad', 'miss', 'lonely', 'alone', 'tired', 'exhausted', 'difficult', 'hard', 'lost', 'gone', 'remember when', 'used to'],
-    agitated: ['angry', 'frustrated', 'annoyed', 'upset', 'hate', 'terrible', 'awful', 'wrong', 'stop', 'no', 'don\'t', 'can\'t'],
-    neutral: []
-  };
-  
-  const scores: Record<EmotionalState, number> = {
-    happy: 0, calm: 0, anxious: 0, sad: 0, agitated: 0, neutral: 1
-  };
-  
-  Object.entries(emotionKeywords).forEach(([emotion, keywords]) => {
-    keywords.forEach(keyword => {
-      const regex = new RegExp(`\\b${keyword}\\b`, 'gi');
-      const matches = lowerText.match(regex);
-      if (matches) {
-        scores[emotion as EmotionalState] += matches.length;
-      }
-    });
-  });
-  
-  let maxEmotion: EmotionalState = 'neutral';
-  let maxScore = 0;
-  
-  Object.entries(scores).forEach(([emotion, score]) => {
-    if (score > maxScore) {
-      maxScore = score;
-      maxEmotion = emotion as EmotionalState;
-    }
-  });
-  
-  return maxEmotion;
+// Calculate articulation rate (words per minute of phonation, pauses excluded)
+export function calculateArticulationRate(text: string, audio: AudioFeatures): number {
+  const words = text.split(/\s+/).filter(w => w.length > 0).length;
+  if (audio.phonationTime === 0) return 0;
+  return Math.round((words / audio.phonationTime) * 60);
 }
 
 // Get time of day category
-export function getTimeOfDay(): 'morning' | 'afternoon' | 'evening' | 'night' {
-  const hour = new Date().getHours();
+export function getTimeOfDay(date: Date = new Date()): 'morning' | 'afternoon' | 'evening' | 'night' {
+  const hour = date.getHours();
   if (hour >= 5 && hour < 12) return 'morning';
   if (hour >= 12 && hour < 17) return 'afternoon';
   if (hour >= 17 && hour < 21) return 'evening';
@@ -197,21 +99,32 @@ export function getTimeOfDay(): 'morning' | 'afternoon' | 'evening' | 'night' {
 // Full speech analysis
 export function analyzeSpeech(
   transcript: string, 
-  durationSeconds: number
+  durationSeconds: number,
+  audio?: AudioFeatures | null
 ): Omit<SpeechAnalysis, 'id' | 'timestamp'> {
+  const audioFeatures = audio ?? undefined;
+  const lexical = analyzeLexicalMetrics(transcript);
+  const syntax = analyzeSyntax(transcript);
+  const emotion = analyzeEmotion(transcript, audioFeatures);
+
   return {
     duration: durationSeconds,
     transcript,
     metrics: {
       sentenceLength: calculateAverageSentenceLength(transcript),
-      vocabularyComplexity: calculateVocabularyComplexity(transcript),
-      grammarConsistency: calculateGrammarConsistency(transcript),
+      vocabularyComplexity: calculateVocabularyComplexity(lexical),
+      grammarConsistency: calculateGrammarConsistency(syntax),
       repetitionCount: detectRepetitions(transcript),
-      pauseFrequency: detectPauses(transcript, durationSeconds),
-      speechRate: calculateSpeechRate(transcript, durationSeconds),
-      fleschKincaidGrade: calculateFleschKincaid(transcript)
+      pauseFrequency: detectPauses(transcript, durationSeconds, audioFeatures),
+      speechRate: calculateSpeechRate(transcript, durationSeconds, audioFeatures),
+      fleschKincaidGrade: calculateFleschKincaid(transcript),
+      ...(audioFeatures && { articulationRate: calculateArticulationRate(transcript, audioFeatures) })
     },
-    emotionalState: analyzeEmotionalTone(transcript),
+    ...(audioFeatures && { audioFeatures }),
+    lexical,
+    syntax,
+    emotionalState: getDominantEmotion(emotion.distribution),
+    emotion,
     timeOfDay: getTimeOfDay()
   };
 }
@@ -227,8 +140,37 @@ function calculateAverageSentenceLength(text: string): number {
   return Math.round(totalWords / sentences.length);
 }
 
-// Generate language complexity score (0-100)
-export function calculateLanguageComplexityScore(analysis: SpeechAnalysis): number {
+export interface FluencyInput {
+  speechRate: number; // words per minute
+  pauseFrequency: number; // pauses per minute
+  wordCount: number;
+  fillerCount?: number;
+  revisionCount?: number; // repetitions, false starts and self-corrections
+  extendedPauses?: number; // silent gaps longer than 2s
+}
+
+// Fluency score (0-100) shared by recordings and conversations
+// Comfortable conversational pace is roughly 110-180 wpm
+export function calculateFluencyScore(input: FluencyInput): number {
+  const { speechRate, pauseFrequency, wordCount, fillerCount = 0, revisionCount = 0, extendedPauses = 0 } = input;
+  if (wordCount === 0) return 0;
+
+  const fillerDensity = (fillerCount / wordCount) * 100;
+  const revisionDensity = (revisionCount / wordCount) * 100;
+
+  let score = 100;
+  if (speechRate < 110) score -= Math.min(30, (110 - speechRate) * 0.5);
+  else if (speechRate > 180) score -= Math.min(20, (speechRate - 180) * 0.3);
+  score -= Math.min(30, Math.max(0, pauseFrequency - 4) * 3);
+  if (extendedPauses > 2) score -= 10; // Long word-finding silences
+  score -= Math.min(25, Math.max(0, fillerDensity - 2) * 2.5);
+  score -= Math.min(15, Math.max(0, revisionDensity - 1) * 3);
+
+  return Math.round(Math.max(0, Math.min(100, score)));
+}
+
+// Language score breakdown for a recording (0-100 each)
+export function calculateLanguageScores(analysis: Omit<SpeechAnalysis, 'id' | 'timestamp'>): SpeechScores {
   const { metrics } = analysis;
   
   const weights = {
@@ -238,22 +180,32 @@ export function calculateLanguageComplexityScore(analysis: SpeechAnalysis): numb
     complexity: 0.3
   };
   
-  const vocabularyScore = metrics.vocabularyComplexity;
-  const grammarScore = metrics.grammarConsistency;
-  
-  // Fluency based on speech rate (optimal: 120-150 wpm) and pause frequency
-  const optimalRate = 135;
-  const rateDeviation = Math.abs(metrics.speechRate - optimalRate);
-  const fluencyScore = Math.max(0, 100 - rateDeviation * 0.5 - metrics.pauseFrequency * 5);
+  const disfluencies = detectDisfluencies(analysis.transcript);
+  const vocabulary = metrics.vocabularyComplexity;
+  const grammar = metrics.grammarConsistency;
+  const fluency = calculateFluencyScore({
+    speechRate: metrics.speechRate,
+    pauseFrequency: metrics.pauseFrequency,
+    wordCount: disfluencies.wordCount,
+    fillerCount: disfluencies.fillerCount,
+    revisionCount: disfluencies.repetitionCount + disfluencies.falseStartCount + disfluencies.selfCorrectionCount,
+    extendedPauses: analysis.audioFeatures?.pauseHistogram.extended
+  });
   
   // Complexity from Flesch-Kincaid (grade 8-12 is considered good for adults)
-  const complexityScore = Math.min(100, metrics.fleschKincaidGrade * 8);
+  const complexity = Math.round(Math.min(100, metrics.fleschKincaidGrade * 8));
   
-  return Math.round(
-    vocabularyScore * weights.vocabulary +
-    grammarScore * weights.grammar +
-    fluencyScore * weights.fluency +
-    complexityScore * weights.complexity
+  const overall = Math.round(
+    vocabulary * weights.vocabulary +
+    grammar * weights.grammar +
+    fluency * weights.fluency +
+    complexity * weights.complexity
   );
+  
+  return { overall, vocabulary, grammar, fluency, complexity };
 }
 
+// Generate language complexity score (0-100)
+export function calculateLanguageComplexityScore(analysis: SpeechAnalysis): number {
+  return analysis.scores?.overall ?? calculateLanguageScores(analysis).overall;
+}
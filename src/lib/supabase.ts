@@ -91,6 +91,9 @@ export interface Database {
           transcript: string;
           cli_score: number | null;
           cli_breakdown: any | null;
+          scoring_version: string | null;
+          audio_features: any | null;
+          coherence: any | null;
           status: string;
           duration: number;
           created_at: string;
@@ -103,6 +106,9 @@ export interface Database {
           transcript: string;
           cli_score?: number | null;
           cli_breakdown?: any | null;
+          scoring_version?: string | null;
+          audio_features?: any | null;
+          coherence?: any | null;
           status: string;
           duration: number;
           created_at?: string;
@@ -115,6 +121,9 @@ export interface Database {
           transcript?: string;
           cli_score?: number | null;
           cli_breakdown?: any | null;
+          scoring_version?: string | null;
+          audio_features?: any | null;
+          coherence?: any | null;
           status?: string;
           duration?: number;
         };
@@ -168,6 +177,8 @@ export interface Database {
           avg_sentence_length: number;
           emotional_state: string;
           language_complexity: number;
+          scoring_version: string | null;
+          emotion: any | null;
           created_at: string;
         };
         Insert: {
@@ -181,6 +192,8 @@ export interface Database {
           avg_sentence_length: number;
           emotional_state: string;
           language_complexity: number;
+          scoring_version?: string | null;
+          emotion?: any | null;
           created_at?: string;
         };
         Update: {
@@ -194,6 +207,8 @@ export interface Database {
           avg_sentence_length?: number;
           emotional_state?: string;
           language_complexity?: number;
+          scoring_version?: string | null;
+          emotion?: any | null;
         };
       };
       game_results: {
@@ -4,6 +4,7 @@
  */
 
 import { supabase } from './supabase';
+import { getTimeOfDay } from './speechAnalysis';
 import type { 
   User, 
   TalkSession, 
@@ -13,7 +14,8 @@ import type {
   Insight,
   FamilyRequest,
   MemorySession,
-  LifeChapter
+  LifeChapter,
+  MemoryFact
 } from '@/types';
 // Simple password hashing (in production, use Supabase Auth instead)
 // NOTE: This is NOT secure - you should migrate to Supabase Auth for production
@@ -132,6 +134,10 @@ export const talkSessionService = {
         transcript: session.transcript,
         cli_score: session.cliScore,
         cli_breakdown: session.cliBreakdown,
+        scoring_version: session.scoringVersion ?? null,
+        audio_features: session.audioFeatures ?? null,
+        coherence: session.coherence ?? null,
+        memory_probes: session.memoryProbes ?? null,
         status: session.status,
         duration: session.duration
       })
@@ -159,9 +165,42 @@ export const talkSessionService = {
       transcript: row.transcript,
       cliScore: row.cli_score,
       cliBreakdown: row.cli_breakdown,
+      scoringVersion: row.scoring_version ?? undefined,
+      audioFeatures: row.audio_features ?? undefined,
+      coherence: row.coherence ?? undefined,
+      memoryProbes: row.memory_probes ?? undefined,
       status: row.status,
       duration: row.duration
     }));
+  },
+
+  async updateScores(sessionId: string, session: TalkSession) {
+    const { data, error } = await supabase
+      .from('talk_sessions')
+      .update({
+        cli_score: session.cliScore,
+        cli_breakdown: session.cliBreakdown,
+        coherence: session.coherence ?? null,
+        scoring_version: session.scoringVersion ?? null
+      })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updateMessages(sessionId: string, messages: TalkSession['messages']) {
+    const { data, error } = await supabase
+      .from('talk_sessions')
+      .update({ messages })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
   }
 };
 
@@ -245,7 +284,11 @@ export const speechAnalysisService = {
         sentence_count: analysis.sentenceCount,
         avg_sentence_length: analysis.avgSentenceLength,
         emotional_state: analysis.emotionalState,
-        language_complexity: analysis.languageComplexity
+        language_complexity: analysis.scores?.overall ?? 0,
+        metrics: analysis.metrics,
+        duration: analysis.duration,
+        scoring_version: analysis.scoringVersion ?? null,
+        emotion: analysis.emotion ?? null
       })
       .select()
       .single();
@@ -263,17 +306,47 @@ export const speechAnalysisService = {
 
     if (error) throw error;
     
-    return data.map(row => ({
-      id: row.id,
-      timestamp: new Date(row.timestamp),
-      transcript: row.transcript,
-      wordCount: row.word_count,
-      avgWordLength: row.avg_word_length,
-      sentenceCount: row.sentence_count,
-      avgSentenceLength: row.avg_sentence_length,
-      emotionalState: row.emotional_state,
-      languageComplexity: row.language_complexity
-    }));
+    return data.map((row): SpeechAnalysis => {
+      const timestamp = new Date(row.timestamp);
+      return {
+        id: row.id,
+        timestamp,
+        duration: row.duration ?? 0,
+        transcript: row.transcript,
+        // Rows saved before metrics were stored only have the language score
+        metrics: row.metrics ?? {
+          sentenceLength: row.avg_sentence_length ?? 0,
+          vocabularyComplexity: row.language_complexity ?? 0,
+          grammarConsistency: 0,
+          repetitionCount: 0,
+          pauseFrequency: 0,
+          speechRate: 0,
+          fleschKincaidGrade: 0
+        },
+        scoringVersion: row.scoring_version ?? undefined,
+        emotionalState: row.emotional_state ?? 'neutral',
+        emotion: row.emotion ?? undefined,
+        timeOfDay: getTimeOfDay(timestamp)
+      };
+    });
+  },
+
+  async updateScores(analysisId: string, analysis: SpeechAnalysis) {
+    const { data, error } = await supabase
+      .from('speech_analyses')
+      .update({
+        language_complexity: analysis.scores?.overall ?? 0,
+        metrics: analysis.metrics,
+        emotional_state: analysis.emotionalState,
+        emotion: analysis.emotion ?? null,
+        scoring_version: analysis.scoringVersion ?? null
+      })
+      .eq('id', analysisId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
   }
 };
 
@@ -345,7 +418,8 @@ export const insightService = {
         type: insight.type,
         title: insight.title,
         description: insight.description,
-        read: insight.read || false
+        read: insight.read || false,
+        rule_key: insight.ruleKey || null
       })
       .select()
       .single();
@@ -369,7 +443,8 @@ export const insightService = {
       type: row.type,
       title: row.title,
       description: row.description,
-      read: row.read
+      read: row.read,
+      ruleKey: row.rule_key || undefined
     }));
   },
 
@@ -926,3 +1001,62 @@ export const memorySessionService = {
     return data;
   }
 };
+
+/**
+ * Memory Fact Operations (Sage's long-term conversational memory)
+ */
+export const memoryFactService = {
+  async upsert(userId: string, facts: MemoryFact[]) {
+    const { data, error } = await supabase
+      .from('memory_facts')
+      .upsert(facts.map(fact => ({
+        id: fact.id,
+        user_id: userId,
+        category: fact.category,
+        subject: fact.subject,
+        statement: fact.statement,
+        keywords: fact.keywords,
+        event_date: fact.eventDate ? new Date(fact.eventDate).toISOString() : null,
+        session_id: fact.sourceSessionId || null,
+        first_mentioned: new Date(fact.firstMentioned).toISOString(),
+        last_mentioned: new Date(fact.lastMentioned).toISOString(),
+        mention_count: fact.mentionCount
+      })))
+      .select();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async findByUserId(userId: string): Promise<MemoryFact[]> {
+    const { data, error } = await supabase
+      .from('memory_facts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_mentioned', { ascending: false });
+
+    if (error) throw error;
+
+    return data.map(row => ({
+      id: row.id,
+      category: row.category,
+      subject: row.subject,
+      statement: row.statement,
+      keywords: row.keywords || [],
+      ...(row.event_date && { eventDate: new Date(row.event_date) }),
+      sourceSessionId: row.session_id || '',
+      firstMentioned: new Date(row.first_mentioned),
+      lastMentioned: new Date(row.last_mentioned),
+      mentionCount: row.mention_count
+    }));
+  },
+
+  async delete(factId: string) {
+    const { error } = await supabase
+      .from('memory_facts')
+      .delete()
+      .eq('id', factId);
+
+    if (error) throw error;
+  }
+};
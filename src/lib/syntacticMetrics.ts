@@ -0,0 +1,265 @@
+/**
+ * Syntactic Metrics
+ * Sentence-structure measures built on the part-of-speech tagger and chunker:
+ * mean length of utterance, clause density, subordination index,
+ * verb-argument completeness and noun-phrase complexity
+ */
+
+import type { SyntacticMetrics } from '@/types';
+import { tokenizeWords } from './lexicalMetrics';
+import { SINGLE_WORD_FILLERS } from './disfluencyDetection';
+import { tagWords, chunkTokens, isBaseVerb, isBeForm, verbLemma, type Chunk, type TaggedToken } from './posTagger';
+
+// Verbs that need an object ("I bought" is incomplete)
+const TRANSITIVE_VERBS = new Set([
+  'put', 'bring', 'give', 'take', 'make', 'buy', 'need', 'want', 'like', 'love', 'enjoy', 'find', 'send',
+  'hold', 'keep', 'carry', 'wear', 'fix', 'hit', 'tell', 'use', 'raise', 'catch', 'throw', 'sell', 'choose'
+]);
+
+// Verbs that take a clause without "that" ("I think she went")
+const COMPLEMENT_VERBS = new Set([
+  'think', 'know', 'guess', 'believe', 'hope', 'say', 'feel', 'remember', 'wish', 'suppose', 'mean',
+  'realize', 'forget', 'bet'
+]);
+
+const WH_WORDS = new Set(['what', 'which', 'who', 'where', 'when', 'why', 'how']);
+
+// Subordinators that leave a gap in their clause ("where it is")
+const WH_SUBORDINATORS = new Set(['when', 'where', 'why', 'how']);
+
+// An utterance ending on one of these was cut off ("I went to the")
+const DANGLING_TAGS = new Set(['DET', 'ADP', 'SCONJ', 'REL', 'CCONJ', 'PART']);
+
+type ClauseKind = 'main' | 'subordinate' | 'coordinate'; // Coordinate: a predicate sharing the previous subject
+
+interface Clause {
+  kind: ClauseKind;
+  complete: boolean;
+}
+
+interface UtteranceAnalysis {
+  wordCount: number;
+  clauses: Clause[];
+  nounPhraseModifiers: number[];
+  fragment: boolean;
+}
+
+function nextChunkIndex(chunks: Chunk[], from: number): number {
+  let k = from;
+  while (k < chunks.length && (chunks[k].type === 'ADVP' || chunks[k].type === 'INTJ')) k++;
+  return k;
+}
+
+function previousChunkIndex(chunks: Chunk[], from: number): number {
+  let k = from;
+  while (k >= 0 && (chunks[k].type === 'ADVP' || chunks[k].type === 'INTJ')) k--;
+  return k;
+}
+
+/**
+ * Index of the subject noun phrase before a verb group, skipping
+ * prepositional modifiers ("the man in the hat laughed"), or -1
+ */
+function findSubject(chunks: Chunk[], verbIndex: number): number {
+  let k = previousChunkIndex(chunks, verbIndex - 1);
+  while (k >= 0 && chunks[k].type === 'NP') {
+    if (chunks[k - 1]?.type !== 'PP') return k;
+    k -= 2; // Object of a preposition; keep looking for the head
+  }
+  return -1;
+}
+
+function isRelativeMarker(chunk: Chunk | undefined): boolean {
+  return chunk?.type === 'SBAR' && chunk.tokens[0].tag === 'REL';
+}
+
+/**
+ * Modifiers inside a noun phrase plus "of" phrases and relative clauses after it
+ */
+function countNounPhraseModifiers(chunks: Chunk[], k: number): number {
+  const tokens = chunks[k].tokens;
+  const head = tokens.map(t => t.tag).lastIndexOf('NOUN');
+  let modifiers = tokens.filter((t, i) =>
+    t.tag === 'ADJ' || t.tag === 'NUM' || t.word === "'s" || (t.tag === 'NOUN' && i < head)
+  ).length;
+
+  const next = chunks[k + 1];
+  if (next?.type === 'PP' && next.tokens[0].word === 'of' && chunks[k + 2]?.type === 'NP') modifiers++;
+  if (isRelativeMarker(next)) modifiers++;
+  return modifiers;
+}
+
+function analyzeUtterance(tokens: TaggedToken[], wordCount: number): UtteranceAnalysis {
+  const chunks = chunkTokens(tokens);
+  const clauses: Clause[] = [];
+  const nounPhraseModifiers: number[] = [];
+  const firstContent = nextChunkIndex(chunks, 0);
+  const whQuestion = WH_WORDS.has(chunks[firstContent]?.tokens[0].word ?? '');
+  const lastTag = tokens[tokens.length - 1]?.tag;
+  const dangling = lastTag !== undefined && DANGLING_TAGS.has(lastTag) && tokens[tokens.length - 1].word !== 'not';
+
+  let subordinatorPending = false;
+  let gapPending = false; // A relative or wh-word stands in for the subject or object
+  let previousVerb: { lemma: string; chunkIndex: number } | null = null;
+  const mainVerbOfQuestion = new Set<number>();
+
+  chunks.forEach((chunk, k) => {
+    if (chunk.type === 'NP' && chunk.tokens.some(t => t.tag === 'NOUN')) {
+      nounPhraseModifiers.push(countNounPhraseModifiers(chunks, k));
+    }
+    if (chunk.type === 'SBAR') {
+      subordinatorPending = true;
+      gapPending = gapPending || isRelativeMarker(chunk) || WH_SUBORDINATORS.has(chunk.tokens[0].word);
+      return;
+    }
+    if (chunk.type === 'CONJ') {
+      subordinatorPending = false;
+      return;
+    }
+    if (chunk.type !== 'VP' || mainVerbOfQuestion.has(k)) return;
+
+    const first = chunk.tokens[0];
+    const previous = chunks[k - 1];
+    const nonFinite = first.word === 'to' ||
+      (first.tag === 'VERB' && first.word.endsWith('ing') && (previous?.type === 'PP' || previous?.type === 'VP'));
+
+    // Main verb and what follows it; questions put the subject between auxiliary and verb
+    let verbChunk = chunk;
+    let verbIndex = k;
+    let subjectIndex = findSubject(chunks, k);
+    const auxiliaryOnly = chunk.tokens.every(t => t.tag !== 'VERB');
+    const subjectIsWhWord = subjectIndex !== -1 && WH_WORDS.has(chunks[subjectIndex].tokens[0].word);
+    const inverted = (subjectIndex === -1 || subjectIsWhWord) && auxiliaryOnly && !nonFinite && chunks[nextChunkIndex(chunks, k + 1)]?.type === 'NP';
+    if (inverted) {
+      subjectIndex = nextChunkIndex(chunks, k + 1);
+      const following = nextChunkIndex(chunks, subjectIndex + 1);
+      if (chunks[following]?.type === 'VP' && chunks[following].tokens[0].word !== 'to') {
+        mainVerbOfQuestion.add(following);
+        verbChunk = chunks[following];
+        verbIndex = following;
+      } else {
+        verbIndex = subjectIndex;
+      }
+    }
+
+    const verbTokens = verbChunk.tokens.filter(t => t.tag === 'VERB');
+    const head = verbTokens.length > 0 ? verbTokens[verbTokens.length - 1] : verbChunk.tokens[verbChunk.tokens.length - 1];
+    const lemma = verbLemma(head.word);
+
+    let kind: ClauseKind = 'main';
+    let hasSubject = subjectIndex !== -1 || isRelativeMarker(chunks[previousChunkIndex(chunks, k - 1)]);
+    if (!hasSubject && chunks[previousChunkIndex(chunks, k - 1)]?.type === 'CONJ' && clauses.length > 0) {
+      kind = 'coordinate';
+      hasSubject = true;
+    }
+    if (!hasSubject && k === firstContent && isBaseVerb(head.word)) hasSubject = true; // Imperative
+
+    const zeroComplement = previousVerb !== null && COMPLEMENT_VERBS.has(previousVerb.lemma) && subjectIndex === previousVerb.chunkIndex + 1;
+    if (nonFinite || subordinatorPending || zeroComplement) kind = 'subordinate';
+
+    // Required arguments
+    const complement = chunks[nextChunkIndex(chunks, verbIndex + 1)];
+    const gapped = gapPending || whQuestion;
+    let argumentsPresent = true;
+    if (verbTokens.length === 0 && isBeForm(head.word)) {
+      argumentsPresent = gapped || (complement !== undefined && complement.type !== 'CONJ' && complement.type !== 'SBAR');
+    } else if (TRANSITIVE_VERBS.has(lemma)) {
+      argumentsPresent = gapped || complement?.type === 'NP' || complement?.type === 'SBAR' || complement?.type === 'VP';
+    }
+
+    clauses.push({ kind, complete: (nonFinite || hasSubject) && argumentsPresent });
+    previousVerb = { lemma, chunkIndex: verbIndex };
+    subordinatorPending = false;
+    gapPending = false;
+  });
+
+  if (dangling && clauses.length > 0) clauses[clauses.length - 1].complete = false;
+  const hasCompleteMain = clauses.some(c => c.kind === 'main' && c.complete);
+  const interjectionOnly = tokens.every(t => t.tag === 'INTJ'); // "Yes." isn't an attempted sentence
+
+  return { wordCount, clauses, nounPhraseModifiers, fragment: !interjectionOnly && (dangling || !hasCompleteMain) };
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function round(value: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * All sentence-structure measures for a text. Utterances are split at
+ * sentence punctuation; unpunctuated transcripts fall back to T-units.
+ */
+export function analyzeSyntax(text: string): SyntacticMetrics {
+  const utterances = text
+    .split(/[.!?]+/)
+    .map(sentence => tokenizeWords(sentence))
+    .map(words => words.filter(w => !SINGLE_WORD_FILLERS.has(w)))
+    .filter(words => words.length > 0)
+    .map(words => analyzeUtterance(tagWords(words), words.length));
+
+  if (utterances.length === 0) {
+    return {
+      utteranceCount: 0,
+      meanLengthOfUtterance: 0,
+      clauseDensity: 0,
+      subordinationIndex: 0,
+      verbArgumentCompleteness: null,
+      nounPhraseComplexity: null,
+      fragmentRate: 0
+    };
+  }
+
+  const allClauses = utterances.flatMap(u => u.clauses);
+  const clauseCount = allClauses.filter(c => c.kind !== 'coordinate').length;
+  const tUnits = allClauses.filter(c => c.kind === 'main').length;
+  const wordCount = utterances.reduce((sum, u) => sum + u.wordCount, 0);
+  const punctuated = /[.!?]/.test(text.trim().replace(/[.!?]+$/, ''));
+  const utteranceCount = punctuated ? utterances.length : Math.max(utterances.length, tUnits);
+  const completeness = average(allClauses.map(c => (c.complete ? 1 : 0)));
+  const modifiers = average(utterances.flatMap(u => u.nounPhraseModifiers));
+
+  return {
+    utteranceCount,
+    meanLengthOfUtterance: round(wordCount / utteranceCount, 1),
+    clauseDensity: round(clauseCount / utteranceCount),
+    subordinationIndex: tUnits > 0 ? round(clauseCount / tUnits) : 0,
+    verbArgumentCompleteness: completeness === null ? null : round(completeness),
+    nounPhraseComplexity: modifiers === null ? null : round(modifiers),
+    fragmentRate: round(utterances.filter(u => u.fragment).length / utterances.length)
+  };
+}
+
+function scale(value: number, low: number, high: number): number {
+  return Math.max(0, Math.min(100, ((value - low) / (high - low)) * 100));
+}
+
+/**
+ * Syntactic complexity (0-100): longer utterances, more subordinate clauses
+ * and modified noun phrases, with complete argument structure
+ */
+export function calculateSyntacticComplexity(metrics: SyntacticMetrics): number {
+  if (metrics.utteranceCount === 0) return 0;
+
+  const length = scale(metrics.meanLengthOfUtterance, 3, 12); // Spoken utterances are short
+  const subordination = scale(metrics.subordinationIndex, 1, 1.8);
+  const nounPhrases = scale(metrics.nounPhraseComplexity ?? 0, 0.2, 1);
+  const completeness = (metrics.verbArgumentCompleteness ?? 0) * 100;
+
+  return Math.round(length * 0.3 + subordination * 0.35 + nounPhrases * 0.15 + completeness * 0.2);
+}
+
+/**
+ * Grammar consistency (0-100): clauses with their subject and object in
+ * place, and utterances that aren't cut off or missing a main clause
+ */
+export function calculateGrammarConsistency(metrics: SyntacticMetrics): number {
+  if (metrics.utteranceCount === 0) return 75; // Neutral when there's nothing to judge
+
+  const wellFormed = (1 - metrics.fragmentRate) * 100;
+  if (metrics.verbArgumentCompleteness === null) return Math.round(wellFormed);
+  return Math.round(metrics.verbArgumentCompleteness * 100 * 0.6 + wellFormed * 0.4);
+}
@@ -2,6 +2,9 @@
  * Text-to-Speech utility using Web Speech API
  */
 
+import type { ConversationSettings } from '@/types';
+import { CALMING_RATE_FACTOR } from './calmingController';
+
 export interface SpeechOptions {
   rate?: number; // 0.1 to 10, default 1
   pitch?: number; // 0 to 2, default 1
@@ -10,6 +13,23 @@ export interface SpeechOptions {
   lang?: string; // Language code, default 'en-US'
 }
 
+// Utterance rate for each ConversationSettings.speechRate
+const SPEECH_RATES: Record<ConversationSettings['speechRate'], number> = {
+  slow: 0.8,
+  normal: 1.0,
+  fast: 1.2
+};
+
+/**
+ * Utterance rate for the user's speech rate setting, slowed further while
+ * calming mode is active
+ */
+export function getSpeechRate(settings?: ConversationSettings): number {
+  if (!settings) return SPEECH_RATES.normal;
+  const rate = SPEECH_RATES[settings.speechRate] ?? SPEECH_RATES.normal;
+  return settings.calmingModeActive ? rate * CALMING_RATE_FACTOR : rate;
+}
+
 /**
  * Check if speech synthesis is supported
  */
@@ -47,6 +67,68 @@ export function findVoice(
   return voices[0] || null;
 }
 
+/**
+ * Utterance with the given options, in a natural, pleasant voice unless one is given
+ */
+function createUtterance(text: string, options: SpeechOptions): SpeechSynthesisUtterance {
+  const utterance = new SpeechSynthesisUtterance(text);
+  
+  // Set options
+  utterance.rate = options.rate ?? 1.0;
+  utterance.pitch = options.pitch ?? 1.0;
+  utterance.volume = options.volume ?? 1.0;
+  utterance.lang = options.lang ?? 'en-US';
+  
+  if (options.voice) {
+    utterance.voice = options.voice;
+  } else {
+    // Try to find a natural, pleasant voice
+    // Prefer female voices that sound more natural and warm
+    const voices = getAvailableVoices();
+    const preferredVoices = [
+      'Karen',      // macOS - natural female voice
+      'Moira',      // macOS - Irish female voice
+      'Tessa',      // macOS - South African female voice
+      'Victoria',   // macOS - natural female voice
+      'Alex',       // macOS - natural male voice (fallback)
+      'Daniel',     // macOS - British male voice
+      'Google UK English Female',
+      'Google US English Female',
+      'Microsoft Zira', // Windows - natural female voice
+      'Microsoft Hazel', // Windows - British female voice
+    ];
+    
+    // Try preferred voices first
+    let selectedVoice = null;
+    for (const preferred of preferredVoices) {
+      selectedVoice = voices.find(v => 
+        v.name.includes(preferred) && v.lang.startsWith('en')
+      );
+      if (selectedVoice) break;
+    }
+    
+    // If no preferred voice found, find any natural-sounding English voice
+    if (!selectedVoice) {
+      selectedVoice = voices.find(v => 
+        v.lang.startsWith('en') && 
+        !v.name.toLowerCase().includes('compact') &&
+        !v.name.toLowerCase().includes('enhanced')
+      );
+    }
+    
+    // Last resort: any English voice
+    if (!selectedVoice) {
+      selectedVoice = voices.find(v => v.lang.startsWith('en'));
+    }
+    
+    if (selectedVoice) {
+      utterance.voice = selectedVoice;
+    }
+  }
+
+  return utterance;
+}
+
 /**
  * Speak text using Web Speech API
  */
@@ -63,60 +145,7 @@ export function speakText(
     // Cancel any ongoing speech
     window.speechSynthesis.cancel();
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    
-    // Set options
-    utterance.rate = options.rate ?? 1.0;
-    utterance.pitch = options.pitch ?? 1.0;
-    utterance.volume = options.volume ?? 1.0;
-    utterance.lang = options.lang ?? 'en-US';
-    
-    if (options.voice) {
-      utterance.voice = options.voice;
-    } else {
-      // Try to find a natural, pleasant voice
-      // Prefer female voices that sound more natural and warm
-      const voices = getAvailableVoices();
-      const preferredVoices = [
-        'Karen',      // macOS - natural female voice
-        'Moira',      // macOS - Irish female voice
-        'Tessa',      // macOS - South African female voice
-        'Victoria',   // macOS - natural female voice
-        'Alex',       // macOS - natural male voice (fallback)
-        'Daniel',     // macOS - British male voice
-        'Google UK English Female',
-        'Google US English Female',
-        'Microsoft Zira', // Windows - natural female voice
-        'Microsoft Hazel', // Windows - British female voice
-      ];
-      
-      // Try preferred voices first
-      let selectedVoice = null;
-      for (const preferred of preferredVoices) {
-        selectedVoice = voices.find(v => 
-          v.name.includes(preferred) && v.lang.startsWith('en')
-        );
-        if (selectedVoice) break;
-      }
-      
-      // If no preferred voice found, find any natural-sounding English voice
-      if (!selectedVoice) {
-        selectedVoice = voices.find(v => 
-          v.lang.startsWith('en') && 
-          !v.name.toLowerCase().includes('compact') &&
-          !v.name.toLowerCase().includes('enhanced')
-        );
-      }
-      
-      // Last resort: any English voice
-      if (!selectedVoice) {
-        selectedVoice = voices.find(v => v.lang.startsWith('en'));
-      }
-      
-      if (selectedVoice) {
-        utterance.voice = selectedVoice;
-      }
-    }
+    const utterance = createUtterance(text, options);
 
     utterance.onend = () => {
       resolve();
@@ -130,6 +159,62 @@ export function speakText(
   });
 }
 
+export interface SpeechQueue {
+  enqueue: (text: string) => void; // Speak after everything queued before it
+  finish: () => Promise<void>; // No more text; resolves once it has all been spoken
+  cancel: () => void; // Stop now and drop anything not yet spoken
+}
+
+/**
+ * Queue for speaking a reply sentence by sentence while the rest of it is
+ * still being generated. Starting a queue stops any ongoing speech.
+ */
+export function createSpeechQueue(options: SpeechOptions = {}): SpeechQueue {
+  let pending = 0;
+  let finished = false;
+  let cancelled = false;
+  let started = false;
+  let resolveDone: () => void = () => {};
+  const done = new Promise<void>(resolve => {
+    resolveDone = resolve;
+  });
+
+  const settle = () => {
+    if (cancelled || (finished && pending === 0)) resolveDone();
+  };
+
+  return {
+    enqueue: (text) => {
+      if (cancelled || finished || !isSpeechSynthesisSupported() || text.trim().length === 0) return;
+      if (!started) {
+        window.speechSynthesis.cancel();
+        started = true;
+      }
+
+      const utterance = createUtterance(text, options);
+      const onDone = () => {
+        pending--;
+        settle();
+      };
+      utterance.onend = onDone;
+      utterance.onerror = onDone; // Skip a sentence that fails rather than stalling the queue
+      pending++;
+      window.speechSynthesis.speak(utterance);
+    },
+    finish: () => {
+      finished = true;
+      settle();
+      return done;
+    },
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      if (started && isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+      settle();
+    }
+  };
+}
+
 /**
  * Stop any ongoing speech
  */
@@ -0,0 +1,208 @@
+/**
+ * Time-of-Day Analysis
+ * Groups language, game and conversation scores by hour of day to find when
+ * the person performs best and worst, and to spot evening decline (sundowning)
+ */
+
+import type { SpeechAnalysis, CognitiveGameResult, TalkSession } from '@/types';
+
+export type DayPeriod = 'morning' | 'afternoon' | 'evening' | 'night';
+export type ScoreSource = 'language' | 'games' | 'conversation';
+
+export interface HourBucket {
+  id: string;
+  label: string;
+  startHour: number; // inclusive
+  endHour: number; // exclusive; may wrap past midnight
+  period: DayPeriod;
+}
+
+export interface BucketPerformance {
+  bucket: HourBucket;
+  sampleCount: number;
+  relativeScore: number | null; // Points above (+) or below (-) the person's own average
+  language: number | null; // Mean score per source, 0-100
+  games: number | null;
+  conversation: number | null;
+}
+
+export interface SundowningResult {
+  detected: boolean;
+  drop: number | null; // Points lost from midday to late evening
+  bucketsCompared: number;
+}
+
+export interface TimeOfDayPerformance {
+  buckets: BucketPerformance[];
+  bestWindow: BucketPerformance | null;
+  worstWindow: BucketPerformance | null;
+  spread: number | null; // Points between best and worst window
+  peakPeriod: Exclude<DayPeriod, 'night'> | null;
+  sundowning: SundowningResult;
+}
+
+// Same period boundaries as getTimeOfDay in speechAnalysis
+export const HOUR_BUCKETS: HourBucket[] = [
+  { id: 'early_morning', label: '5-9am', startHour: 5, endHour: 9, period: 'morning' },
+  { id: 'late_morning', label: '9am-12pm', startHour: 9, endHour: 12, period: 'morning' },
+  { id: 'early_afternoon', label: '12-3pm', startHour: 12, endHour: 15, period: 'afternoon' },
+  { id: 'late_afternoon', label: '3-5pm', startHour: 15, endHour: 17, period: 'afternoon' },
+  { id: 'early_evening', label: '5-7pm', startHour: 17, endHour: 19, period: 'evening' },
+  { id: 'late_evening', label: '7-9pm', startHour: 19, endHour: 21, period: 'evening' },
+  { id: 'night', label: '9pm-5am', startHour: 21, endHour: 5, period: 'night' }
+];
+
+// Midday through late evening, in order, for the sundowning check
+const SUNDOWNING_BUCKETS = ['early_afternoon', 'late_afternoon', 'early_evening', 'late_evening'];
+
+const DEFAULT_WINDOW_DAYS = 30;
+const MIN_BUCKET_SAMPLES = 2; // A window needs this many results to be ranked
+const SUNDOWNING_MIN_DROP = 5; // Points
+const SUNDOWNING_TOLERANCE = 1; // Points a bucket may rise and still count as "steady"
+
+interface Sample {
+  hour: number;
+  source: ScoreSource;
+  value: number;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function inBucket(hour: number, bucket: HourBucket): boolean {
+  return bucket.startHour < bucket.endHour
+    ? hour >= bucket.startHour && hour < bucket.endHour
+    : hour >= bucket.startHour || hour < bucket.endHour;
+}
+
+/**
+ * Find the hour bucket for a timestamp (local time)
+ */
+export function getHourBucket(timestamp: Date): HourBucket {
+  const hour = new Date(timestamp).getHours();
+  return HOUR_BUCKETS.find(b => inBucket(hour, b)) ?? HOUR_BUCKETS[HOUR_BUCKETS.length - 1];
+}
+
+function collectSamples(
+  speechAnalyses: SpeechAnalysis[],
+  gameResults: CognitiveGameResult[],
+  talkSessions: TalkSession[],
+  since: number
+): Sample[] {
+  const samples: Sample[] = [];
+  const add = (timestamp: Date, source: ScoreSource, value: number) => {
+    const date = new Date(timestamp);
+    if (date.getTime() < since) return;
+    samples.push({ hour: date.getHours(), source, value });
+  };
+
+  speechAnalyses.forEach(a => add(a.timestamp, 'language', a.metrics.vocabularyComplexity));
+  gameResults.forEach(g => add(g.timestamp, 'games', g.accuracy));
+  talkSessions
+    .filter(s => s.status === 'completed' && s.cliScore !== null)
+    .forEach(s => add(s.timestamp, 'conversation', s.cliScore as number));
+
+  return samples;
+}
+
+/**
+ * Check for a steady decline from midday into the evening
+ */
+function detectSundowning(buckets: BucketPerformance[]): SundowningResult {
+  const sequence = SUNDOWNING_BUCKETS
+    .map(id => buckets.find(b => b.bucket.id === id))
+    .filter((b): b is BucketPerformance =>
+      !!b && b.relativeScore !== null && b.sampleCount >= MIN_BUCKET_SAMPLES
+    );
+
+  // Need midday-ish and at least one evening window to compare
+  const hasEvening = sequence.some(b => b.bucket.period === 'evening');
+  if (sequence.length < 3 || !hasEvening) {
+    return { detected: false, drop: null, bucketsCompared: sequence.length };
+  }
+
+  const scores = sequence.map(b => b.relativeScore as number);
+  const steady = scores.every((score, i) => i === 0 || score <= scores[i - 1] + SUNDOWNING_TOLERANCE);
+  const drop = Math.round(scores[0] - scores[scores.length - 1]);
+
+  return {
+    detected: steady && drop >= SUNDOWNING_MIN_DROP,
+    drop,
+    bucketsCompared: sequence.length
+  };
+}
+
+/**
+ * Performance by time of day over the last `windowDays` days.
+ * Each result is compared with the person's own average for that source, so
+ * games played only in the morning don't make mornings look better than
+ * conversations held in the evening.
+ */
+export function analyzeTimeOfDayPerformance(
+  speechAnalyses: SpeechAnalysis[],
+  gameResults: CognitiveGameResult[],
+  talkSessions: TalkSession[],
+  windowDays: number = DEFAULT_WINDOW_DAYS,
+  now: Date = new Date()
+): TimeOfDayPerformance {
+  const since = now.getTime() - windowDays * 24 * 60 * 60 * 1000;
+  const samples = collectSamples(speechAnalyses, gameResults, talkSessions, since);
+
+  const sourceMeans: Partial<Record<ScoreSource, number>> = {};
+  (['language', 'games', 'conversation'] as ScoreSource[]).forEach(source => {
+    const average = mean(samples.filter(s => s.source === source).map(s => s.value));
+    if (average !== null) sourceMeans[source] = average;
+  });
+
+  const buckets: BucketPerformance[] = HOUR_BUCKETS.map(bucket => {
+    const inThisBucket = samples.filter(s => inBucket(s.hour, bucket));
+    const sourceMean = (source: ScoreSource) => {
+      const average = mean(inThisBucket.filter(s => s.source === source).map(s => s.value));
+      return average !== null ? Math.round(average) : null;
+    };
+    const relative = mean(inThisBucket.map(s => s.value - (sourceMeans[s.source] ?? s.value)));
+
+    return {
+      bucket,
+      sampleCount: inThisBucket.length,
+      relativeScore: relative !== null ? Math.round(relative * 10) / 10 : null,
+      language: sourceMean('language'),
+      games: sourceMean('games'),
+      conversation: sourceMean('conversation')
+    };
+  });
+
+  const ranked = buckets
+    .filter(b => b.relativeScore !== null && b.sampleCount >= MIN_BUCKET_SAMPLES)
+    .sort((a, b) => (b.relativeScore as number) - (a.relativeScore as number));
+
+  const bestWindow = ranked.length >= 2 ? ranked[0] : null;
+  const worstWindow = ranked.length >= 2 ? ranked[ranked.length - 1] : null;
+
+  // Peak period: best daytime period by sample-weighted relative score
+  let peakPeriod: TimeOfDayPerformance['peakPeriod'] = null;
+  let peakScore = -Infinity;
+  for (const period of ['morning', 'afternoon', 'evening'] as const) {
+    const periodSamples = samples.filter(s =>
+      HOUR_BUCKETS.some(b => b.period === period && inBucket(s.hour, b))
+    );
+    if (periodSamples.length < MIN_BUCKET_SAMPLES) continue;
+    const score = mean(periodSamples.map(s => s.value - (sourceMeans[s.source] ?? s.value))) as number;
+    if (score > peakScore) {
+      peakScore = score;
+      peakPeriod = period;
+    }
+  }
+
+  return {
+    buckets,
+    bestWindow,
+    worstWindow,
+    spread: bestWindow && worstWindow
+      ? Math.round(((bestWindow.relativeScore as number) - (worstWindow.relativeScore as number)) * 10) / 10
+      : null,
+    peakPeriod,
+    sundowning: detectSundowning(buckets)
+  };
+}
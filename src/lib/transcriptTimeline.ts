@@ -0,0 +1,64 @@
+/**
+ * Transcript Timeline
+ * Keeps a timestamp for every word speech recognition reports, from the first
+ * interim hypothesis until the result is final
+ */
+
+import type { TranscriptToken } from '@/types';
+
+export interface TranscriptTimeline {
+  startedAt: number; // epoch ms when the turn started
+  results: TranscriptToken[][]; // Indexed by speech recognition result index
+}
+
+/**
+ * Normalize a word for comparing successive hypotheses
+ */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^a-z0-9']/g, '');
+}
+
+/**
+ * Start a timeline for one user turn
+ */
+export function createTranscriptTimeline(startedAt: number = Date.now()): TranscriptTimeline {
+  return { startedAt, results: [] };
+}
+
+/**
+ * Record an interim or final speech recognition result.
+ * Words that survive from the previous hypothesis keep their original
+ * first-heard time; new or changed words are stamped with receivedAt.
+ */
+export function recordRecognitionResult(
+  timeline: TranscriptTimeline,
+  resultIndex: number,
+  transcript: string,
+  isFinal: boolean,
+  receivedAt: number = Date.now()
+): void {
+  const previous = timeline.results[resultIndex] || [];
+  const elapsed = receivedAt - timeline.startedAt;
+  const words = transcript.split(/\s+/).filter(w => w.length > 0);
+
+  timeline.results[resultIndex] = words.map((word, i) => {
+    const prior = previous[i];
+    const unchanged = prior && normalizeWord(prior.text) === normalizeWord(word);
+
+    return {
+      text: word,
+      resultIndex,
+      firstHeardAt: unchanged ? prior.firstHeardAt : elapsed,
+      finalizedAt: isFinal ? (prior?.finalizedAt ?? elapsed) : null
+    };
+  });
+}
+
+/**
+ * All committed words of the turn, in order
+ */
+export function getFinalTokens(timeline: TranscriptTimeline): TranscriptToken[] {
+  return timeline.results
+    .filter(result => result && result.length > 0 && result.every(t => t.finalizedAt !== null))
+    .flat();
+}
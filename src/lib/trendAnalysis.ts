@@ -0,0 +1,150 @@
+/**
+ * Trend Analysis
+ * Fits least-squares slopes with 95% confidence intervals to cognitive scores
+ * over a rolling window, so a single noisy session cannot flip a trend
+ */
+
+import type { SpeechAnalysis, CognitiveGameResult, TrendDirection, TrendEstimate } from '@/types';
+
+export type TrendWindowDays = 7 | 30 | 90;
+export type TrendDomain = 'languageComplexity' | 'memoryRecall' | 'attention' | 'processingSpeed';
+
+export interface TrendPoint {
+  timestamp: Date;
+  value: number;
+}
+
+export const TREND_WINDOWS: TrendWindowDays[] = [7, 30, 90];
+export const DEFAULT_TREND_WINDOW: TrendWindowDays = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_POINTS = 4; // At least 2 degrees of freedom left for the interval
+const MIN_SPAN_DAYS = 1; // Several results from one sitting are not a trend
+
+// Two-sided 95% critical values of Student's t, indexed by degrees of freedom
+const T_CRITICAL_95 = [
+  Infinity, 12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042
+];
+
+function tCritical(degreesOfFreedom: number): number {
+  if (degreesOfFreedom < T_CRITICAL_95.length) return T_CRITICAL_95[degreesOfFreedom];
+  // Close approximation beyond the table, tending to the normal 1.96
+  return 1.96 + 2.4 / degreesOfFreedom;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Fit a linear trend to the points inside the window ending at `now`.
+ * Slope and interval are in score points per week. Returns null when there
+ * is not enough data spread over time to estimate a slope.
+ */
+export function fitTrend(
+  points: TrendPoint[],
+  windowDays: TrendWindowDays = DEFAULT_TREND_WINDOW,
+  now: Date = new Date()
+): TrendEstimate | null {
+  const windowStart = now.getTime() - windowDays * DAY_MS;
+  const inWindow = points.filter(p => {
+    const time = new Date(p.timestamp).getTime();
+    return time >= windowStart && time <= now.getTime();
+  });
+  if (inWindow.length < MIN_POINTS) return null;
+
+  // x in days since the start of the window
+  const xs = inWindow.map(p => (new Date(p.timestamp).getTime() - windowStart) / DAY_MS);
+  const ys = inWindow.map(p => p.value);
+  if (Math.max(...xs) - Math.min(...xs) < MIN_SPAN_DAYS) return null;
+
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + Math.pow(x - meanX, 2), 0);
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residualSS = xs.reduce((sum, x, i) => sum + Math.pow(ys[i] - (intercept + slope * x), 2), 0);
+  const standardError = Math.sqrt(residualSS / (n - 2) / sxx);
+  const margin = tCritical(n - 2) * standardError;
+
+  const lower = (slope - margin) * 7;
+  const upper = (slope + margin) * 7;
+
+  // Significant only when the whole interval sits on one side of zero
+  let direction: TrendDirection = 'stable';
+  if (lower > 0) direction = 'improving';
+  else if (upper < 0) direction = 'declining';
+
+  return {
+    windowDays,
+    sampleSize: n,
+    slopePerWeek: round(slope * 7),
+    lowerPerWeek: round(lower),
+    upperPerWeek: round(upper),
+    direction
+  };
+}
+
+/**
+ * Score series for each cognitive domain
+ */
+export function getDomainPoints(
+  speechAnalyses: SpeechAnalysis[],
+  gameResults: CognitiveGameResult[]
+): Record<TrendDomain, TrendPoint[]> {
+  const gamePoints = (type: CognitiveGameResult['gameType']) => gameResults
+    .filter(g => g.gameType === type)
+    .map(g => ({ timestamp: new Date(g.timestamp), value: g.accuracy }));
+
+  return {
+    languageComplexity: speechAnalyses.map(a => ({
+      timestamp: new Date(a.timestamp),
+      value: a.metrics.vocabularyComplexity
+    })),
+    memoryRecall: gamePoints('memory_recall'),
+    attention: gamePoints('attention_focus'),
+    processingSpeed: gamePoints('processing_speed')
+  };
+}
+
+/**
+ * Fit trends for all cognitive domains over one window
+ */
+export function calculateDomainTrends(
+  speechAnalyses: SpeechAnalysis[],
+  gameResults: CognitiveGameResult[],
+  windowDays: TrendWindowDays = DEFAULT_TREND_WINDOW,
+  now: Date = new Date()
+): Record<TrendDomain, TrendEstimate | null> {
+  const points = getDomainPoints(speechAnalyses, gameResults);
+  return {
+    languageComplexity: fitTrend(points.languageComplexity, windowDays, now),
+    memoryRecall: fitTrend(points.memoryRecall, windowDays, now),
+    attention: fitTrend(points.attention, windowDays, now),
+    processingSpeed: fitTrend(points.processingSpeed, windowDays, now)
+  };
+}
+
+/**
+ * Combine per-domain trends into the profile's overall label.
+ * Only significant slopes count; mixed significant directions are 'variable'.
+ */
+export function summarizeOverallTrend(
+  estimates: Array<TrendEstimate | null>
+): 'stable' | 'improving' | 'declining' | 'variable' | null {
+  const fitted = estimates.filter((e): e is TrendEstimate => e !== null);
+  if (fitted.length === 0) return null;
+
+  const improving = fitted.some(e => e.direction === 'improving');
+  const declining = fitted.some(e => e.direction === 'declining');
+
+  if (improving && declining) return 'variable';
+  if (declining) return 'declining';
+  if (improving) return 'improving';
+  return 'stable';
+}
@@ -0,0 +1,255 @@
+/**
+ * Word Frequency Norms
+ * Approximate rank order of the ~1,000 most frequent words in everyday spoken
+ * and written English, most frequent first. Used to score how common or rare
+ * a speaker's word choices are; words not listed are treated as rarer than
+ * all listed words.
+ */
+
+const RANKED_WORDS = `
+the be and of a in to have it i that for you he with on do say this they
+at but we his from not by she or as what go their can who get if would her
+all my make about know will up one time there year so think when which them
+some me people take out into just see him your come could now than like
+other how then its our two more these want way look first also new because
+day use no man find here thing give many well only those tell very even back
+any good woman through us life child work down may after should call world
+over school still try last ask need too feel three state never become between
+high really something most another much family own leave put old while mean
+keep student why let great same big group begin seem country help talk where
+turn problem every start hand might american show part against place such
+again few case week company system each right program hear question during
+play government run small number off always move night live point believe
+hold today bring happen next without before large million must home under
+water room write mother area national money story young fact month different
+lot study book eye job word though business issue side kind four head far
+black long both little house yes since provide service around friend important
+father sit away until power hour game often yet line political end among ever
+stand bad lose however member pay law meet car city almost include continue
+set later community much name five once white least president learn real
+change team minute best several idea kid body information nothing ago lead
+social understand whether watch together follow parent stop face anything
+create public already speak others read level allow add office spend door
+health person art sure war history party within grow result open morning walk
+reason low win research girl guy early food moment himself air teacher force
+offer enough education across although remember foot second boy maybe toward
+able age policy everything love process music including consider appear
+actually buy probably human wait serve market die send expect sense build stay
+fall oh nation plan cut college interest death course someone experience
+behind reach local kill six remain effect yeah suggest class control raise
+care perhaps late hard field else pass former sell major sometimes require
+along development themselves report role better economic effort decide rate
+strong possible heart drug show leader light voice wife whole police mind
+finally pull return free military price less according decision explain son
+hope develop view relationship carry town road drive arm true federal break
+difference thank receive value international building action full model join
+season society tax director position player agree especially record pick wear
+paper special space ground form support event official whose matter everyone
+center couple site project hit base activity star table need court produce eat
+american teach oil half situation easy cost industry figure street image itself
+phone either data cover quite picture clear practice piece land recent describe
+product doctor wall patient worker news test movie certain north personal
+simply third technology catch step baby computer type attention draw film tree
+source red nearly organization choose cause hair century evidence window
+difficult listen soon culture billion chance brother energy period summer
+realize hundred available plant likely opportunity term short letter condition
+choice single rule daughter administration south husband floor campaign
+material population economy medical hospital church close thousand risk
+current fire future wrong involve defense anyone increase security bank myself
+certainly west sport board seek per subject officer private rest behavior deal
+performance fight throw top quickly past goal bed order author fill represent
+focus foreign drop blood upon agency push nature color recently store reduce
+sound note fine near movement page enter share than common poor natural race
+concern series significant similar hot language usually response dead rise
+animal factor decade article shoot east save seven artist away scene stock
+career despite central eight thus treatment beyond happy exactly protect
+approach lie size dog fund serious occur media ready sign thought list
+individual simple quality pressure accept answer resource identify left
+meeting determine prepare disease whatever success argue cup particularly
+amount ability staff recognize indicate character growth loss degree wonder
+attack herself region television box training pretty trade election everybody
+physical lay general feeling standard bill message fail outside arrive
+analysis benefit forward lawyer present section environmental glass skill
+sister professor operation financial crime stage ok compare authority miss
+design sort act ten knowledge gun station blue strategy clearly discuss
+indeed truth song example democratic check environment leg dark various rather
+laugh guess executive prove hang entire rock forget claim remove manager enjoy
+network legal religious cold final main science green memory card above seat
+cell establish nice trial expert spring firm radio visit management avoid
+imagine tonight huge ball finish yourself theory impact respond statement
+maintain charge popular traditional onto reveal direction weapon employee
+cultural contain peace pain apply play measure wide shake fly interview manage
+chair fish particular camera structure politics perform bit weight suddenly
+discover candidate production treat trip evening affect inside conference unit
+style adult worry range mention deep edge specific writer trouble necessary
+throughout challenge fear shoulder institution middle sea dream bar beautiful
+property instead improve stuff detail method somebody magazine hotel soldier
+reflect heavy bag heat marriage tough sing surface purpose exist
+pattern whom skin agent owner machine gas down ahead generation commercial
+address cancer item reality coach mrs yard beat violence total tend investment
+discussion finger garden notice collection modern task partner positive civil
+kitchen consumer shot budget wish painting scientist safe agreement capital
+mouth nor victim newspaper threat responsibility smile attorney score account
+interesting audience rich dinner vote western relate travel debate prevent
+citizen majority none front born admit senior assume wind key professional
+mission fast alone customer suffer speech successful option participant
+southern fresh eventually forest video global senate reform access restaurant
+judge publish relation release own bird opinion credit critical corner
+concerned recall version stare safety effective neighborhood original troop
+income directly hurt species immediately track basic strike sky freedom
+absolutely plane nobody achieve object attitude labor refer concept client
+powerful perfect nine therefore conduct announce conversation examine touch
+please attend completely variety sleep involved investigation nuclear
+researcher press conflict spirit replace british encourage argument once camp
+brain feature afternoon weekend dozen possibility insurance department battle
+beginning date generally african sorry crisis complete fan stick define easily
+hole element vision status normal chinese ship solution stone slowly scale
+driver attempt park spot lack ice boat drink sun distance wood handle truck
+mountain survey supposed tradition winter village refuse sales roll
+communication run screen gain resident hide gold club farm potential european
+presence independent district shape reader contract crowd christian express
+apartment willing strength previous band obviously horse interested target
+prison ride guard terms demand reporter deliver text tool wild vehicle
+observe flight facility understanding average emerge advantage quick leadership
+earn pound basis bright operate guest sample contribute tiny block protection
+settle feed collect additional highly identity title mostly lesson faith river
+promote living count unless marry tomorrow technique path ear shop folk
+principle survive lift border competition jump gather limit fit cry equipment
+worth associate critic warm aspect insist failure annual french christmas
+comment responsible affair procedure regular spread chairman baseball soft
+ignore egg belief demonstrate anybody murder gift religion review editor
+engage coffee document speed cross influence anyway threaten commit female
+youth wave afraid quarter background native broad wonderful deny apparently
+slightly reaction twice suit perspective growing blow construction intelligence
+destroy cook connection burn shoe grade context committee hey mistake location
+clothes indian quiet dress promise aware neighbor function bone active extend
+chief combine wine below cool voter learning bus hell dangerous remind moral
+united category relatively victory academic internet healthy negative
+following historical medicine tour depend photo finding grab direct
+classroom contact justice participate daily fair pair famous exercise knee
+flower tape hire familiar appropriate supply fully actor birth search tie
+democracy eastern primary yesterday circle device progress bottom island
+exchange clean studio train lady colleague application neck lean damage plastic
+tall plate hate otherwise writing male alive expression football intend chicken
+army abuse theater shut map extra session danger welcome domestic lots
+literature rain desire assessment injury respect northern nod paint fuel leaf
+dry russian instruction pool climb sweet engine fourth salt expand importance
+metal fat ticket software disappear corporate strange lip reading urban mental
+increasingly lunch educational somewhere farmer sugar planet favorite explore
+obtain enemy greatest complex surround athlete invite repeat carefully soul
+scientific impossible panel meaning mom married instrument predict weather
+presidential emotional commitment supreme bear pocket thin temperature surprise
+poll proposal consequence breath sight balance adopt minority straight connect
+works teaching belong aid advice okay photograph empty regional trail novel
+code somehow organize jury breast acknowledge theme storm union desk
+thanks fruit expensive yellow conclusion prime shadow struggle conclude analyst
+dance regulation being ring largely shift revenue mark locate county appearance
+package difficulty bridge recommend obvious basically email generate anymore
+propose thinking possibly trend visitor loan currently comfortable investor
+profit angry crew accident meal hearing traffic muscle notion capture prefer
+truly earth japanese chest thick cash museum beauty emergency unique internal
+ethnic link stress content select root nose declare appreciate actual bottle
+hardly setting launch file sick outcome ad defend duty sheet ought ensure
+catholic extremely extent component mix slow contrast zone wake challenge
+airport brown shirt pilot warn ultimately cat contribution capacity estate
+guide circumstance snow english politician steal pursue slip percentage meat
+funny neither soil surgery correct jewish blame estimate due basketball golf
+investigate crazy significantly chain branch combination frequently governor
+relief user dad kick manner ancient silence rating golden motion german
+gender solve fee landscape used bowl equal frame typical except conservative
+eliminate host hall trust ocean row producer afford meanwhile regime division
+confirm fix appeal mirror tooth smart length entirely rely topic complain
+variable telephone perception attract confidence bedroom secret debt rare
+tank nurse coverage opposition aside anywhere bond pleasure master era
+requirement fun expectation wing separate somewhat pour stir judgment beer
+reference tear doubt grant seriously minister totally hero industrial cloud
+stretch winner volume seed surprised fashion pepper busy intervention copy tip
+cheap aim cite welfare vegetable gray dish beach improvement everywhere opening
+overall divide initial terrible oppose contemporary route multiple essential
+league criminal careful core upper rush necessarily specifically tired employ
+holiday vast resolution household fewer apart witness match barely
+sector representative beneath beside incident limited proud flow faculty
+increased waste merely mass emphasize experiment definitely bomb enormous tone
+liberal massive engineer wheel decline invest cable towards expose rural
+narrow cream secretary gate solid hill typically noise grass unfortunately
+hat legislation succeed celebrate achievement fishing accuse useful reject
+talent taste characteristic milk escape cast sentence unusual closely convince
+height physician assess plenty virtually addition sharp creative lower
+approve explanation gay campus proper guilty living acquire compete technical
+plus immigrant weak illegal hi alternative interaction column personality
+signal curriculum honor passenger assistance forever regard israeli association
+twenty knock wrap lab display criticism asset depression spiritual musical
+journalist prayer suspect scholar warning climate cheese observation
+childhood payment sir permit cigarette definition priority bread creation
+graduate request emotion scream dramatic universe gap excellent deeply
+prosecutor lucky drag airline library agenda recover factory selection primarily
+roof unable expense initiative diet arrest funding therapy wash schedule sad
+brief housing post purchase existing steel regarding shout remaining visual
+fairly violent silent suppose
+`;
+
+// Everyday family and care words that general corpora under-rank
+const EVERYDAY_WORDS = `
+grandmother grandfather grandson granddaughter grandchildren grandma grandpa
+aunt uncle cousin nephew niece pills doctor nap tea
+`;
+
+/**
+ * word -> frequency rank (1 = most frequent)
+ */
+export const WORD_FREQUENCY_RANKS: ReadonlyMap<string, number> = (() => {
+  const ranks = new Map<string, number>();
+  `${RANKED_WORDS} ${EVERYDAY_WORDS}`.split(/\s+/).filter(w => w.length > 0).forEach(word => {
+    if (!ranks.has(word)) ranks.set(word, ranks.size + 1);
+  });
+  return ranks;
+})();
+
+/**
+ * Rank assumed for words that are not in the list
+ */
+export const UNLISTED_WORD_RANK = 5000;
+
+// Irregular forms -> base form listed above
+const IRREGULAR_FORMS: Record<string, string> = {
+  is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', am: 'be', being: 'be',
+  has: 'have', had: 'have', does: 'do', did: 'do', done: 'do',
+  went: 'go', gone: 'go', said: 'say', got: 'get', gotten: 'get', made: 'make',
+  knew: 'know', known: 'know', took: 'take', taken: 'take', saw: 'see', seen: 'see',
+  came: 'come', thought: 'think', gave: 'give', given: 'give', told: 'tell',
+  felt: 'feel', left: 'leave', kept: 'keep', began: 'begin', begun: 'begin',
+  brought: 'bring', bought: 'buy', held: 'hold', wrote: 'write', written: 'write',
+  stood: 'stand', heard: 'hear', met: 'meet', ran: 'run', sat: 'sit', lost: 'lose',
+  paid: 'pay', sent: 'send', built: 'build', fell: 'fall', understood: 'understand',
+  spoke: 'speak', spoken: 'speak', grew: 'grow', grown: 'grow', taught: 'teach',
+  ate: 'eat', eaten: 'eat', drove: 'drive', driven: 'drive', sold: 'sell',
+  children: 'child', men: 'man', women: 'woman', people: 'people', feet: 'foot',
+  better: 'good', best: 'good', worse: 'bad', worst: 'bad'
+};
+
+/**
+ * Frequency rank of a word, trying irregular forms and simple inflections
+ */
+export function getWordFrequencyRank(word: string): number {
+  const clean = word.toLowerCase().replace(/[^a-z']/g, '').replace(/'s$/, '');
+  if (clean.length === 0) return UNLISTED_WORD_RANK;
+
+  const candidates = [
+    clean,
+    IRREGULAR_FORMS[clean] ?? clean,
+    clean.replace(/s$/, ''),
+    clean.replace(/es$/, ''),
+    clean.replace(/ies$/, 'y'),
+    clean.replace(/ed$/, ''),
+    clean.replace(/ed$/, 'e'),
+    clean.replace(/ing$/, ''),
+    clean.replace(/ing$/, 'e'),
+    clean.replace(/ly$/, '')
+  ];
+
+  for (const candidate of candidates) {
+    const rank = WORD_FREQUENCY_RANKS.get(candidate);
+    if (rank !== undefined) return rank;
+  }
+  return UNLISTED_WORD_RANK;
+}
@@ -17,9 +17,19 @@ import type {
   MedicalJournal,
   SharedHealthEntry,
   TalkSession,
-  HealthCard
+  HealthCard,
+  EmotionDistribution,
+  MemoryFact,
+  TimelineAnnotation,
+  GroundingReference
 } from '@/types';
 import { calculateCognitiveProfile } from '@/lib/cognitiveProfileCalculator';
+import { generateBaselineInsights } from '@/lib/baselineDeviation';
+import { generateInsights, type InsightEvent } from '@/lib/insightEngine';
+import { backfillScores, type BackfillOptions, type BackfillReport } from '@/lib/scoreBackfill';
+import { addEmotionSample, evaluateCalmingMode, createCalmingInsight, type EmotionSample } from '@/lib/calmingController';
+import { extractMemoryFacts, mergeMemoryFacts } from '@/lib/conversationMemory';
+import { probeMemoryConsistency } from '@/lib/memoryConsistency';
 import { 
   userService, 
   talkSessionService, 
@@ -29,7 +39,8 @@ import {
   insightService, 
   familyRequestService,
   familyMessageService,
-  memorySessionService
+  memorySessionService,
+  memoryFactService
 } from '@/lib/supabaseService';
 import { isSupabaseConfigured } from '@/lib/supabaseHelper';
 import { supabase } from '@/lib/supabase';
@@ -48,6 +59,7 @@ interface AppState {
   isRecording: boolean;
   currentTranscript: string;
   currentEmotionalState: EmotionalState;
+  recentEmotions: EmotionSample[]; // Recent Talk turns and recordings, for calming mode
   
   // Speech analysis history
   speechAnalyses: SpeechAnalysis[];
@@ -73,6 +85,7 @@ interface AppState {
   // Memory sessions (for biography capture and speak sessions)
   memorySessions: MemorySession[];
   biography: Biography | null;
+  memoryFacts: MemoryFact[]; // What Sage remembers from earlier conversations
   
   // Actions
   login: (username: string, password: string) => Promise<boolean>;
@@ -83,6 +96,7 @@ interface AppState {
   setIsRecording: (isRecording: boolean) => void;
   setCurrentTranscript: (transcript: string) => void;
   setCurrentEmotionalState: (state: EmotionalState) => void;
+  recordEmotion: (distribution: EmotionDistribution) => void;
   addSpeechAnalysis: (analysis: SpeechAnalysis) => void;
   addGameResult: (result: CognitiveGameResult) => void;
   addInsight: (insight: Insight) => void;
@@ -104,6 +118,12 @@ interface AppState {
   addMemorySession: (session: MemorySession) => void;
   updateMemorySession: (sessionId: string, updates: Partial<MemorySession>) => void;
   addBiographyEntry: (entry: BiographyEntry) => void;
+  addTimelineAnnotation: (annotation: TimelineAnnotation) => void;
+  deleteTimelineAnnotation: (annotationId: string) => void;
+  deleteMemoryFact: (factId: string) => void;
+  judgeGroundingReference: (sessionId: string, referenceId: string, recall: GroundingReference['recall']) => void;
+  // Admin actions
+  recomputeScores: (options?: BackfillOptions) => BackfillReport;
   reset: () => void;
   clearAllAccounts: () => void;
   deleteAllAccounts: () => Promise<void>;
@@ -140,6 +160,18 @@ const generateInitialUser = (username: string): User => ({
   createdAt: new Date()
 });
 
+// Run the insight rules for newly added data and record what they find
+const runInsightEngine = (event: InsightEvent) => {
+  const state = useStore.getState();
+  generateInsights({
+    event,
+    speechAnalyses: state.speechAnalyses,
+    gameResults: state.gameResults,
+    talkSessions: state.talkSessions,
+    healthCards: state.healthCards
+  }, state.insights).forEach(insight => state.addInsight(insight));
+};
+
 export const useStore = create<AppState>()(
   persist(
     (set) => ({
@@ -151,6 +183,7 @@ export const useStore = create<AppState>()(
       isRecording: false,
       currentTranscript: '',
       currentEmotionalState: 'neutral',
+      recentEmotions: [],
       speechAnalyses: [],
       gameResults: [],
       insights: [],
@@ -162,6 +195,7 @@ export const useStore = create<AppState>()(
       familyRequests: [],
       memorySessions: [],
       biography: null,
+      memoryFacts: [],
 
       // Actions
       login: async (username, password) => {
@@ -182,34 +216,19 @@ export const useStore = create<AppState>()(
             }
 
             // Load all user data from Supabase
-            const [talkSessions, healthCards, speechAnalysesData, gameResultsData, insightsData, familyRequests, memorySessions] = await Promise.all([
+            const [talkSessions, healthCards, speechAnalysesData, gameResultsData, insightsData, familyRequests, memorySessions, memoryFacts] = await Promise.all([
               talkSessionService.findByUserId(user.id),
               healthCardService.findByUserId(user.id),
               speechAnalysisService.findByUserId(user.id).catch(() => []),
               gameResultService.findByUserId(user.id).catch(() => []),
               insightService.findByUserId(user.id).catch(() => []),
               familyRequestService.findByUserId(user.id).catch(() => []),
-              memorySessionService.findByUserId(user.id).catch(() => [])
+              memorySessionService.findByUserId(user.id).catch(() => []),
+              memoryFactService.findByUserId(user.id).catch(() => [])
             ]);
 
-            // Convert simplified Supabase data to full types (with defaults for missing fields)
-            const speechAnalyses: SpeechAnalysis[] = speechAnalysesData.map((sa: any) => ({
-              id: sa.id,
-              timestamp: sa.timestamp,
-              duration: sa.duration || 0,
-              transcript: sa.transcript,
-              metrics: sa.metrics || {
-                sentenceLength: sa.avg_sentence_length || 0,
-                vocabularyComplexity: sa.language_complexity || 0,
-                grammarConsistency: 0,
-                repetitionCount: 0,
-                pauseFrequency: 0,
-                speechRate: 0,
-                fleschKincaidGrade: 0
-              },
-              emotionalState: sa.emotional_state || 'neutral',
-              timeOfDay: 'morning' // Default, could be calculated from timestamp
-            }));
+            // speechAnalysisService fills in what older rows don't store
+            const speechAnalyses: SpeechAnalysis[] = speechAnalysesData;
 
             const gameResults: CognitiveGameResult[] = gameResultsData.map((gr: any) => ({
               id: gr.id,
@@ -314,6 +333,7 @@ export const useStore = create<AppState>()(
               insights,
               familyRequests,
               memorySessions,
+              memoryFacts,
               unreadInsights: 0 // Will be calculated from insights if needed
             });
 
@@ -359,7 +379,9 @@ export const useStore = create<AppState>()(
                 talkSessions: userData?.talkSessions || [],
                 healthCards: userData?.healthCards || [],
                 familyRequests: userData?.familyRequests || [],
-                memorySessions: userData?.memorySessions || []
+                memorySessions: userData?.memorySessions || [],
+                memoryFacts: userData?.memoryFacts || [],
+                biography: userData?.biography || null
               };
               
               // Save repaired data
@@ -396,7 +418,9 @@ export const useStore = create<AppState>()(
                 talkSessions: repairedData.talkSessions || [],
                 healthCards: repairedData.healthCards || [],
                 familyRequests: repairedData.familyRequests || [],
-                memorySessions: repairedData.memorySessions || []
+                memorySessions: repairedData.memorySessions || [],
+                memoryFacts: repairedData.memoryFacts || [],
+                biography: repairedData.biography || null
               });
               
               return true;
@@ -456,7 +480,9 @@ export const useStore = create<AppState>()(
               talkSessions: userData.talkSessions || [],
               healthCards: userData.healthCards || [],
               familyRequests: userData.familyRequests || [],
-              memorySessions: userData.memorySessions || []
+              memorySessions: userData.memorySessions || [],
+              memoryFacts: userData.memoryFacts || [],
+              biography: userData.biography || null
             });
             
             // Save user data to localStorage immediately to ensure consistency
@@ -471,7 +497,9 @@ export const useStore = create<AppState>()(
                 talkSessions: userData.talkSessions || [],
                 healthCards: userData.healthCards || [],
                 familyRequests: userData.familyRequests || [],
-                memorySessions: userData.memorySessions || []
+                memorySessions: userData.memorySessions || [],
+                memoryFacts: userData.memoryFacts || [],
+                biography: userData.biography || null
               };
               localStorage.setItem('sage-users', JSON.stringify(storedUsers));
             } catch (e) {
@@ -586,6 +614,8 @@ export const useStore = create<AppState>()(
               insights: [],
               familyRequests: [],
               memorySessions: [],
+              memoryFacts: [],
+              biography: null,
               unreadInsights: 0
             });
 
@@ -665,7 +695,9 @@ export const useStore = create<AppState>()(
             talkSessions: [],
             healthCards: [],
             familyRequests: [],
-            memorySessions: []
+            memorySessions: [],
+            memoryFacts: [],
+            biography: null
           };
           localStorage.setItem('sage-users', JSON.stringify(storedUsers));
           
@@ -691,7 +723,9 @@ export const useStore = create<AppState>()(
           talkSessions: [],
           healthCards: [],
           familyRequests: [],
-          memorySessions: []
+          memorySessions: [],
+          memoryFacts: [],
+          biography: null
         });
         return true;
         } catch (e) {
@@ -715,7 +749,9 @@ export const useStore = create<AppState>()(
             insights: state.insights,
               talkSessions: state.talkSessions,
               healthCards: state.healthCards,
-              familyRequests: state.familyRequests
+              familyRequests: state.familyRequests,
+              memoryFacts: state.memoryFacts,
+              biography: state.biography
             };
             localStorage.setItem('sage-users', JSON.stringify(storedUsers));
           } catch (e) {
@@ -732,6 +768,7 @@ export const useStore = create<AppState>()(
           isRecording: false,
           currentTranscript: '',
           currentEmotionalState: 'neutral',
+          recentEmotions: [],
           speechAnalyses: [],
           gameResults: [],
           insights: [],
@@ -739,7 +776,9 @@ export const useStore = create<AppState>()(
           activeTab: 'home',
           talkSessions: [],
           healthCards: [],
-          familyRequests: []
+          familyRequests: [],
+          memoryFacts: [],
+          biography: null
         });
         
         // CRITICAL: Redirect to home page after logout
@@ -799,7 +838,8 @@ export const useStore = create<AppState>()(
           const calculatedProfile = calculateCognitiveProfile(
             state.speechAnalyses,
             state.gameResults,
-              finalUser.cognitiveProfile
+              finalUser.cognitiveProfile,
+              state.talkSessions
             );
             finalUser = { ...finalUser, cognitiveProfile: calculatedProfile };
           }
@@ -829,7 +869,9 @@ export const useStore = create<AppState>()(
                 insights: state.insights || [],
                 talkSessions: state.talkSessions || [],
                 healthCards: state.healthCards || [],
-                familyRequests: state.familyRequests || []
+                familyRequests: state.familyRequests || [],
+                memoryFacts: state.memoryFacts || [],
+                biography: state.biography || null
               };
               localStorage.setItem('sage-users', JSON.stringify(storedUsers));
               console.log('✅ Onboarding completed and saved to localStorage');
@@ -869,18 +911,37 @@ export const useStore = create<AppState>()(
       
       setCurrentEmotionalState: (state) => set({ currentEmotionalState: state }),
       
-      addSpeechAnalysis: (analysis) => set((state) => {
-        const newAnalyses = [...state.speechAnalyses, analysis];
-        const updatedProfile = state.user 
-          ? calculateCognitiveProfile(newAnalyses, state.gameResults, state.user.cognitiveProfile)
-          : undefined;
-        return {
-          speechAnalyses: newAnalyses,
-          user: state.user && updatedProfile
-            ? { ...state.user, cognitiveProfile: updatedProfile }
-            : state.user
-        };
-      }),
+      recordEmotion: (distribution) => {
+        const state = useStore.getState();
+        const recentEmotions = addEmotionSample(state.recentEmotions, { timestamp: new Date(), distribution });
+        set({ recentEmotions });
+        if (!state.user) return;
+        
+        // Switch calming mode when agitation persists or has settled
+        const wasActive = state.user.conversationSettings.calmingModeActive;
+        const active = evaluateCalmingMode(recentEmotions, wasActive);
+        if (active === wasActive) return;
+        
+        state.updateConversationSettings({ calmingModeActive: active });
+        state.addInsight(createCalmingInsight(active, recentEmotions));
+      },
+      
+      addSpeechAnalysis: (analysis) => {
+        set((state) => {
+          const newAnalyses = [...state.speechAnalyses, analysis];
+          const updatedProfile = state.user 
+            ? calculateCognitiveProfile(newAnalyses, state.gameResults, state.user.cognitiveProfile, state.talkSessions)
+            : undefined;
+          return {
+            speechAnalyses: newAnalyses,
+            user: state.user && updatedProfile
+              ? { ...state.user, cognitiveProfile: updatedProfile }
+              : state.user
+          };
+        });
+        
+        runInsightEngine({ trigger: 'speech_analysis', analysis });
+      },
       
       addGameResult: (result) => {
         const state = useStore.getState();
@@ -891,7 +952,7 @@ export const useStore = create<AppState>()(
         
         const newResults = [...state.gameResults, result];
         const updatedProfile = state.user
-          ? calculateCognitiveProfile(state.speechAnalyses, newResults, state.user.cognitiveProfile)
+          ? calculateCognitiveProfile(state.speechAnalyses, newResults, state.user.cognitiveProfile, state.talkSessions)
           : undefined;
         
         set({
@@ -900,6 +961,7 @@ export const useStore = create<AppState>()(
             ? { ...state.user, cognitiveProfile: updatedProfile }
             : state.user
         });
+        runInsightEngine({ trigger: 'game_result', result });
         
         // Save to Supabase if configured
         if (isSupabaseConfigured()) {
@@ -1333,17 +1395,37 @@ export const useStore = create<AppState>()(
       },
       
       // Talk actions
-      addTalkSession: (session) => {
+      addTalkSession: (newSession) => {
         const state = useStore.getState();
         if (!state.currentUserId) {
           console.error('Cannot add talk session: no currentUserId');
           return;
         }
         
+        // Check restated life-story facts against the biography and earlier conversations
+        const memoryProbes = probeMemoryConsistency(newSession, state.biography, state.talkSessions);
+        const session = memoryProbes.length > 0 ? { ...newSession, memoryProbes } : newSession;
+        const newSessions = [...state.talkSessions, session];
+        const updatedProfile = state.user
+          ? calculateCognitiveProfile(state.speechAnalyses, state.gameResults, state.user.cognitiveProfile, newSessions)
+          : undefined;
+        // Remember what the person talked about for later conversations
+        const { facts: memoryFacts, changed: changedFacts } = mergeMemoryFacts(state.memoryFacts, extractMemoryFacts(session));
+        
         set({
-          talkSessions: [...state.talkSessions, session]
+          talkSessions: newSessions,
+          memoryFacts,
+          user: state.user && updatedProfile
+            ? { ...state.user, cognitiveProfile: updatedProfile }
+            : state.user
         });
         
+        // Compare against the person's own baseline
+        generateBaselineInsights(session, state.talkSessions).forEach(insight => {
+          useStore.getState().addInsight(insight);
+        });
+        runInsightEngine({ trigger: 'talk_session', session });
+        
         // Save to Supabase if configured
         if (isSupabaseConfigured()) {
           talkSessionService.create(state.currentUserId, session)
@@ -1353,6 +1435,15 @@ export const useStore = create<AppState>()(
             .catch((error) => {
               console.error('Error saving talk session to Supabase:', error);
             });
+          if (changedFacts.length > 0) {
+            memoryFactService.upsert(state.currentUserId, changedFacts)
+              .then(() => {
+                console.log(`✅ ${changedFacts.length} remembered fact(s) saved to Supabase`);
+              })
+              .catch((error) => {
+                console.error('Error saving remembered facts to Supabase:', error);
+              });
+          }
         }
       },
       
@@ -1368,6 +1459,8 @@ export const useStore = create<AppState>()(
           healthCards: [...state.healthCards, card]
         });
 
+        runInsightEngine({ trigger: 'health_card', card });
+
         // Save to Supabase if configured (async, don't block)
         if (isSupabaseConfigured()) {
           healthCardService.create(state.currentUserId, card)
@@ -1435,14 +1528,208 @@ export const useStore = create<AppState>()(
           isComplete: false
         };
         
+        // An entry merged into an existing chapter replaces it
+        const isUpdate = currentBiography.entries.some(e => e.id === entry.id);
         set({
           biography: {
             ...currentBiography,
-            entries: [...currentBiography.entries, entry],
+            entries: isUpdate
+              ? currentBiography.entries.map(e => e.id === entry.id ? entry : e)
+              : [...currentBiography.entries, entry],
             lastUpdated: new Date()
           }
         });
       },
+
+      addTimelineAnnotation: (annotation) => {
+        const state = useStore.getState();
+        if (!state.biography) return;
+        
+        const biography = { ...state.biography, annotations: [...(state.biography.annotations || []), annotation] };
+        set({ biography });
+        
+        // Save to localStorage now, so family notes are there for the next person to log in
+        if (state.currentUserId) {
+          try {
+            const storedUsers = JSON.parse(localStorage.getItem('sage-users') || '{}');
+            if (storedUsers[state.currentUserId]) {
+              storedUsers[state.currentUserId] = {
+                ...storedUsers[state.currentUserId],
+                biography
+              };
+              localStorage.setItem('sage-users', JSON.stringify(storedUsers));
+            }
+          } catch (e) {
+            console.error('Error saving timeline note:', e);
+          }
+        }
+      },
+
+      deleteTimelineAnnotation: (annotationId) => {
+        const state = useStore.getState();
+        if (!state.biography) return;
+        
+        const biography = { ...state.biography, annotations: (state.biography.annotations || []).filter(a => a.id !== annotationId) };
+        set({ biography });
+        
+        // Save to localStorage
+        if (state.currentUserId) {
+          try {
+            const storedUsers = JSON.parse(localStorage.getItem('sage-users') || '{}');
+            if (storedUsers[state.currentUserId]) {
+              storedUsers[state.currentUserId] = {
+                ...storedUsers[state.currentUserId],
+                biography
+              };
+              localStorage.setItem('sage-users', JSON.stringify(storedUsers));
+            }
+          } catch (e) {
+            console.error('Error deleting timeline note:', e);
+          }
+        }
+      },
+
+      deleteMemoryFact: (factId) => {
+        const state = useStore.getState();
+        const memoryFacts = state.memoryFacts.filter(fact => fact.id !== factId);
+        set({ memoryFacts });
+
+        // Save to localStorage now rather than at logout, so a forgotten fact stays forgotten
+        if (state.currentUserId) {
+          try {
+            const storedUsers = JSON.parse(localStorage.getItem('sage-users') || '{}');
+            if (storedUsers[state.currentUserId]) {
+              storedUsers[state.currentUserId] = {
+                ...storedUsers[state.currentUserId],
+                memoryFacts
+              };
+              localStorage.setItem('sage-users', JSON.stringify(storedUsers));
+            }
+          } catch (e) {
+            console.error('Error saving remembered facts:', e);
+          }
+        }
+
+        // Remove from Supabase if configured (async, don't block)
+        if (isSupabaseConfigured()) {
+          memoryFactService.delete(factId)
+            .then(() => {
+              console.log('✅ Remembered fact deleted from Supabase');
+            })
+            .catch((error) => {
+              console.error('Error deleting remembered fact from Supabase:', error);
+            });
+        }
+      },
+
+      judgeGroundingReference: (sessionId, referenceId, recall) => {
+        const state = useStore.getState();
+        const session = state.talkSessions.find(s => s.id === sessionId);
+        if (!session) return;
+        
+        const messages = session.messages.map(message => message.groundingReferences
+          ? {
+              ...message,
+              groundingReferences: message.groundingReferences.map(ref => ref.id === referenceId ? { ...ref, recall } : ref)
+            }
+          : message
+        );
+        const talkSessions = state.talkSessions.map(s => s.id === sessionId ? { ...s, messages } : s);
+        set({ talkSessions });
+        
+        // Save to localStorage
+        if (state.currentUserId) {
+          try {
+            const storedUsers = JSON.parse(localStorage.getItem('sage-users') || '{}');
+            if (storedUsers[state.currentUserId]) {
+              storedUsers[state.currentUserId] = {
+                ...storedUsers[state.currentUserId],
+                talkSessions
+              };
+              localStorage.setItem('sage-users', JSON.stringify(storedUsers));
+            }
+          } catch (e) {
+            console.error('Error saving recall judgement:', e);
+          }
+        }
+        
+        // Save to Supabase if configured (async, don't block)
+        if (isSupabaseConfigured()) {
+          talkSessionService.updateMessages(sessionId, messages)
+            .then(() => {
+              console.log('✅ Recall judgement saved to Supabase');
+            })
+            .catch((error) => {
+              console.error('Error saving recall judgement to Supabase:', error);
+            });
+        }
+      },
+
+      recomputeScores: (options) => {
+        const state = useStore.getState();
+        const { speechAnalyses, talkSessions, report } = backfillScores(state.speechAnalyses, state.talkSessions, options);
+        if (report.changes.length === 0) return report;
+        
+        const updatedProfile = state.user
+          ? calculateCognitiveProfile(speechAnalyses, state.gameResults, state.user.cognitiveProfile, talkSessions)
+          : undefined;
+        const updatedUser = state.user && updatedProfile
+          ? { ...state.user, cognitiveProfile: updatedProfile }
+          : state.user;
+        
+        set({
+          speechAnalyses,
+          talkSessions,
+          user: updatedUser
+        });
+        
+        // Save to localStorage
+        if (state.currentUserId) {
+          try {
+            const storedUsers = JSON.parse(localStorage.getItem('sage-users') || '{}');
+            if (storedUsers[state.currentUserId]) {
+              storedUsers[state.currentUserId] = {
+                ...storedUsers[state.currentUserId],
+                user: updatedUser,
+                speechAnalyses,
+                talkSessions
+              };
+              localStorage.setItem('sage-users', JSON.stringify(storedUsers));
+            }
+          } catch (e) {
+            console.error('Error saving recomputed scores:', e);
+          }
+        }
+        
+        // Write rescored recordings and conversations back to Supabase
+        if (isSupabaseConfigured() && state.currentUserId) {
+          const rescoredIds = new Set(report.changes.map(c => c.id));
+          speechAnalyses
+            .filter(analysis => rescoredIds.has(analysis.id))
+            .forEach(analysis => {
+              speechAnalysisService.updateScores(analysis.id, analysis)
+                .then(() => {
+                  console.log('✅ Rescored speech analysis saved to Supabase');
+                })
+                .catch((error) => {
+                  console.error('Error saving rescored speech analysis to Supabase:', error);
+                });
+            });
+          talkSessions
+            .filter(session => rescoredIds.has(session.id))
+            .forEach(session => {
+              talkSessionService.updateScores(session.id, session)
+                .then(() => {
+                  console.log('✅ Rescored talk session saved to Supabase');
+                })
+                .catch((error) => {
+                  console.error('Error saving rescored talk session to Supabase:', error);
+                });
+            });
+        }
+        
+        return report;
+      },
       
       reset: () => set({
         isAuthenticated: false,
@@ -1451,6 +1738,7 @@ export const useStore = create<AppState>()(
         isRecording: false,
         currentTranscript: '',
         currentEmotionalState: 'neutral',
+        recentEmotions: [],
         speechAnalyses: [],
         gameResults: [],
         insights: [],
@@ -1460,7 +1748,9 @@ export const useStore = create<AppState>()(
         talkSessions: [],
         healthCards: [],
         familyRequests: [],
-        memorySessions: []
+        memorySessions: [],
+        memoryFacts: [],
+        biography: null
       }),
       
       clearAllAccounts: () => {
@@ -1545,6 +1835,7 @@ export const useStore = create<AppState>()(
           isRecording: false,
           currentTranscript: '',
           currentEmotionalState: 'neutral',
+          recentEmotions: [],
           speechAnalyses: [],
           gameResults: [],
           insights: [],
@@ -1554,7 +1845,9 @@ export const useStore = create<AppState>()(
           talkSessions: [],
           healthCards: [],
           familyRequests: [],
-          memorySessions: []
+          memorySessions: [],
+          memoryFacts: [],
+          biography: null
         });
       },
       
@@ -1688,6 +1981,7 @@ export const useStore = create<AppState>()(
         isRecording: false,
         currentTranscript: '',
         currentEmotionalState: 'neutral',
+        recentEmotions: [],
         speechAnalyses: [],
         gameResults: [],
         insights: [],
@@ -1697,7 +1991,9 @@ export const useStore = create<AppState>()(
         talkSessions: [],
         healthCards: [],
         familyRequests: [],
-        memorySessions: []
+        memorySessions: [],
+        memoryFacts: [],
+        biography: null
         });
         
         // #region agent log
@@ -2,6 +2,16 @@
 
 export type EmotionalState = 'calm' | 'happy' | 'anxious' | 'sad' | 'agitated' | 'neutral';
 
+export type EmotionDistribution = Record<EmotionalState, number>;
+
+// Emotion estimate for a recording (see lib/emotionAnalysis)
+export interface EmotionAnalysis {
+  distribution: EmotionDistribution; // Probability of each state, sums to 1
+  valence: number; // -1 (negative) to 1 (positive)
+  arousal: number; // 0 (subdued) to 1 (highly activated)
+  usedProsody: boolean; // Voice pitch, loudness and tempo contributed
+}
+
 export interface SpeechAnalysis {
   id: string;
   timestamp: Date;
@@ -15,11 +25,74 @@ export interface SpeechAnalysis {
     pauseFrequency: number; // pauses per minute
     speechRate: number; // words per minute
     fleschKincaidGrade: number;
+    articulationRate?: number; // words per minute of phonation (requires audio)
   };
-  emotionalState: EmotionalState;
+  audioFeatures?: AudioFeatures; // Present when the microphone stream was analyzed
+  lexical?: LexicalMetrics; // Lexical richness details behind vocabularyComplexity
+  syntax?: SyntacticMetrics; // Sentence structure details behind grammarConsistency
+  scores?: SpeechScores; // Language score breakdown (see lib/scoringEngine)
+  scoringVersion?: string; // Scoring algorithm that produced metrics and scores; absent on legacy records
+  emotionalState: EmotionalState; // Most likely state in emotion.distribution
+  emotion?: EmotionAnalysis;
   timeOfDay: 'morning' | 'afternoon' | 'evening' | 'night';
 }
 
+export interface SpeechScores {
+  overall: number; // 0-100
+  vocabulary: number;
+  grammar: number;
+  fluency: number;
+  complexity: number;
+}
+
+// Pause/phonation measurements from the microphone stream (see lib/audioAnalysis)
+export interface AudioFeatures {
+  totalTime: number; // seconds of audio analyzed
+  speakingTime: number; // seconds from first to last voiced frame
+  phonationTime: number; // seconds of voiced audio
+  pauseCount: number; // silent gaps >= 250ms between speech
+  pauseTime: number; // seconds spent in those gaps
+  meanPauseDuration: number; // seconds
+  pauseHistogram: {
+    short: number; // 0.25-0.5s
+    medium: number; // 0.5-1s
+    long: number; // 1-2s
+    extended: number; // > 2s
+  };
+  prosody?: ProsodyFeatures; // Pitch and loudness of the voiced frames
+}
+
+// Voice pitch and loudness from the microphone stream (see lib/audioAnalysis)
+export interface ProsodyFeatures {
+  meanPitch: number | null; // Hz, null when too few frames had a detectable pitch
+  pitchVariability: number | null; // Standard deviation in semitones
+  meanEnergy: number; // RMS amplitude of voiced frames, 0-1 (depends on microphone gain)
+  energyVariability: number; // Coefficient of variation of voiced-frame energy
+  voicedFrames: number; // Frames the estimate is based on
+}
+
+// Lexical-semantic richness of a transcript (see lib/lexicalMetrics)
+export interface LexicalMetrics {
+  wordCount: number;
+  mattr: number; // Moving-average type-token ratio, 0-1
+  wordFrequencyScore: number; // 0-100, higher = rarer (less frequent) content words
+  rareWordRate: number; // Share of content words outside the frequency list, 0-1
+  ideaDensity: number; // Propositions per word
+  pronounNounRatio: number;
+  emptyWordRate: number; // "thing", "stuff", "whatsit" per word
+}
+
+// Sentence structure of a transcript (see lib/syntacticMetrics)
+export interface SyntacticMetrics {
+  utteranceCount: number;
+  meanLengthOfUtterance: number; // Words per utterance, fillers excluded
+  clauseDensity: number; // Clauses per utterance
+  subordinationIndex: number; // Clauses per T-unit (a main clause with its subordinate clauses)
+  verbArgumentCompleteness: number | null; // Share of clauses with their subject and required object, 0-1
+  nounPhraseComplexity: number | null; // Modifiers per noun phrase headed by a noun
+  fragmentRate: number; // Utterances without a complete main clause, 0-1
+}
+
 export interface LanguageComplexityScore {
   date: Date;
   overallScore: number; // 0-100
@@ -134,29 +207,44 @@ export interface FamilyMessage {
   read: boolean;
 }
 
+export type TrendDirection = 'improving' | 'declining' | 'stable';
+
+export interface TrendEstimate {
+  windowDays: number;
+  sampleSize: number;
+  slopePerWeek: number; // Score points per week
+  lowerPerWeek: number; // 95% confidence interval
+  upperPerWeek: number;
+  direction: TrendDirection; // 'stable' unless the interval excludes zero
+}
+
 export interface CognitiveProfile {
   userId: string;
   lastUpdated: Date;
   overallTrend: 'stable' | 'improving' | 'declining' | 'variable' | null;
   languageComplexity: {
     current: number | null;
-    trend: number | null; // positive = improving
+    trend: number | null; // Significant slope in points/week, 0 when stable
     weeklyAverage: number | null;
+    trendEstimate?: TrendEstimate | null;
   };
   memoryRecall: {
     current: number | null;
     trend: number | null;
     weeklyAverage: number | null;
+    trendEstimate?: TrendEstimate | null;
   };
   attention: {
     current: number | null;
     trend: number | null;
     weeklyAverage: number | null;
+    trendEstimate?: TrendEstimate | null;
   };
   processingSpeed: {
     current: number | null;
     trend: number | null;
     weeklyAverage: number | null;
+    trendEstimate?: TrendEstimate | null;
   };
   emotionalPatterns: {
     dominant: EmotionalState | null;
@@ -174,6 +262,7 @@ export interface Insight {
   title: string;
   description: string;
   recommendation?: string;
+  ruleKey?: string; // Insight engine rule (and subject) that raised it, for deduplication
 }
 
 export interface DailyLog {
@@ -194,8 +283,13 @@ export interface ConversationSettings {
   usesFamiliarNames: boolean;
   repetitionEnabled: boolean;
   calmingModeActive: boolean;
+  provider?: ConversationProviderId; // Overrides NEXT_PUBLIC_LLM_PROVIDER
+  model?: string; // Overrides the provider's default model
 }
 
+// Language model backends Sage can talk through (see lib/conversationProvider)
+export type ConversationProviderId = 'openai' | 'gemini' | 'local' | 'offline' | 'mock';
+
 export interface User {
   id: string;
   name: string;
@@ -236,7 +330,7 @@ export interface BiographyEntry {
     lifeLessons?: string[];
   };
   timestamp: Date;
-  sourceSessionId: string;
+  sourceSessionIds: string[]; // MemorySessions whose answers this entry holds
 }
 
 export interface Biography {
@@ -246,6 +340,35 @@ export interface Biography {
   entries: BiographyEntry[];
   lastUpdated: Date;
   isComplete: boolean;
+  annotations?: TimelineAnnotation[]; // Family notes on life timeline events
+}
+
+// Life timeline built from biography entries (see lib/lifeTimeline)
+export type TimelineDatePrecision = 'day' | 'year' | 'approximate' | 'undated';
+
+export interface TimelineEvent {
+  id: string; // BiographyEntry.id and a hash of the sentence, stable when the entry is reprocessed
+  entryId: string;
+  chapter: LifeChapter;
+  description: string; // The sentence that tells of the event
+  date: Date | null;
+  precision: TimelineDatePrecision;
+  dateText?: string; // What the date is based on, e.g. "1962" or "when I was 20"
+  earliestYear?: number; // Range the event could fall in
+  latestYear?: number;
+}
+
+export interface TimelineConflict {
+  eventIds: [string, string];
+  reason: string;
+}
+
+export interface TimelineAnnotation {
+  id: string;
+  eventId: string;
+  authorName: string; // Family member who wrote the note
+  text: string;
+  timestamp: Date;
 }
 
 // Feature 8: Health Scribe Types
@@ -296,6 +419,59 @@ export interface TalkMessage {
   content: string;
   timestamp: Date;
   spoken?: boolean; // Whether this was spoken via TTS
+  tokens?: TranscriptToken[]; // Word timings from speech recognition (user turns only)
+  disfluencies?: DisfluencyReport; // Fillers, false starts and self-corrections (user turns only)
+  speechEndedAt?: number; // epoch ms when TTS finished speaking this turn (Sage turns only)
+  interrupted?: boolean; // The user barged in before Sage finished (Sage turns only)
+  groundingReferences?: GroundingReference[]; // Life-story and family details the reply brought up (Sage turns only)
+  timing?: TurnTiming; // Response timing (user turns only)
+}
+
+// A life-story or family detail Sage brought up, and how the person recalled it (see lib/biographyGrounding)
+export interface GroundingReference {
+  id: string;
+  source: 'biography' | 'family';
+  sourceId: string; // BiographyEntry.id or FamilyMember.id
+  chapter?: LifeChapter;
+  kind: 'name' | 'location' | 'date' | 'lesson' | 'family';
+  detail: string;
+  userResponse?: string; // What the person said next
+  recall?: 'correct' | 'incorrect' | 'unsure'; // A caregiver's judgement of that response
+}
+
+// When a user turn started relative to Sage's prompt (see lib/responseLatency)
+export interface TurnTiming {
+  promptEndedAt: number | null; // epoch ms when Sage finished speaking the preceding turn
+  recordingStartedAt: number; // epoch ms when the microphone opened
+  voiceDetectedAt: number | null; // epoch ms of the first speech recognition activity
+  finalResultAt: number | null; // epoch ms of the last final recognition result
+  latencyMs: number | null; // From prompt end (or microphone opening, if later) to first voice
+}
+
+export interface TranscriptToken {
+  text: string;
+  resultIndex: number; // Speech recognition result this word belongs to
+  firstHeardAt: number; // ms since the turn started, when the word first appeared (interim or final)
+  finalizedAt: number | null; // ms since the turn started, when recognition committed the word
+}
+
+export type DisfluencyType = 'filler' | 'repetition' | 'false_start' | 'self_correction' | 'hesitation';
+
+export interface Disfluency {
+  type: DisfluencyType;
+  text: string;
+  wordIndex: number; // Position in the turn's word sequence
+  time: number | null; // ms since the turn started, when timings are available
+}
+
+export interface DisfluencyReport {
+  fillerCount: number;
+  repetitionCount: number;
+  falseStartCount: number;
+  selfCorrectionCount: number;
+  hesitationCount: number;
+  wordCount: number;
+  events: Disfluency[];
 }
 
 export interface TalkSession {
@@ -312,10 +488,56 @@ export interface TalkSession {
     processingSpeed: number; // 0-100
     attention: number; // 0-100
   } | null;
+  coherence?: CoherenceMetrics; // Detail behind cliBreakdown.coherence
+  memoryProbes?: MemoryProbe[]; // Life-story facts restated in this session, checked for consistency
+  scoringVersion?: string; // Scoring algorithm behind cliScore/cliBreakdown; absent on legacy records
+  audioFeatures?: AudioFeatures; // Kept so the session can be rescored later
   status: 'active' | 'completed';
   duration: number; // seconds
 }
 
+// How well user turns follow the conversation (see lib/discourseCoherence)
+export interface CoherenceMetrics {
+  judgedTurns: number; // User turns with enough content words to judge
+  onTopicRate: number | null; // Share of judged turns that address Sage's prompt, 0-1
+  driftRate: number | null; // Share of judged turns unrelated to both prompt and conversation, 0-1
+  meanPromptSimilarity: number | null; // Mean TF-IDF cosine with Sage's prompt
+  meanContextSimilarity: number | null; // Mean TF-IDF cosine with the earlier conversation
+  repeatedTurns: number; // User turns that repeat an earlier one
+}
+
+// Autobiographical memory consistency (see lib/memoryConsistency)
+export type LifeFactTopic = 'wedding_year' | 'birth_year' | 'birthplace' | 'hometown' | 'occupation' | 'child_name';
+export type ConsistencyOutcome = 'match' | 'contradict' | 'vague';
+
+export interface MemoryProbe {
+  id: string;
+  topic: LifeFactTopic;
+  subject: string; // "son" or "daughter" for children, otherwise the topic
+  statement: string; // The sentence the person said
+  claimed: string | null; // The year, place, job or name they gave; null when they couldn't say
+  expected: string; // What the biography or an earlier statement says
+  source: 'biography' | 'conversation';
+  sourceId: string; // BiographyEntry.id or TalkSession.id
+  outcome: ConsistencyOutcome;
+}
+
+// Long-term conversational memory (see lib/conversationMemory)
+export type MemoryFactCategory = 'person' | 'pet' | 'event' | 'preference';
+
+export interface MemoryFact {
+  id: string;
+  category: MemoryFactCategory;
+  subject: string; // What it's about, lowercase ("sarah", "dog", "favorite color"); one fact per category and subject
+  statement: string; // As Sage's prompt shows it, e.g. "Their daughter is Sarah."
+  keywords: string[]; // Words that make the fact relevant to a conversation
+  eventDate?: Date; // When an upcoming event happens (events only)
+  sourceSessionId: string; // Talk session it was last mentioned in
+  firstMentioned: Date;
+  lastMentioned: Date;
+  mentionCount: number;
+}
+
 // Health Card Types (for passive health extraction)
 export type HealthCategory = 'pain' | 'sleep' | 'mood' | 'energy' | 'appetite' | 'mobility' | 'medication' | 'symptom';
 
@@ -27,6 +27,10 @@ CREATE TABLE IF NOT EXISTS talk_sessions (
   transcript TEXT NOT NULL,
   cli_score NUMERIC,
   cli_breakdown JSONB,
+  scoring_version TEXT,
+  audio_features JSONB,
+  coherence JSONB,
+  memory_probes JSONB,
   status TEXT NOT NULL DEFAULT 'active',
   duration NUMERIC DEFAULT 0,
   created_at TIMESTAMPTZ DEFAULT NOW()
@@ -58,6 +62,10 @@ CREATE TABLE IF NOT EXISTS speech_analyses (
   avg_sentence_length NUMERIC NOT NULL,
   emotional_state TEXT NOT NULL,
   language_complexity NUMERIC NOT NULL,
+  metrics JSONB,
+  duration NUMERIC,
+  scoring_version TEXT,
+  emotion JSONB,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -82,6 +90,7 @@ CREATE TABLE IF NOT EXISTS insights (
   title TEXT NOT NULL,
   description TEXT NOT NULL,
   read BOOLEAN DEFAULT false,
+  rule_key TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -110,6 +119,60 @@ BEGIN
   END IF;
 END $$;
 
+-- Add scoring columns if they don't exist (for existing databases)
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'talk_sessions' AND column_name = 'scoring_version'
+  ) THEN
+    ALTER TABLE talk_sessions ADD COLUMN scoring_version TEXT;
+    ALTER TABLE talk_sessions ADD COLUMN audio_features JSONB;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'talk_sessions' AND column_name = 'coherence'
+  ) THEN
+    ALTER TABLE talk_sessions ADD COLUMN coherence JSONB;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'talk_sessions' AND column_name = 'memory_probes'
+  ) THEN
+    ALTER TABLE talk_sessions ADD COLUMN memory_probes JSONB;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'speech_analyses' AND column_name = 'scoring_version'
+  ) THEN
+    ALTER TABLE speech_analyses ADD COLUMN scoring_version TEXT;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'speech_analyses' AND column_name = 'emotion'
+  ) THEN
+    ALTER TABLE speech_analyses ADD COLUMN emotion JSONB;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'speech_analyses' AND column_name = 'duration'
+  ) THEN
+    ALTER TABLE speech_analyses ADD COLUMN duration NUMERIC;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'speech_analyses' AND column_name = 'metrics'
+  ) THEN
+    ALTER TABLE speech_analyses ADD COLUMN metrics JSONB;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_schema = 'public' AND table_name = 'insights' AND column_name = 'rule_key'
+  ) THEN
+    ALTER TABLE insights ADD COLUMN rule_key TEXT;
+  END IF;
+END $$;
+
 -- Family messages table
 CREATE TABLE IF NOT EXISTS family_messages (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -142,6 +205,22 @@ CREATE TABLE IF NOT EXISTS memory_sessions (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Memory facts table (what Sage remembers from earlier conversations)
+CREATE TABLE IF NOT EXISTS memory_facts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  statement TEXT NOT NULL,
+  keywords JSONB NOT NULL DEFAULT '[]'::jsonb,
+  event_date TIMESTAMPTZ,
+  session_id UUID,
+  first_mentioned TIMESTAMPTZ NOT NULL,
+  last_mentioned TIMESTAMPTZ NOT NULL,
+  mention_count INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
 CREATE INDEX IF NOT EXISTS idx_talk_sessions_user_id ON talk_sessions(user_id);
@@ -160,6 +239,7 @@ CREATE INDEX IF NOT EXISTS idx_family_messages_timestamp ON family_messages(time
 CREATE INDEX IF NOT EXISTS idx_memory_sessions_user_id ON memory_sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_memory_sessions_timestamp ON memory_sessions(timestamp);
 CREATE INDEX IF NOT EXISTS idx_memory_sessions_chapter ON memory_sessions(chapter);
+CREATE INDEX IF NOT EXISTS idx_memory_facts_user_id ON memory_facts(user_id);
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
@@ -171,6 +251,7 @@ ALTER TABLE insights ENABLE ROW LEVEL SECURITY;
 ALTER TABLE family_requests ENABLE ROW LEVEL SECURITY;
 ALTER TABLE family_messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE memory_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memory_facts ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies: Users can only access their own data
 -- Note: Since we're using username/password auth (not Supabase Auth),
@@ -190,6 +271,7 @@ DROP POLICY IF EXISTS "Users can manage own insights" ON insights;
 DROP POLICY IF EXISTS "Users can manage family requests" ON family_requests;
 DROP POLICY IF EXISTS "Users can manage family messages" ON family_messages;
 DROP POLICY IF EXISTS "Users can manage own memory sessions" ON memory_sessions;
+DROP POLICY IF EXISTS "Users can manage own memory facts" ON memory_facts;
 
 -- Policy: Users can read their own data
 CREATE POLICY "Users can read own data" ON users
@@ -240,6 +322,10 @@ CREATE POLICY "Users can manage family messages" ON family_messages
 CREATE POLICY "Users can manage own memory sessions" ON memory_sessions
   FOR ALL USING (true);
 
+-- Policy: Users can manage their own memory facts
+CREATE POLICY "Users can manage own memory facts" ON memory_facts
+  FOR ALL USING (true);
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$